@@ -1,9 +1,5 @@
 
-import React, { useState, useMemo } from 'react';
-import { 
-  BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, PieChart, Pie, Cell, Legend 
-} from 'recharts';
-import Papa from 'papaparse';
+import React, { useState, useMemo, useEffect } from 'react';
 import { 
   FileUp, 
   Download, 
@@ -17,102 +13,450 @@ import {
   Info,
   ShieldCheck,
   Stethoscope,
-  CalendarDays
+  CalendarDays,
+  AlertTriangle,
+  FileSpreadsheet,
+  PenLine,
+  FileDown,
+  ListChecks,
+  SearchCheck,
+  Columns3,
+  Layers,
+  Trash2,
+  Copy,
+  HardDrive,
+  Scale,
+  EyeOff,
+  ClipboardList,
+  HelpCircle
 } from 'lucide-react';
-import { RadiologyRecord } from './types';
-import { COLUMN_MAPPING } from './constants';
-import { classifyRecord, getSummaryBySpecialist, getModalityStats, normalize } from './utils/dataProcessor';
+import {
+  RadiologyRecord,
+  DashboardFilters,
+  ReportSignature,
+  ClassificationRule,
+  NearMiss,
+  IngestOptions,
+  ColumnMapping,
+  MappingProfile,
+  ModalityDefinition,
+  DataSource,
+  DuplicatePolicy,
+  SessionState,
+  SnapshotMeta,
+  CompareConfig,
+  WeightTable,
+  PrivacySettings,
+  ExportFormat,
+  ReportStatusDefinition,
+  PivotConfig,
+  SavedFilter,
+  SpecialistProfile
+} from './types';
+import { classifyRecord, getSummaryBySpecialist } from './utils/dataProcessor';
 import { exportToWord } from './utils/wordExport';
+import { exportToExcel, exportPendingWork, exportPivot } from './utils/excelExport';
+import { exportToPdf } from './utils/pdfExport';
+import { normalizeRecordDates, DateParseIssue } from './utils/dateParser';
+import {
+  ingestFile,
+  describeFormat,
+  DEFAULT_INGEST_OPTIONS,
+  DELIMITER_OPTIONS,
+  ENCODING_OPTIONS,
+  ACCEPTED_EXTENSIONS
+} from './utils/ingestion';
+import {
+  applyMapping,
+  findProfile,
+  headerSignature,
+  isStandardLayout,
+  loadProfiles,
+  missingRequired,
+  saveProfiles,
+  suggestMapping,
+  upsertProfile
+} from './utils/columnMapping';
+import { validateImport } from './utils/importQuality';
+import { mergeSources, newSourceId, sourceName, DUPLICATE_POLICIES, DEFAULT_DUPLICATE_POLICY } from './utils/sources';
+import { loadSession, saveSession, clearSession, listSnapshots, saveSnapshot, loadSnapshot, deleteSnapshot } from './utils/sessionStore';
+import { loadModalities, saveModalities, resolveModality, includedModalities, modalityName } from './utils/modalityConfig';
+import { applyFilters, getDateRange, filtersToSearch, filtersFromSearch, DEFAULT_FILTERS } from './utils/filters';
+import { compileQuery, QUERY_HELP } from './utils/query';
+import { loadSavedFilters, saveSavedFilters, newSavedFilterId } from './utils/savedFilters';
+import { newPrivacySettings, anonymizeRecord, pseudonymizeId, privacySafeHeaders } from './utils/privacy';
+import { loadStatuses, saveStatuses, compileStatuses, applyStatuses, statusOrder, getUnmappedStatuses } from './utils/reportStatus';
+import { applyRegions, regionOrder } from './utils/regions';
+import { DEFAULT_PIVOT_CONFIG, sanitizePivotConfig } from './utils/pivot';
+import { loadDirectory, saveDirectory, compileDirectory, applyDirectory, specialistInitials, roleLabel } from './utils/specialists';
+import { loadWeights, saveWeights, compileWeights, applyWeights, formatScore } from './utils/weights';
+import { selectPeriod, periodLabel, comparePeriods, defaultCompareConfig } from './utils/comparison';
+import { getTurnaroundSummary, DEFAULT_SLA_HOURS } from './utils/turnaround';
+import { loadRules, saveRules, compileRules, getSubcategories, newRuleId, STANDARD_SUBCATEGORY } from './utils/classificationRules';
+import TurnaroundPanel from './components/TurnaroundPanel';
+import ChartsPanel from './components/ChartsPanel';
+import CompareControls from './components/CompareControls';
+import DeltaBadge from './components/DeltaBadge';
+import RulesEditor from './components/RulesEditor';
+import ClassificationReview from './components/ClassificationReview';
+import ColumnMappingWizard from './components/ColumnMappingWizard';
+import ImportSummary from './components/ImportSummary';
+import ModalityEditor from './components/ModalityEditor';
+import WeightsEditor from './components/WeightsEditor';
+import SnapshotManager from './components/SnapshotManager';
+import SpecialistDetail from './components/SpecialistDetail';
+import StatusPanel from './components/StatusPanel';
+import RegionPanel from './components/RegionPanel';
+import SpecialistDirectory from './components/SpecialistDirectory';
+import StatusEditor from './components/StatusEditor';
+import PivotExplorer from './components/PivotExplorer';
+import SavedFilters from './components/SavedFilters';
 
 // URL del logo de FortBA (versión raw para renderizado)
 const FORTBA_LOGO_URL = "https://raw.githubusercontent.com/FredyOrtega/favicon/07bd67da473f85b36caf42192c7b8ce9e5b53545/formato%20png.png";
 const FORTBA_URL = "https://fortba.com/";
 
-// Modalidades permitidas por el usuario
-const ALLOWED_MODALITIES = ['CT', 'US', 'CR', 'MG'];
+// Títulos históricos de las tarjetas KPI; las demás subcategorías usan su nombre
+const KPI_TITLES: Record<string, string> = {
+  CONTRASTADOS: 'Estudios Contrastados',
+  ESPECIALES: 'Procedimientos Especiales'
+};
+
+// Espera antes de guardar la sesión, para no escribir en cada tecla de los filtros
+const SESSION_SAVE_DELAY = 800;
+
+// Archivo leído que aún no se ha convertido en registros
+type PendingImport = Omit<DataSource, 'records' | 'report'>;
 
 export default function App() {
-  const [data, setData] = useState<RadiologyRecord[]>([]);
+  const [sources, setSources] = useState<DataSource[]>([]);
+  const [duplicatePolicy, setDuplicatePolicy] = useState<DuplicatePolicy>(DEFAULT_DUPLICATE_POLICY);
+  const [rules, setRules] = useState<ClassificationRule[]>(loadRules);
+  const [modalities, setModalities] = useState<ModalityDefinition[]>(loadModalities);
+  const [weights, setWeights] = useState<WeightTable>(loadWeights);
+  const [privacy, setPrivacy] = useState<PrivacySettings>(newPrivacySettings);
+  const [statuses, setStatuses] = useState<ReportStatusDefinition[]>(loadStatuses);
+  const [pivot, setPivot] = useState<PivotConfig>(DEFAULT_PIVOT_CONFIG);
+  const [savedFilters, setSavedFilters] = useState<SavedFilter[]>(loadSavedFilters);
+  const [showQueryHelp, setShowQueryHelp] = useState(false);
+  const [directory, setDirectory] = useState<SpecialistProfile[]>(loadDirectory);
+  const [showModalityEditor, setShowModalityEditor] = useState(false);
+  const [showWeightsEditor, setShowWeightsEditor] = useState(false);
+  const [showStatusEditor, setShowStatusEditor] = useState(false);
+  const [showDirectory, setShowDirectory] = useState(false);
+  const [showRulesEditor, setShowRulesEditor] = useState(false);
+  const [showReview, setShowReview] = useState(false);
   const [loading, setLoading] = useState(false);
-  const [filterSpecialist, setFilterSpecialist] = useState('All');
-  const [searchTerm, setSearchTerm] = useState('');
+  const [filters, setFilters] = useState<DashboardFilters>(DEFAULT_FILTERS);
+  const [slaHours, setSlaHours] = useState(DEFAULT_SLA_HOURS);
+  // Modo comparativo: null = desactivado
+  const [compare, setCompare] = useState<CompareConfig | null>(null);
+  // Archivo cuyo reporte de calidad está abierto
+  const [reportSourceId, setReportSourceId] = useState<string | null>(null);
+  const [ingestOptions, setIngestOptions] = useState<IngestOptions>(DEFAULT_INGEST_OPTIONS);
+  const [mappingProfiles, setMappingProfiles] = useState<MappingProfile[]>(loadProfiles);
+  // Archivos esperando la asignación de columnas; el asistente muestra el primero
+  const [pendingImports, setPendingImports] = useState<PendingImport[]>([]);
+  const [signature, setSignature] = useState<ReportSignature>({ name: '', title: 'Jefe de Departamento de Radiología' });
+  // No se guarda nada hasta terminar de restaurar la sesión anterior
+  const [hydrated, setHydrated] = useState(false);
+  const [lastSavedAt, setLastSavedAt] = useState<number | null>(null);
+  const [snapshots, setSnapshots] = useState<SnapshotMeta[]>([]);
+  const [showSnapshots, setShowSnapshots] = useState(false);
+  const [detailSpecialist, setDetailSpecialist] = useState<string | null>(null);
 
-  const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    if (!file) return;
+  const compiledRules = useMemo(() => compileRules(rules), [rules]);
+
+  // Convierte las filas del archivo en registros con el mapeo de columnas confirmado
+  const buildSource = (pending: PendingImport, modalityConfig: ModalityDefinition[] = modalities): DataSource => {
+    const { id, fileName, input, mapping } = pending;
+    const issues: DateParseIssue[] = [];
+    const parsed = input.rows.map((row, idx) => {
+      const record = { ...applyMapping(row, mapping), source: id };
+      // Los alias (ej. DX) se cuentan con su modalidad canónica antes de clasificar
+      record.modalidad = resolveModality(record.modalidad, modalityConfig);
+      return classifyRecord(normalizeRecordDates(record as RadiologyRecord, idx + 1, issues), compiledRules);
+    });
+
+    const { kept, report } = validateImport(fileName, parsed, input.rows, issues, includedModalities(modalityConfig), input.malformedRows);
+    return { ...pending, records: kept, report };
+  };
+
+  // Agrega el archivo a la sesión, o lo reemplaza si se reasignaron sus columnas
+  const addSource = (source: DataSource) => {
+    setSources(prev => (prev.some(s => s.id === source.id)
+      ? prev.map(s => (s.id === source.id ? source : s))
+      : [...prev, source]));
+    // Si no quedó ninguna fila, el detalle de rechazos explica por qué
+    if (source.records.length === 0 && source.report.rowsRead > 0) setReportSourceId(source.id);
+  };
+
+  const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files: File[] = event.target.files ? Array.from(event.target.files) : [];
+    event.target.value = '';
+    if (files.length === 0) return;
 
     setLoading(true);
-    const reader = new FileReader();
-    reader.onload = (e) => {
-      const text = e.target?.result as string;
-      const lines = text.split('\n');
-      
-      let headerIndex = lines.findIndex(line => {
-        const nLine = normalize(line);
-        return nLine.includes('ID PACIENTE') || 
-               nLine.includes('DESCRIPCION') || 
-               nLine.includes('MODALIDAD');
-      });
+    const needsMapping: PendingImport[] = [];
+    for (const file of files) {
+      try {
+        const input = await ingestFile(file, ingestOptions);
+        if (input.rows.length === 0) continue;
 
-      if (headerIndex === -1) {
-        alert("No se encontró la fila de encabezado válida. Verifique el formato del archivo.");
-        setLoading(false);
-        return;
+        // Un perfil guardado con la misma firma o el formato estándar se importan sin preguntar
+        const profile = findProfile(mappingProfiles, headerSignature(input.headers));
+        const mapping = profile ? profile.mapping : suggestMapping(input.headers);
+        const pending: PendingImport = {
+          id: newSourceId(),
+          fileName: file.name,
+          loadedAt: Date.now(),
+          input,
+          mapping,
+          profileName: profile?.name || ''
+        };
+
+        if ((profile || isStandardLayout(input.headers)) && missingRequired(mapping, input.headers).length === 0) {
+          addSource(buildSource(pending));
+        } else {
+          needsMapping.push(pending);
+        }
+      } catch (err) {
+        console.error("Error leyendo archivo:", err);
+        alert(`${file.name}: ${(err as Error).message || "Error al leer el archivo."}`);
       }
+    }
+    setPendingImports(prev => [...prev, ...needsMapping]);
+    setLoading(false);
+  };
 
-      const validCsv = lines.slice(headerIndex).join('\n');
-
-      Papa.parse(validCsv, {
-        header: true,
-        skipEmptyLines: true,
-        delimiter: "|",
-        complete: (results) => {
-          if (results.data.length === 0) {
-            setLoading(false);
-            return;
-          }
-
-          const rowKeys = Object.keys(results.data[0]);
-          const parsed = results.data.map((row: any) => {
-            const record: any = {};
-            const rowValues = Object.values(row);
-            
-            Object.entries(COLUMN_MAPPING).forEach(([csvCol, internalKey]) => {
-              const matchingKey = rowKeys.find(k => normalize(k) === normalize(csvCol));
-              let val = matchingKey ? row[matchingKey] : '';
-              
-              if (internalKey === 'descripcion' && (!val || val.trim() === '') && rowValues[2]) {
-                val = rowValues[2] as string;
-              }
-              
-              record[internalKey] = val?.trim() || '';
-            });
+  const pendingImport = pendingImports[0];
 
-            return classifyRecord(record as RadiologyRecord);
-          });
-          
-          const cleanData = parsed.filter(d => {
-            const hasId = d.id_paciente && d.id_paciente.trim() !== '';
-            const mod = (d.modalidad || '').trim().toUpperCase();
-            const isAllowedMod = ALLOWED_MODALITIES.includes(mod);
-            return hasId && isAllowedMod;
-          });
-
-          if (cleanData.length === 0 && parsed.length > 0) {
-            alert("El archivo se leyó pero ninguna fila coincide con las modalidades permitidas (CT, US, CR, MG).");
-          }
-
-          setData(cleanData);
-          setLoading(false);
-        },
-        error: (err) => {
-          console.error("Error parsing CSV:", err);
-          setLoading(false);
-          alert("Error al leer el archivo.");
-        }
+  const handleConfirmMapping = (mapping: ColumnMapping, profileName: string | null) => {
+    if (!pendingImport) return;
+    if (profileName) {
+      const next = upsertProfile(mappingProfiles, profileName, headerSignature(pendingImport.input.headers), mapping);
+      setMappingProfiles(next);
+      saveProfiles(next);
+    }
+    addSource(buildSource({ ...pendingImport, mapping, profileName: profileName || pendingImport.profileName }));
+    setPendingImports(prev => prev.slice(1));
+  };
+
+  const removeSource = (id: string) => {
+    setSources(prev => prev.filter(s => s.id !== id));
+    if (reportSourceId === id) setReportSourceId(null);
+  };
+
+  // Une los archivos y resuelve los estudios repetidos según la política elegida
+  const merged = useMemo(() => mergeSources(sources, duplicatePolicy), [sources, duplicatePolicy]);
+  const duplicateCount = merged.duplicates.reduce((sum, g) => sum + g.copies.length - g.kept.length, 0);
+
+  // Reclasifica en memoria cada vez que cambian las reglas, sin recargar el archivo
+  const weigh = useMemo(() => compileWeights(weights), [weights]);
+  const resolveStatus = useMemo(() => compileStatuses(statuses), [statuses]);
+  const lookupSpecialist = useMemo(() => compileDirectory(directory), [directory]);
+  // En modo privacidad todo el tablero (búsqueda incluida) y los reportes trabajan con datos seudonimizados
+  const data = useMemo(() => {
+    const named = applyDirectory(merged.records, lookupSpecialist);
+    const weighted = applyWeights(named.map(r => classifyRecord(r, compiledRules)), weigh);
+    const withStatus = applyRegions(applyStatuses(weighted, resolveStatus));
+    return privacy.enabled ? withStatus.map(r => anonymizeRecord(r, privacy.salt)) : withStatus;
+  }, [merged, lookupSpecialist, compiledRules, weigh, resolveStatus, privacy]);
+  const maskId = (id: string) => (privacy.enabled ? pseudonymizeId(id, privacy.salt) : id);
+
+  // La lista de modalidades filtra durante la importación: se vuelven a importar los archivos cargados
+  const handleSaveModalities = (next: ModalityDefinition[]) => {
+    setModalities(next);
+    saveModalities(next);
+    setShowModalityEditor(false);
+    setSources(prev => prev.map(source => buildSource(source, next)));
+  };
+
+  const handleSaveWeights = (next: WeightTable) => {
+    setWeights(next);
+    saveWeights(next);
+    setShowWeightsEditor(false);
+  };
+
+  // Los filtros guardan el nombre canónico; uno que deja de existir tras unir fichas se limpia
+  const handleSaveDirectory = (next: SpecialistProfile[]) => {
+    setDirectory(next);
+    saveDirectory(next);
+    setShowDirectory(false);
+    const lookup = compileDirectory(next);
+    setFilters(prev => {
+      if (prev.specialist === 'All') return prev;
+      const profile = lookup(prev.specialist);
+      return profile && profile.name !== prev.specialist ? { ...prev, specialist: profile.name } : prev;
+    });
+  };
+
+  const handleSaveStatuses = (next: ReportStatusDefinition[]) => {
+    setStatuses(next);
+    saveStatuses(next);
+    setShowStatusEditor(false);
+  };
+
+  const sessionState = (): SessionState => ({
+    version: 1,
+    savedAt: Date.now(),
+    sources,
+    duplicatePolicy,
+    filters,
+    slaHours,
+    signature,
+    ingestOptions,
+    rules,
+    modalities,
+    compare,
+    weights,
+    privacy,
+    statuses,
+    specialists: directory,
+    pivot
+  });
+
+  const applySession = (state: SessionState) => {
+    setSources(state.sources);
+    setDuplicatePolicy(state.duplicatePolicy);
+    // Las sesiones anteriores a los filtros de modalidad y subcategoría no los traen
+    setFilters({ ...DEFAULT_FILTERS, ...state.filters });
+    setSlaHours(state.slaHours);
+    setCompare(state.compare ?? null);
+    if (state.privacy) setPrivacy(state.privacy);
+    if (state.pivot) setPivot(sanitizePivotConfig(state.pivot));
+    if (state.weights) {
+      setWeights(state.weights);
+      saveWeights(state.weights);
+    }
+    if (state.statuses) {
+      setStatuses(state.statuses);
+      saveStatuses(state.statuses);
+    }
+    if (state.specialists) {
+      setDirectory(state.specialists);
+      saveDirectory(state.specialists);
+    }
+    setSignature(state.signature);
+    setIngestOptions(state.ingestOptions);
+    setRules(state.rules);
+    saveRules(state.rules);
+    setModalities(state.modalities);
+    saveModalities(state.modalities);
+    setPendingImports([]);
+    setReportSourceId(null);
+  };
+
+  useEffect(() => {
+    loadSession()
+      .then(state => {
+        if (!state) return;
+        applySession(state);
+        setLastSavedAt(state.savedAt);
+      })
+      .catch(err => console.error('No se pudo restaurar la sesión:', err))
+      .finally(() => {
+        // Un enlace con filtros manda sobre los de la sesión restaurada
+        const fromUrl = filtersFromSearch(window.location.search);
+        if (fromUrl) setFilters(fromUrl);
+        setHydrated(true);
       });
+    listSnapshots()
+      .then(setSnapshots)
+      .catch(err => console.error('No se pudieron leer las sesiones guardadas:', err));
+  }, []);
+
+  useEffect(() => {
+    if (!hydrated) return;
+    const timer = setTimeout(() => {
+      const state = sessionState();
+      saveSession(state)
+        .then(() => setLastSavedAt(state.savedAt))
+        .catch(err => console.error('No se pudo guardar la sesión:', err));
+    }, SESSION_SAVE_DELAY);
+    return () => clearTimeout(timer);
+  }, [hydrated, sources, duplicatePolicy, filters, slaHours, signature, ingestOptions, rules, modalities, compare, weights, privacy, statuses, directory, pivot]);
+
+  // La URL refleja los filtros (sin datos de paciente) para poder guardar la vista como marcador
+  useEffect(() => {
+    if (!hydrated) return;
+    const { pathname, hash } = window.location;
+    window.history.replaceState(null, '', `${pathname}${filtersToSearch(filters, privacy.enabled)}${hash}`);
+  }, [hydrated, filters, privacy.enabled]);
+
+  // Un nombre repetido reemplaza al filtro guardado anterior
+  const handleSaveFilter = (name: string) => {
+    const entry: SavedFilter = { id: newSavedFilterId(), name, filters, createdAt: Date.now() };
+    const next = [...savedFilters.filter(f => f.name.toLowerCase() !== name.toLowerCase()), entry]
+      .sort((a, b) => a.name.localeCompare(b.name));
+    setSavedFilters(next);
+    saveSavedFilters(next);
+  };
+
+  const handleDeleteFilter = (id: string) => {
+    const next = savedFilters.filter(f => f.id !== id);
+    setSavedFilters(next);
+    saveSavedFilters(next);
+  };
+
+  const handleSaveSnapshot = (name: string) => {
+    saveSnapshot(name, sessionState())
+      .then(meta => setSnapshots(prev => [meta, ...prev]))
+      .catch((err: Error) => alert(`No se pudo guardar la sesión: ${err.message}`));
+  };
+
+  const handleOpenSnapshot = (id: string) => {
+    loadSnapshot(id)
+      .then(state => {
+        applySession(state);
+        setShowSnapshots(false);
+      })
+      .catch((err: Error) => alert(err.message));
+  };
+
+  const handleDeleteSnapshot = (id: string) => {
+    if (!confirm('¿Eliminar esta sesión guardada?')) return;
+    deleteSnapshot(id)
+      .then(() => setSnapshots(prev => prev.filter(s => s.id !== id)))
+      .catch((err: Error) => alert(err.message));
+  };
+
+  // Descarta archivos y filtros; las reglas y modalidades se conservan
+  const handleNewSession = () => {
+    if (sources.length > 0 && !confirm('¿Descartar los archivos cargados en la sesión actual?')) return;
+    setSources([]);
+    setFilters(DEFAULT_FILTERS);
+    setCompare(null);
+    // Nueva sal: los seudónimos de la sesión anterior no se pueden cruzar con los nuevos
+    setPrivacy(prev => ({ ...newPrivacySettings(), enabled: prev.enabled }));
+    setPendingImports([]);
+    setReportSourceId(null);
+    setShowSnapshots(false);
+    // Los archivos de la sesión anterior se borran del navegador ya, sin esperar al autoguardado
+    clearSession()
+      .then(() => setLastSavedAt(null))
+      .catch(err => console.error('No se pudo borrar la sesión:', err));
+  };
+
+  const handleSaveRules = (next: ClassificationRule[]) => {
+    setRules(next);
+    saveRules(next);
+    setShowRulesEditor(false);
+  };
+
+  // La descripción aceptada se agrega como entrada de lista justo después de la regla parecida
+  const handleAcceptNearMiss = (miss: NearMiss) => {
+    const rule: ClassificationRule = {
+      id: newRuleId(),
+      modality: miss.modality,
+      matchType: 'contains',
+      pattern: miss.description,
+      subcategory: miss.rule.subcategory
     };
-    reader.readAsText(file);
+    const at = rules.findIndex(r => r.id === miss.rule.id);
+    const next = at === -1 ? [...rules, rule] : [...rules.slice(0, at + 1), rule, ...rules.slice(at + 1)];
+    setRules(next);
+    saveRules(next);
   };
 
   const specialists = useMemo(() => {
@@ -120,51 +464,104 @@ export default function App() {
     return Array.from(set).filter(Boolean).sort();
   }, [data]);
 
+  const updateFilter = <K extends keyof DashboardFilters>(key: K, value: DashboardFilters[K]) => {
+    setFilters(prev => ({ ...prev, [key]: value }));
+  };
+
+  // Filtros aplicados desde las gráficas; en modo comparativo las fechas las definen los periodos
+  const applyFilterPatch = (patch: Partial<DashboardFilters>) => {
+    const { dateFrom, dateTo, ...rest } = patch;
+    setFilters(prev => ({ ...prev, ...(compare ? rest : patch) }));
+  };
+
+  const handleToggleCompare = (enabled: boolean) => {
+    setCompare(enabled ? defaultCompareConfig(data, filters.dateFrom, filters.dateTo) : null);
+  };
+
+  // En modo comparativo el tablero muestra el periodo actual con el resto de filtros
+  const baseFilters = useMemo(
+    () => (compare ? { ...filters, dateFrom: '', dateTo: '' } : filters),
+    [filters, compare]
+  );
+  const queryError = compileQuery(filters.searchTerm).error;
   const filteredData = useMemo(() => {
-    return data.filter(d => {
-      const matchSpec = filterSpecialist === 'All' || d.realizado_por === filterSpecialist;
-      const matchSearch = (d.nombre_paciente || '').toLowerCase().includes(searchTerm.toLowerCase()) || 
-                          (d.id_paciente || '').includes(searchTerm);
-      return matchSpec && matchSearch;
-    });
-  }, [data, filterSpecialist, searchTerm]);
+    const filtered = applyFilters(data, baseFilters);
+    return compare ? selectPeriod(filtered, compare.current) : filtered;
+  }, [data, baseFilters, compare]);
+  const previousData = useMemo(
+    () => (compare ? selectPeriod(applyFilters(data, baseFilters), compare.previous) : []),
+    [data, baseFilters, compare]
+  );
 
   // Cálculo del periodo analizado basado en la columna FECHA REALIZADO
-  const dateRange = useMemo(() => {
-    if (filteredData.length === 0) return { min: '', max: '' };
-    
-    // Asumimos formato que permite ordenación simple o intentamos parsear
-    // Filtramos fechas vacías primero
-    const validDates = filteredData
-      .map(d => d.fecha_realizado)
-      .filter(f => f && f.trim() !== '');
-
-    if (validDates.length === 0) return { min: 'N/A', max: 'N/A' };
-
-    // Para encontrar min/max de forma segura, convertimos a milisegundos si es posible
-    // o simplemente ordenamos si el formato es consistente YYYY-MM-DD o DD/MM/YYYY (aunque este último es más complejo de ordenar así)
-    // Intentaremos un ordenamiento robusto
-    const sorted = [...validDates].sort((a, b) => {
-      const parseDate = (s: string) => {
-        const parts = s.split(/[\/\-]/);
-        if (parts.length === 3) {
-          // Si parece DD/MM/YYYY
-          if (parts[0].length === 2 && parts[2].length === 4) return new Date(`${parts[2]}-${parts[1]}-${parts[0]}`).getTime();
-          // Si parece YYYY/MM/DD
-          return new Date(s).getTime();
-        }
-        return new Date(s).getTime();
-      };
-      return parseDate(a) - parseDate(b);
-    });
+  const dateRange = useMemo(() => getDateRange(filteredData), [filteredData]);
 
-    return { min: sorted[0], max: sorted[sorted.length - 1] };
-  }, [filteredData]);
+  // Subcategorías definidas por las reglas activas (STANDARD al final)
+  const subcategories = useMemo(() => getSubcategories(rules), [rules]);
 
-  const summary = useMemo(() => getSummaryBySpecialist(filteredData), [filteredData]);
+  const summary = useMemo(() => getSummaryBySpecialist(filteredData, subcategories, modalities), [filteredData, subcategories, modalities]);
   const totalStudies = filteredData.length;
-  const contrastCount = filteredData.filter(d => d.subcategory === 'CONTRASTADOS').length;
-  const specialCount = filteredData.filter(d => d.subcategory === 'ESPECIALES').length;
+  const weightedTotal = useMemo(() => filteredData.reduce((sum, d) => sum + d.weight, 0), [filteredData]);
+  const subcategoryCounts = useMemo(() => subcategories
+    .filter(sub => sub !== STANDARD_SUBCATEGORY)
+    .map(subcategory => ({ subcategory, count: filteredData.filter(d => d.subcategory === subcategory).length })),
+    [filteredData, subcategories]);
+  const comparison = useMemo(() => compare && comparePeriods(
+    filteredData,
+    previousData,
+    { current: periodLabel(compare.current, sources), previous: periodLabel(compare.previous, sources) },
+    subcategories,
+    modalities
+  ), [compare, filteredData, previousData, sources, subcategories, modalities]);
+  const comparisonBySpecialist = useMemo(
+    () => new Map((comparison?.bySpecialist || []).map(row => [row.specialist, row])),
+    [comparison]
+  );
+  // En modo comparativo la tabla sigue a bySpecialist, que incluye a quien bajó a cero estudios
+  const specialistRows = useMemo(() => {
+    if (!comparison) return summary;
+    const byName = new Map(summary.map(row => [row.specialist, row]));
+    return comparison.bySpecialist.map(d => byName.get(d.specialist)
+      || { specialist: d.specialist, totalStudies: 0, weightedScore: 0, modalities: {}, subcategories: {} });
+  }, [summary, comparison]);
+  const reportOptions = { slaHours, signature, rules, modalities, statuses, specialists: directory, comparison: comparison || undefined, anonymized: privacy.enabled };
+  // Los reportes usan los mismos registros del tablero: en modo comparativo, el periodo actual
+  const reportData = compare ? selectPeriod(data, compare.current) : data;
+  const reportSource = sources.find(s => s.id === reportSourceId);
+  const turnaround = useMemo(() => getTurnaroundSummary(filteredData, slaHours), [filteredData, slaHours]);
+  const regions = useMemo(() => regionOrder(data), [data]);
+  const statusColumns = useMemo(() => statusOrder(filteredData, statuses), [filteredData, statuses]);
+
+  // Detalle por especialista: misma clave que el cuadro de productividad
+  const ofSpecialist = (specialist: string) => (r: RadiologyRecord) => (r.realizado_por || 'SIN ASIGNAR').trim() === specialist;
+  const detailRecords = useMemo(
+    () => (detailSpecialist ? filteredData.filter(ofSpecialist(detailSpecialist)) : []),
+    [filteredData, detailSpecialist]
+  );
+
+  // Un fallo al generar un reporte se avisa en pantalla en lugar de perderse en la consola
+  const handleExportError = (err: Error) => {
+    console.error('No se pudo generar el reporte:', err);
+    alert(`No se pudo generar el reporte: ${err.message}`);
+  };
+
+  // Los errores síncronos y los de una promesa terminan en el mismo aviso
+  const runExport = (exporter: () => void | Promise<void>) => {
+    Promise.resolve().then(exporter).catch(handleExportError);
+  };
+
+  // Reporte individual: los filtros del tablero más el especialista, con su propio comparativo
+  const handleSpecialistExport = (specialist: string, format: ExportFormat) => {
+    const specialistComparison = compare && comparePeriods(
+      filteredData.filter(ofSpecialist(specialist)),
+      previousData.filter(ofSpecialist(specialist)),
+      { current: periodLabel(compare.current, sources), previous: periodLabel(compare.previous, sources) },
+      subcategories,
+      modalities
+    );
+    const exporter = { excel: exportToExcel, pdf: exportToPdf, word: exportToWord }[format];
+    runExport(() => exporter(reportData, { ...baseFilters, specialist }, { ...reportOptions, comparison: specialistComparison || undefined }));
+  };
 
   return (
     <div className="flex flex-col min-h-screen bg-[#fcfcfc]">
@@ -196,13 +593,44 @@ export default function App() {
                 </span>
               </a>
             </div>
-            <p className="text-[9px] text-slate-500 font-extrabold uppercase tracking-[0.4em] mt-1">Radiology Intelligence System</p>
+            <div className="flex items-center gap-3 mt-1">
+              <p className="text-[9px] text-slate-500 font-extrabold uppercase tracking-[0.4em]">Radiology Intelligence System</p>
+              {privacy.enabled && (
+                <span className="flex items-center gap-1 bg-[#ff4d63] text-white text-[9px] font-black uppercase tracking-widest px-2 py-0.5 rounded-lg" title="Nombres en iniciales, IDs seudonimizados y reportes sin columnas de paciente">
+                  <EyeOff size={10} /> Modo Privacidad
+                </span>
+              )}
+            </div>
           </div>
         </div>
         
         <div className="flex items-center gap-6">
+          <button
+            onClick={() => setPrivacy(prev => ({ ...prev, enabled: !prev.enabled }))}
+            title="Enmascara nombres e IDs de pacientes en pantalla y reportes"
+            className={`flex items-center gap-2 px-5 py-3.5 rounded-2xl text-xs font-black uppercase tracking-widest border transition-all ${privacy.enabled ? 'bg-[#ff4d63]/20 border-[#ff4d63]/40 text-[#ff4d63]' : 'bg-white/5 border-white/10 text-slate-400 hover:text-white'}`}
+          >
+            <EyeOff size={16} />
+            <span>{privacy.enabled ? 'Privacidad activa' : 'Privacidad'}</span>
+          </button>
+          <button 
+            onClick={() => runExport(() => exportToExcel(reportData, baseFilters, reportOptions))}
+            disabled={filteredData.length === 0}
+            className="group flex items-center gap-3 bg-white/5 text-white px-7 py-3.5 rounded-2xl text-xs font-black hover:bg-white/10 hover:scale-[1.02] active:scale-[0.98] transition-all disabled:opacity-30 disabled:grayscale uppercase tracking-widest border border-white/10"
+          >
+            <FileSpreadsheet size={16} className="text-[#02a58d] group-hover:-translate-y-1 transition-transform" />
+            <span>Exportar Excel</span>
+          </button>
           <button 
-            onClick={() => exportToWord(data, filterSpecialist, dateRange)}
+            onClick={() => runExport(() => exportToPdf(reportData, baseFilters, reportOptions))}
+            disabled={filteredData.length === 0}
+            className="group flex items-center gap-3 bg-white/5 text-white px-7 py-3.5 rounded-2xl text-xs font-black hover:bg-white/10 hover:scale-[1.02] active:scale-[0.98] transition-all disabled:opacity-30 disabled:grayscale uppercase tracking-widest border border-white/10"
+          >
+            <FileDown size={16} className="text-[#ff4d63] group-hover:-translate-y-1 transition-transform" />
+            <span>Exportar PDF</span>
+          </button>
+          <button 
+            onClick={() => runExport(() => exportToWord(reportData, baseFilters, reportOptions))}
             disabled={data.length === 0}
             className="group flex items-center gap-3 bg-gradient-to-r from-[#02a58d] to-[#018470] text-white px-7 py-3.5 rounded-2xl text-xs font-black hover:scale-[1.02] active:scale-[0.98] transition-all shadow-xl shadow-[#02a58d]/30 disabled:opacity-30 disabled:grayscale uppercase tracking-widest border border-white/10"
           >
@@ -224,15 +652,178 @@ export default function App() {
                 <FileUp size={16} />
                 Gestión de Datos
               </h3>
-              <label className="group flex flex-col items-center justify-center w-full h-44 border-2 border-dashed border-slate-600 rounded-3xl cursor-pointer bg-slate-800/20 hover:bg-slate-800/40 hover:border-[#02a58d] transition-all duration-300">
+              {/* Hasta restaurar la sesión no se aceptan archivos: applySession los reemplazaría */}
+              <label className={`group flex flex-col items-center justify-center w-full h-44 border-2 border-dashed border-slate-600 rounded-3xl bg-slate-800/20 transition-all duration-300 ${hydrated ? 'cursor-pointer hover:bg-slate-800/40 hover:border-[#02a58d]' : 'cursor-wait opacity-50'}`}>
                 <div className="flex flex-col items-center justify-center pt-5 pb-6">
                   <FileText className="w-10 h-10 mb-3 text-slate-500 group-hover:text-[#02a58d] group-hover:scale-110 transition-transform" />
-                  <p className="mb-2 text-xs font-bold text-slate-300 text-center px-4">Cargue su archivo plano</p>
-                  <p className="text-[9px] text-[#02a58d] font-mono font-bold uppercase tracking-widest mt-2">PIPE DELIMITED (|)</p>
-                  <p className="text-[8px] text-slate-400 font-bold uppercase mt-1 tracking-tighter italic">Solo CT, US, CR, MG</p>
+                  <p className="mb-2 text-xs font-bold text-slate-300 text-center px-4">{hydrated ? 'Cargue su archivo plano o Excel' : 'Restaurando sesión…'}</p>
+                  <p className="text-[9px] text-[#02a58d] font-mono font-bold uppercase tracking-widest mt-2">CSV · TXT · XLSX · XLS</p>
+                  <p className="text-[8px] text-slate-400 font-bold uppercase mt-1 tracking-tighter italic">Solo {includedModalities(modalities).join(', ')}</p>
                 </div>
-                <input type="file" className="hidden" accept=".csv,.txt" onChange={handleFileUpload} />
+                <input type="file" className="hidden" multiple accept={ACCEPTED_EXTENSIONS} onChange={handleFileUpload} disabled={!hydrated} />
               </label>
+              {/* Formato de archivos de texto; Excel se lee siempre por hoja */}
+              <div className="mt-4 grid grid-cols-2 gap-2">
+                <label className="space-y-1">
+                  <span className="text-[9px] font-black text-slate-400 uppercase tracking-widest">Delimitador</span>
+                  <select
+                    value={ingestOptions.delimiter}
+                    onChange={(e) => setIngestOptions(prev => ({ ...prev, delimiter: e.target.value as IngestOptions['delimiter'] }))}
+                    className="w-full bg-slate-800/40 border border-slate-700 rounded-xl px-2 py-2 text-[10px] font-bold text-slate-200 focus:border-[#02a58d]"
+                  >
+                    {DELIMITER_OPTIONS.map(o => <option key={o.label} value={o.value}>{o.label}</option>)}
+                  </select>
+                </label>
+                <label className="space-y-1">
+                  <span className="text-[9px] font-black text-slate-400 uppercase tracking-widest">Codificación</span>
+                  <select
+                    value={ingestOptions.encoding}
+                    onChange={(e) => setIngestOptions(prev => ({ ...prev, encoding: e.target.value as IngestOptions['encoding'] }))}
+                    className="w-full bg-slate-800/40 border border-slate-700 rounded-xl px-2 py-2 text-[10px] font-bold text-slate-200 focus:border-[#02a58d]"
+                  >
+                    {ENCODING_OPTIONS.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+                  </select>
+                </label>
+              </div>
+              <button
+                onClick={() => setShowRulesEditor(true)}
+                className="mt-4 w-full flex items-center justify-between gap-2 px-4 py-3 rounded-2xl bg-slate-800/40 border border-slate-700 hover:border-[#02a58d] transition-all"
+              >
+                <span className="flex items-center gap-2 text-[10px] font-black uppercase tracking-widest text-slate-300">
+                  <ListChecks size={14} className="text-[#02a58d]" />
+                  Reglas de Clasificación
+                </span>
+                <span className="bg-slate-700 text-white text-[10px] px-2 py-0.5 rounded-lg font-black">{rules.length}</span>
+              </button>
+              <button
+                onClick={() => setShowModalityEditor(true)}
+                className="mt-2 w-full flex items-center justify-between gap-2 px-4 py-3 rounded-2xl bg-slate-800/40 border border-slate-700 hover:border-[#02a58d] transition-all"
+              >
+                <span className="flex items-center gap-2 text-[10px] font-black uppercase tracking-widest text-slate-300">
+                  <Layers size={14} className="text-[#02a58d]" />
+                  Modalidades
+                </span>
+                <span className="bg-slate-700 text-white text-[10px] px-2 py-0.5 rounded-lg font-black">{includedModalities(modalities).length}</span>
+              </button>
+              <button
+                onClick={() => setShowWeightsEditor(true)}
+                className="mt-2 w-full flex items-center justify-between gap-2 px-4 py-3 rounded-2xl bg-slate-800/40 border border-slate-700 hover:border-[#02a58d] transition-all"
+              >
+                <span className="flex items-center gap-2 text-[10px] font-black uppercase tracking-widest text-slate-300">
+                  <Scale size={14} className="text-[#02a58d]" />
+                  Pesos (RVU)
+                </span>
+                <span className="bg-slate-700 text-white text-[10px] px-2 py-0.5 rounded-lg font-black">{weights.rules.length}</span>
+              </button>
+              <button
+                onClick={() => setShowDirectory(true)}
+                className="mt-2 w-full flex items-center justify-between gap-2 px-4 py-3 rounded-2xl bg-slate-800/40 border border-slate-700 hover:border-[#02a58d] transition-all"
+              >
+                <span className="flex items-center gap-2 text-[10px] font-black uppercase tracking-widest text-slate-300">
+                  <Users size={14} className="text-[#02a58d]" />
+                  Especialistas
+                </span>
+                <span className="bg-slate-700 text-white text-[10px] px-2 py-0.5 rounded-lg font-black">{directory.length}</span>
+              </button>
+              <button
+                onClick={() => setShowStatusEditor(true)}
+                className="mt-2 w-full flex items-center justify-between gap-2 px-4 py-3 rounded-2xl bg-slate-800/40 border border-slate-700 hover:border-[#02a58d] transition-all"
+              >
+                <span className="flex items-center gap-2 text-[10px] font-black uppercase tracking-widest text-slate-300">
+                  <ClipboardList size={14} className="text-[#02a58d]" />
+                  Estados de Reporte
+                </span>
+                <span className="bg-slate-700 text-white text-[10px] px-2 py-0.5 rounded-lg font-black">{statuses.length}</span>
+              </button>
+              <button
+                onClick={() => setShowSnapshots(true)}
+                title="Las sesiones guardadas contienen los datos de pacientes sin enmascarar"
+                className="mt-2 w-full flex items-center justify-between gap-2 px-4 py-3 rounded-2xl bg-slate-800/40 border border-slate-700 hover:border-[#02a58d] transition-all"
+              >
+                <span className="flex items-center gap-2 text-[10px] font-black uppercase tracking-widest text-slate-300">
+                  <HardDrive size={14} className="text-[#02a58d]" />
+                  Sesiones
+                </span>
+                <span className="text-[9px] font-bold text-slate-400 uppercase tracking-widest">
+                  {lastSavedAt ? `Guardado ${new Date(lastSavedAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}` : 'Sin guardar'}
+                </span>
+              </button>
+              {data.length > 0 && (
+                <button
+                  onClick={() => setShowReview(true)}
+                  className="mt-2 w-full flex items-center gap-2 px-4 py-3 rounded-2xl bg-slate-800/40 border border-slate-700 hover:border-[#02a58d] transition-all text-[10px] font-black uppercase tracking-widest text-slate-300"
+                >
+                  <SearchCheck size={14} className="text-[#02a58d]" />
+                  Revisar Clasificación
+                </button>
+              )}
+              {sources.length > 0 && (
+                <div className="mt-6 space-y-2">
+                  <p className="text-[9px] font-black text-slate-400 uppercase tracking-widest">Archivos cargados ({sources.length})</p>
+                  {sources.map(source => (
+                    <div key={source.id} className="p-3 bg-slate-800/40 border border-slate-700 rounded-2xl space-y-2">
+                      <div className="flex items-center justify-between gap-2">
+                        <span className="text-[10px] font-black text-slate-200 truncate" title={source.fileName}>{source.fileName}</span>
+                        <button onClick={() => removeSource(source.id)} title="Quitar archivo" className="p-1 rounded-lg text-slate-500 hover:text-[#ff4d63] hover:bg-[#ff4d63]/10">
+                          <Trash2 size={12} />
+                        </button>
+                      </div>
+                      <p className="text-[9px] font-bold text-slate-400 uppercase tracking-widest">
+                        {describeFormat(source.input.format)} · {source.records.length} de {source.report.rowsRead}
+                      </p>
+                      <div className="flex flex-wrap gap-2">
+                        <button
+                          onClick={() => setPendingImports(prev => [source, ...prev])}
+                          className="flex items-center gap-1 px-2 py-1 rounded-lg border border-slate-700 text-[9px] font-black uppercase tracking-widest text-slate-300 hover:border-[#02a58d]"
+                        >
+                          <Columns3 size={11} className="text-[#02a58d]" /> {source.profileName || 'Estándar'}
+                        </button>
+                        {source.report.rejected.length > 0 && (
+                          <button
+                            onClick={() => setReportSourceId(source.id)}
+                            className="flex items-center gap-1 px-2 py-1 rounded-lg bg-[#ff4d63]/10 border border-[#ff4d63]/20 text-[9px] font-black uppercase tracking-widest text-[#ff4d63] hover:border-[#ff4d63]"
+                          >
+                            <AlertTriangle size={11} /> {source.report.rejected.length} descartadas
+                          </button>
+                        )}
+                      </div>
+                    </div>
+                  ))}
+
+                  <div className="p-3 bg-slate-800/40 border border-slate-700 rounded-2xl space-y-2">
+                    <div className="flex items-center justify-between">
+                      <span className="flex items-center gap-2 text-[9px] font-black uppercase tracking-widest text-slate-400">
+                        <Copy size={12} /> Duplicados
+                      </span>
+                      <span className={`text-[10px] px-2 py-0.5 rounded-lg font-black ${duplicateCount > 0 ? 'bg-[#ff4d63] text-white' : 'bg-slate-700 text-white'}`}>
+                        {merged.duplicates.length}
+                      </span>
+                    </div>
+                    <select
+                      value={duplicatePolicy}
+                      onChange={(e) => setDuplicatePolicy(e.target.value as DuplicatePolicy)}
+                      className="w-full bg-slate-800/40 border border-slate-700 rounded-xl px-2 py-2 text-[10px] font-bold text-slate-200 focus:border-[#02a58d]"
+                    >
+                      {DUPLICATE_POLICIES.map(p => <option key={p.value} value={p.value}>{p.label}</option>)}
+                    </select>
+                    {merged.duplicates.length > 0 && (
+                      <details>
+                        <summary className="text-[9px] font-black uppercase tracking-widest text-slate-400 cursor-pointer list-none">
+                          {duplicateCount} copias descartadas · ver estudios
+                        </summary>
+                        <ul className="mt-2 max-h-40 overflow-y-auto space-y-1">
+                          {merged.duplicates.slice(0, 100).map(group => (
+                            <li key={group.key} className="text-[10px] font-mono text-slate-300">
+                              {maskId(group.copies[0].id_paciente)} · {group.copies[0].descripcion} · ×{group.copies.length}
+                              <span className="text-slate-500"> ({Array.from(new Set(group.copies.map(r => sourceName(sources, r.source)))).join(', ')})</span>
+                            </li>
+                          ))}
+                        </ul>
+                      </details>
+                    )}
+                  </div>
+                </div>
+              )}
               {data.length > 0 && (
                 <div className="mt-6 space-y-3">
                   <div className="p-4 bg-[#02a58d]/10 border border-[#02a58d]/20 rounded-2xl flex items-center justify-between">
@@ -263,6 +854,7 @@ export default function App() {
                       </div>
                     </div>
                   )}
+
                 </div>
               )}
             </div>
@@ -276,29 +868,121 @@ export default function App() {
                 <div>
                   <label className="block text-[10px] font-black text-slate-400 mb-3 uppercase tracking-widest">Especialista</label>
                   <select 
-                    value={filterSpecialist}
-                    onChange={(e) => setFilterSpecialist(e.target.value)}
+                    value={filters.specialist}
+                    onChange={(e) => updateFilter('specialist', e.target.value)}
                     className="w-full bg-slate-50 border-2 border-slate-100 rounded-2xl px-4 py-4 text-sm font-bold text-[#252525] focus:ring-4 focus:ring-[#02a58d]/10 focus:border-[#02a58d] transition-all appearance-none cursor-pointer shadow-sm"
                   >
                     <option value="All">Todos los Especialistas</option>
                     {specialists.map(s => <option key={s} value={s}>{s}</option>)}
                   </select>
                 </div>
+                <div className="grid grid-cols-2 gap-3">
+                  <div>
+                    <label className="block text-[10px] font-black text-slate-400 mb-3 uppercase tracking-widest">Modalidad</label>
+                    <select
+                      value={filters.modality}
+                      onChange={(e) => updateFilter('modality', e.target.value)}
+                      className="w-full bg-slate-50 border-2 border-slate-100 rounded-2xl px-4 py-4 text-sm font-bold text-[#252525] focus:ring-4 focus:ring-[#02a58d]/10 focus:border-[#02a58d] transition-all appearance-none cursor-pointer shadow-sm"
+                    >
+                      <option value="All">Todas</option>
+                      {includedModalities(modalities).map(code => <option key={code} value={code}>{code}</option>)}
+                    </select>
+                  </div>
+                  <div>
+                    <label className="block text-[10px] font-black text-slate-400 mb-3 uppercase tracking-widest">Subcategoría</label>
+                    <select
+                      value={filters.subcategory}
+                      onChange={(e) => updateFilter('subcategory', e.target.value)}
+                      className="w-full bg-slate-50 border-2 border-slate-100 rounded-2xl px-4 py-4 text-sm font-bold text-[#252525] focus:ring-4 focus:ring-[#02a58d]/10 focus:border-[#02a58d] transition-all appearance-none cursor-pointer shadow-sm"
+                    >
+                      <option value="All">Todas</option>
+                      {subcategories.map(sub => <option key={sub} value={sub}>{sub}</option>)}
+                    </select>
+                  </div>
+                </div>
+                <div>
+                  <label className="block text-[10px] font-black text-slate-400 mb-3 uppercase tracking-widest">Región</label>
+                  <select
+                    value={filters.region}
+                    onChange={(e) => updateFilter('region', e.target.value)}
+                    className="w-full bg-slate-50 border-2 border-slate-100 rounded-2xl px-4 py-4 text-sm font-bold text-[#252525] focus:ring-4 focus:ring-[#02a58d]/10 focus:border-[#02a58d] transition-all appearance-none cursor-pointer shadow-sm"
+                  >
+                    <option value="All">Todas las regiones</option>
+                    {regions.map(region => <option key={region} value={region}>{region}</option>)}
+                  </select>
+                </div>
                 <div>
-                  <label className="block text-[10px] font-black text-slate-400 mb-3 uppercase tracking-widest">Búsqueda Rápida</label>
+                  <label className="block text-[10px] font-black text-slate-400 mb-3 uppercase tracking-widest">Rango de Fechas</label>
+                  <div className="grid grid-cols-2 gap-3">
+                    <input 
+                      type="date"
+                      value={filters.dateFrom}
+                      max={filters.dateTo || undefined}
+                      onChange={(e) => updateFilter('dateFrom', e.target.value)}
+                      disabled={compare !== null}
+                      className="w-full bg-slate-50 border-2 border-slate-100 rounded-2xl px-3 py-3 text-xs font-bold text-[#252525] focus:ring-4 focus:ring-[#02a58d]/10 focus:border-[#02a58d] transition-all shadow-sm disabled:opacity-40"
+                    />
+                    <input 
+                      type="date"
+                      value={filters.dateTo}
+                      min={filters.dateFrom || undefined}
+                      onChange={(e) => updateFilter('dateTo', e.target.value)}
+                      disabled={compare !== null}
+                      className="w-full bg-slate-50 border-2 border-slate-100 rounded-2xl px-3 py-3 text-xs font-bold text-[#252525] focus:ring-4 focus:ring-[#02a58d]/10 focus:border-[#02a58d] transition-all shadow-sm disabled:opacity-40"
+                    />
+                  </div>
+                </div>
+                <div>
+                  <div className="flex items-center justify-between mb-3">
+                    <label className="block text-[10px] font-black text-slate-400 uppercase tracking-widest">Búsqueda</label>
+                    <button
+                      onClick={() => setShowQueryHelp(prev => !prev)}
+                      title="Sintaxis de búsqueda"
+                      className={`p-1 rounded-lg transition-all ${showQueryHelp ? 'text-[#02a58d]' : 'text-slate-400 hover:text-[#252525]'}`}
+                    >
+                      <HelpCircle size={14} />
+                    </button>
+                  </div>
                   <div className="relative">
                     <input 
                       type="text" 
-                      placeholder="Nombre o ID..."
-                      value={searchTerm}
-                      onChange={(e) => setSearchTerm(e.target.value)}
-                      className="w-full bg-slate-50 border-2 border-slate-100 rounded-2xl pl-12 pr-4 py-4 text-sm font-bold text-[#252525] focus:ring-4 focus:ring-[#02a58d]/10 focus:border-[#02a58d] transition-all shadow-sm"
+                      placeholder={privacy.enabled ? 'Iniciales, ID seudónimo o mod:CT...' : 'Nombre, ID o mod:CT desc:"abdomen"...'}
+                      value={filters.searchTerm}
+                      onChange={(e) => updateFilter('searchTerm', e.target.value)}
+                      className={`w-full bg-slate-50 border-2 rounded-2xl pl-12 pr-4 py-4 text-sm font-bold text-[#252525] focus:ring-4 focus:ring-[#02a58d]/10 transition-all shadow-sm ${queryError ? 'border-[#ff4d63]/40 focus:border-[#ff4d63]' : 'border-slate-100 focus:border-[#02a58d]'}`}
                     />
                     <Search className="absolute left-4 top-[18px] text-slate-400" size={18} />
                   </div>
+                  {queryError && (
+                    <p className="mt-2 text-[10px] font-black text-[#ff4d63] uppercase tracking-widest">{queryError} · no se muestran estudios</p>
+                  )}
+                  {showQueryHelp && (
+                    <div className="mt-3 p-4 rounded-2xl bg-slate-50 border border-slate-100 space-y-2">
+                      {QUERY_HELP.map(h => (
+                        <button
+                          key={h.syntax}
+                          onClick={() => updateFilter('searchTerm', `${filters.searchTerm} ${h.syntax}`.trim())}
+                          className="w-full text-left group"
+                        >
+                          <code className="text-[11px] font-black text-[#252525] group-hover:text-[#02a58d]">{h.syntax}</code>
+                          <p className="text-[9px] font-bold text-slate-400 uppercase tracking-widest">{h.label}</p>
+                        </button>
+                      ))}
+                    </div>
+                  )}
+                </div>
+                <div>
+                  <label className="block text-[10px] font-black text-slate-400 mb-3 uppercase tracking-widest">Vistas Guardadas</label>
+                  <SavedFilters
+                    saved={savedFilters}
+                    current={filters}
+                    onApply={saved => applyFilterPatch(saved.filters)}
+                    onSave={handleSaveFilter}
+                    onDelete={handleDeleteFilter}
+                  />
                 </div>
                 <button 
-                  onClick={() => {setFilterSpecialist('All'); setSearchTerm('');}}
+                  onClick={() => setFilters(DEFAULT_FILTERS)}
                   className="w-full text-xs font-black text-[#ff4d63] hover:bg-[#ff4d63]/5 flex items-center justify-center gap-2 py-4 border-2 border-[#ff4d63]/20 rounded-2xl transition-all"
                 >
                   <RefreshCw size={14} />
@@ -306,6 +990,37 @@ export default function App() {
                 </button>
               </div>
             </div>
+
+            <CompareControls
+              compare={compare}
+              sources={sources}
+              onToggle={handleToggleCompare}
+              onChange={setCompare}
+            />
+
+            <div className="bg-white p-7 rounded-[2.5rem] border border-slate-200 shadow-xl shadow-slate-200/50">
+              <h3 className="text-xs font-black text-[#252525] uppercase tracking-[0.2em] mb-6 flex items-center gap-2 border-b border-slate-100 pb-4">
+                <PenLine size={16} className="text-[#02a58d]" />
+                Firma del Reporte
+              </h3>
+              <div className="space-y-4">
+                <input 
+                  type="text"
+                  placeholder="Nombre del jefe (opcional)"
+                  value={signature.name}
+                  onChange={(e) => setSignature(prev => ({ ...prev, name: e.target.value }))}
+                  className="w-full bg-slate-50 border-2 border-slate-100 rounded-2xl px-4 py-3 text-sm font-bold text-[#252525] focus:ring-4 focus:ring-[#02a58d]/10 focus:border-[#02a58d] transition-all shadow-sm"
+                />
+                <input 
+                  type="text"
+                  placeholder="Cargo"
+                  value={signature.title}
+                  onChange={(e) => setSignature(prev => ({ ...prev, title: e.target.value }))}
+                  className="w-full bg-slate-50 border-2 border-slate-100 rounded-2xl px-4 py-3 text-sm font-bold text-[#252525] focus:ring-4 focus:ring-[#02a58d]/10 focus:border-[#02a58d] transition-all shadow-sm"
+                />
+                <p className="text-[9px] text-slate-400 font-bold uppercase tracking-widest">Se agrega al final de los reportes Word y PDF si hay nombre</p>
+              </div>
+            </div>
           </aside>
 
           <div className="lg:col-span-9 space-y-10">
@@ -316,35 +1031,65 @@ export default function App() {
                 </div>
                 <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Estudios Procesados</p>
                 <div className="flex items-center justify-between mt-4 relative z-10">
-                  <h4 className="text-5xl font-black">{totalStudies.toLocaleString()}</h4>
+                  <div>
+                    <h4 className="text-5xl font-black">{totalStudies.toLocaleString()}</h4>
+                    <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest mt-2">
+                      <span className="text-[#02a58d]">{formatScore(weightedTotal)}</span> RVU ponderado
+                    </p>
+                    {comparison && (
+                      <div className="mt-3"><DeltaBadge delta={comparison.total} size="md" /></div>
+                    )}
+                  </div>
                   <div className="p-4 bg-[#02a58d]/20 text-[#02a58d] rounded-2xl border border-[#02a58d]/20">
                     <Activity size={28} />
                   </div>
                 </div>
               </div>
               
-              <div className="bg-white p-8 rounded-[2.5rem] shadow-xl border-l-[12px] border-[#ff4d63] flex flex-col justify-between group hover:translate-y-[-4px] transition-transform">
-                <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Estudios Contrastados</p>
-                <div className="flex items-end justify-between mt-4">
-                  <h4 className="text-5xl font-black text-[#252525]">{contrastCount.toLocaleString()}</h4>
-                  <div className="text-right">
-                    <span className="text-xs font-black text-[#ff4d63] bg-[#ff4d63]/10 px-3 py-1 rounded-full border border-[#ff4d63]/10">SUBCAT</span>
-                    <p className="text-sm font-black text-slate-400 mt-2">{totalStudies > 0 ? ((contrastCount / totalStudies) * 100).toFixed(1) : 0}% participación</p>
+              {subcategoryCounts.map(({ subcategory, count }) => {
+                const isContrast = subcategory === 'CONTRASTADOS';
+                const color = isContrast ? '#ff4d63' : '#02a58d';
+                return (
+                  <div key={subcategory} className={`bg-white p-8 rounded-[2.5rem] shadow-xl border-l-[12px] ${isContrast ? 'border-[#ff4d63]' : 'border-[#02a58d]'} flex flex-col justify-between group hover:translate-y-[-4px] transition-transform`}>
+                    <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">{KPI_TITLES[subcategory] || subcategory}</p>
+                    <div className="flex items-end justify-between mt-4">
+                      <h4 className="text-5xl font-black text-[#252525]">{count.toLocaleString()}</h4>
+                      <div className="text-right">
+                        <span className="text-xs font-black px-3 py-1 rounded-full border" style={{ color, backgroundColor: `${color}1a`, borderColor: `${color}1a` }}>SUBCAT</span>
+                        <p className="text-sm font-black text-slate-400 mt-2">{totalStudies > 0 ? ((count / totalStudies) * 100).toFixed(1) : 0}% participación</p>
+                        {comparison && (
+                          <div className="mt-2"><DeltaBadge delta={comparison.subcategories[subcategory]} size="md" /></div>
+                        )}
+                      </div>
+                    </div>
                   </div>
-                </div>
-              </div>
+                );
+              })}
+            </div>
 
-              <div className="bg-white p-8 rounded-[2.5rem] shadow-xl border-l-[12px] border-[#02a58d] flex flex-col justify-between group hover:translate-y-[-4px] transition-transform">
-                <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Procedimientos Especiales</p>
-                <div className="flex items-end justify-between mt-4">
-                  <h4 className="text-5xl font-black text-[#252525]">{specialCount.toLocaleString()}</h4>
-                  <div className="text-right">
-                    <span className="text-xs font-black text-[#02a58d] bg-[#02a58d]/10 px-3 py-1 rounded-full border border-[#02a58d]/10">ESPECIAL</span>
-                    <p className="text-sm font-black text-slate-400 mt-2">Análisis de Modalidad</p>
+            {comparison && Object.keys(comparison.modalities).length > 0 && (
+              <div className="bg-white px-8 py-6 rounded-[2.5rem] border border-slate-200 shadow-xl flex flex-wrap items-center gap-3">
+                <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest mr-2">Variación por modalidad</p>
+                {Object.keys(comparison.modalities).map(mod => (
+                  <div key={mod} title={modalityName(mod, modalities)} className="flex items-center gap-2 bg-slate-50 px-4 py-2 rounded-2xl border border-slate-100">
+                    <span className="text-xs font-black text-[#252525]">{mod}</span>
+                    <span className="text-sm font-black text-[#252525]">{comparison.modalities[mod].current.toLocaleString()}</span>
+                    <DeltaBadge delta={comparison.modalities[mod]} size="md" />
                   </div>
-                </div>
+                ))}
               </div>
-            </div>
+            )}
+
+            {data.length > 0 && (
+              <ChartsPanel
+                data={filteredData}
+                summary={summary}
+                subcategories={subcategories}
+                modalities={modalities}
+                filters={filters}
+                onFilter={applyFilterPatch}
+              />
+            )}
 
             <div className="bg-white rounded-[3rem] border border-slate-200 shadow-2xl overflow-hidden">
               <div className="px-10 py-8 border-b border-slate-100 flex items-center justify-between bg-slate-50/30">
@@ -365,7 +1110,7 @@ export default function App() {
                     </tr>
                   </thead>
                   <tbody className="divide-y divide-slate-100">
-                    {summary.length === 0 ? (
+                    {specialistRows.length === 0 ? (
                       <tr>
                         <td colSpan={4} className="px-10 py-24 text-center">
                           <div className="flex flex-col items-center opacity-20">
@@ -375,58 +1120,216 @@ export default function App() {
                         </td>
                       </tr>
                     ) : (
-                      summary.map((row) => (
-                        <tr key={row.specialist} className="hover:bg-[#02a58d]/5 transition-all group">
-                          <td className="px-10 py-8">
-                            <div className="flex items-center gap-5">
-                              <div className="h-12 w-12 rounded-2xl bg-[#02a58d] text-white flex items-center justify-center text-sm font-black shadow-xl shadow-[#02a58d]/20 group-hover:rotate-6 transition-transform">
-                                {row.specialist.split(' ').filter(n => n.length > 2).map(n => n[0]).join('').substring(0, 2).toUpperCase()}
-                              </div>
-                              <div>
-                                <span className="text-base font-black text-[#252525] tracking-tight block">{row.specialist}</span>
-                                <span className="text-[10px] text-[#02a58d] font-bold uppercase tracking-widest">Radiólogo Adscrito</span>
-                              </div>
-                            </div>
-                          </td>
-                          <td className="px-6 py-8 text-center">
-                            <span className="text-xl font-black text-[#252525] bg-slate-100 px-5 py-2 rounded-2xl shadow-sm border border-slate-200">{row.totalStudies}</span>
-                          </td>
-                          <td className="px-10 py-8">
-                            <div className="flex flex-wrap gap-2 max-w-[300px]">
-                              {Object.entries(row.modalities).map(([mod, count]) => (
-                                <div key={mod} className="flex items-center gap-1.5 bg-slate-100 px-3 py-1.5 rounded-xl border border-slate-200">
-                                  <span className="text-[11px] font-black text-[#252525]">{mod}</span>
-                                  <span className="text-[10px] font-black bg-[#02a58d] text-white px-2 py-0.5 rounded-lg">{count}</span>
+                      specialistRows.map((row) => {
+                        const rowDelta = comparisonBySpecialist.get(row.specialist);
+                        const profile = lookupSpecialist(row.specialist);
+                        return (
+                          <tr
+                            key={row.specialist}
+                            onClick={() => setDetailSpecialist(row.specialist)}
+                            title="Ver el detalle de estudios"
+                            className="hover:bg-[#02a58d]/5 transition-all group cursor-pointer"
+                          >
+                            <td className="px-10 py-8">
+                              <div className="flex items-center gap-5">
+                                <div className="h-12 w-12 rounded-2xl bg-[#02a58d] text-white flex items-center justify-center text-sm font-black shadow-xl shadow-[#02a58d]/20 group-hover:rotate-6 transition-transform">
+                                  {specialistInitials(row.specialist) || '?'}
+                                </div>
+                                <div>
+                                  <span className="text-base font-black text-[#252525] tracking-tight block">{row.specialist}</span>
+                                  <span className="text-[10px] text-[#02a58d] font-bold uppercase tracking-widest flex items-center gap-1">
+                                    {profile
+                                      ? [roleLabel(profile.role) || 'Rol sin definir', profile.license && `Céd. ${profile.license}`].filter(Boolean).join(' · ')
+                                      : 'Sin ficha en directorio'}
+                                    <ChevronRight size={12} className="opacity-0 group-hover:opacity-100 transition-opacity" />
+                                  </span>
                                 </div>
-                              ))}
-                            </div>
-                          </td>
-                          <td className="px-10 py-8">
-                            <div className="space-y-2">
-                              {Object.entries(row.subcategories).map(([sub, count]) => {
-                                if (count === 0) return null;
-                                return (
-                                  <div key={sub} className="flex items-center justify-between gap-4 border-b border-slate-50 pb-1">
-                                    <span className={`text-[10px] font-black uppercase tracking-widest ${sub !== 'STANDARD' ? 'text-[#ff4d63]' : 'text-slate-400'}`}>
-                                      {sub}
-                                    </span>
-                                    <span className="text-xs font-black text-[#252525]">{count}</span>
+                              </div>
+                            </td>
+                            <td className="px-6 py-8 text-center">
+                              <span className="text-xl font-black text-[#252525] bg-slate-100 px-5 py-2 rounded-2xl shadow-sm border border-slate-200">{row.totalStudies}</span>
+                              <p className="text-[10px] font-black text-[#02a58d] uppercase tracking-widest mt-3" title="Puntaje ponderado por pesos RVU">
+                                {formatScore(row.weightedScore)} RVU
+                              </p>
+                              {rowDelta && (
+                                <div className="mt-2"><DeltaBadge delta={rowDelta.total} /></div>
+                              )}
+                            </td>
+                            <td className="px-10 py-8">
+                              <div className="flex flex-wrap gap-2 max-w-[300px]">
+                                {Object.keys(rowDelta ? rowDelta.modalities : row.modalities).map(mod => (
+                                  <div key={mod} title={modalityName(mod, modalities)} className="flex items-center gap-1.5 bg-slate-100 px-3 py-1.5 rounded-xl border border-slate-200">
+                                    <span className="text-[11px] font-black text-[#252525]">{mod}</span>
+                                    <span className="text-[10px] font-black bg-[#02a58d] text-white px-2 py-0.5 rounded-lg">{row.modalities[mod] || 0}</span>
+                                    {rowDelta && <DeltaBadge delta={rowDelta.modalities[mod]} />}
                                   </div>
-                                );
-                              })}
-                            </div>
-                          </td>
-                        </tr>
-                      ))
+                                ))}
+                              </div>
+                            </td>
+                            <td className="px-10 py-8">
+                              <div className="space-y-2">
+                                {Object.keys(rowDelta ? rowDelta.subcategories : row.subcategories).map(sub => {
+                                  const count = row.subcategories[sub] || 0;
+                                  if (count === 0 && !rowDelta?.subcategories[sub]?.previous) return null;
+                                  return (
+                                    <div key={sub} className="flex items-center justify-between gap-4 border-b border-slate-50 pb-1">
+                                      <span className={`text-[10px] font-black uppercase tracking-widest ${sub !== STANDARD_SUBCATEGORY ? 'text-[#ff4d63]' : 'text-slate-400'}`}>
+                                        {sub}
+                                      </span>
+                                      <span className="flex items-center gap-2">
+                                        {rowDelta && <DeltaBadge delta={rowDelta.subcategories[sub]} />}
+                                        <span className="text-xs font-black text-[#252525]">{count}</span>
+                                      </span>
+                                    </div>
+                                  );
+                                })}
+                              </div>
+                            </td>
+                          </tr>
+                        );
+                      })
                     )}
                   </tbody>
                 </table>
               </div>
             </div>
+
+            {data.length > 0 && (
+              <TurnaroundPanel summary={turnaround} onSlaChange={setSlaHours} />
+            )}
+
+            {data.length > 0 && (
+              <RegionPanel
+                data={filteredData}
+                modalities={modalities}
+                activeRegion={filters.region}
+                onSelectRegion={region => updateFilter('region', region)}
+              />
+            )}
+
+            {data.length > 0 && (
+              <StatusPanel
+                data={filteredData}
+                order={statusColumns}
+                unmapped={getUnmappedStatuses(filteredData, statuses)}
+                onExportPending={() => runExport(() => exportPendingWork(reportData, baseFilters, reportOptions))}
+              />
+            )}
+
+            {data.length > 0 && (
+              <PivotExplorer
+                data={filteredData}
+                config={pivot}
+                filters={baseFilters}
+                anonymized={privacy.enabled}
+                onChange={setPivot}
+                onExportExcel={() => runExport(() => exportPivot(reportData, baseFilters, pivot, reportOptions))}
+              />
+            )}
           </div>
         </div>
       </main>
 
+      {detailSpecialist && (
+        <SpecialistDetail
+          specialist={detailSpecialist}
+          records={detailRecords}
+          delta={comparisonBySpecialist.get(detailSpecialist)}
+          profile={lookupSpecialist(detailSpecialist)}
+          subcategories={subcategories}
+          modalities={modalities}
+          slaHours={slaHours}
+          onExport={format => handleSpecialistExport(detailSpecialist, format)}
+          onClose={() => setDetailSpecialist(null)}
+        />
+      )}
+
+      {showSnapshots && (
+        <SnapshotManager
+          snapshots={snapshots}
+          canSave={sources.length > 0}
+          onSave={handleSaveSnapshot}
+          onOpen={handleOpenSnapshot}
+          onDelete={handleDeleteSnapshot}
+          onNewSession={handleNewSession}
+          onClose={() => setShowSnapshots(false)}
+        />
+      )}
+
+      {showRulesEditor && (
+        <RulesEditor rules={rules} onSave={handleSaveRules} onClose={() => setShowRulesEditor(false)} />
+      )}
+
+      {/* La clave reinicia el asistente entre archivos en cola */}
+      {pendingImport && (
+        <React.Fragment key={pendingImport.id}>
+          <ColumnMappingWizard
+            fileName={pendingImport.fileName}
+            headers={pendingImport.input.headers}
+            rows={pendingImport.input.rows}
+            initialMapping={pendingImport.mapping}
+            initialProfileName={pendingImport.profileName}
+            profiles={mappingProfiles}
+            anonymized={privacy.enabled}
+            maskId={maskId}
+            onConfirm={handleConfirmMapping}
+            onCancel={() => setPendingImports(prev => prev.slice(1))}
+          />
+        </React.Fragment>
+      )}
+
+      {reportSource && (
+        <ImportSummary
+          report={reportSource.report}
+          headers={privacy.enabled
+            ? privacySafeHeaders(reportSource.input.headers, reportSource.mapping)
+            : reportSource.input.headers}
+          maskId={privacy.enabled ? maskId : undefined}
+          onClose={() => setReportSourceId(null)}
+        />
+      )}
+
+      {showDirectory && (
+        <SpecialistDirectory
+          profiles={directory}
+          data={data}
+          onSave={handleSaveDirectory}
+          onClose={() => setShowDirectory(false)}
+        />
+      )}
+
+      {showStatusEditor && (
+        <StatusEditor
+          statuses={statuses}
+          unmapped={getUnmappedStatuses(data, statuses)}
+          onSave={handleSaveStatuses}
+          onClose={() => setShowStatusEditor(false)}
+        />
+      )}
+
+      {showWeightsEditor && (
+        <WeightsEditor
+          weights={weights}
+          modalityCodes={modalities.map(m => m.code)}
+          subcategories={subcategories}
+          onSave={handleSaveWeights}
+          onClose={() => setShowWeightsEditor(false)}
+        />
+      )}
+
+      {showModalityEditor && (
+        <ModalityEditor modalities={modalities} onSave={handleSaveModalities} onClose={() => setShowModalityEditor(false)} />
+      )}
+
+      {showReview && (
+        <ClassificationReview
+          data={filteredData}
+          rules={rules}
+          onAcceptNearMiss={handleAcceptNearMiss}
+          onClose={() => setShowReview(false)}
+        />
+      )}
+
       <footer className="mt-auto py-12 px-8 bg-[#252525] text-white border-t border-slate-800">
         <div className="max-w-[1600px] mx-auto flex flex-col md:flex-row items-center justify-between gap-10">
           <div className="flex items-center gap-6">
@@ -0,0 +1,186 @@
+import React, { useMemo, useState } from 'react';
+import {
+  BarChart, Bar, LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, PieChart, Pie, Cell, Legend,
+  MouseHandlerDataParam
+} from 'recharts';
+import { BarChart3, MousePointerClick } from 'lucide-react';
+import { RadiologyRecord, SummaryBySpecialist, ModalityDefinition, DashboardFilters, VolumeBucket, VolumePoint } from '../types';
+import { getModalityStats } from '../utils/dataProcessor';
+import { getVolumeSeries, CHART_COLORS, CONTRAST_SUBCATEGORY } from '../utils/charts';
+import { modalityName } from '../utils/modalityConfig';
+import { STANDARD_SUBCATEGORY } from '../utils/classificationRules';
+
+interface ChartsPanelProps {
+  data: RadiologyRecord[];
+  summary: SummaryBySpecialist[];
+  subcategories: string[];
+  modalities: ModalityDefinition[];
+  filters: DashboardFilters;
+  onFilter: (patch: Partial<DashboardFilters>) => void;
+}
+
+// Más especialistas no caben legibles en la gráfica apilada
+const MAX_SPECIALISTS = 15;
+
+const BUCKETS: { key: VolumeBucket; label: string }[] = [
+  { key: 'day', label: 'Diario' },
+  { key: 'week', label: 'Semanal' }
+];
+
+const tooltipStyle = { borderRadius: 16, border: '1px solid #e2e8f0', fontSize: 12, fontWeight: 700 };
+const axisTick = { fontSize: 10, fontWeight: 700, fill: '#94a3b8' };
+
+const subcategoryColor = (sub: string, index: number) =>
+  sub === STANDARD_SUBCATEGORY ? '#cbd5e1' : sub === CONTRAST_SUBCATEGORY ? '#ff4d63' : CHART_COLORS[index % CHART_COLORS.length];
+
+function ChartCard({ title, hint, children, actions }: { title: string; hint: string; children: React.ReactNode; actions?: React.ReactNode }) {
+  return (
+    <div className="bg-white rounded-[2.5rem] border border-slate-200 shadow-xl p-8">
+      <div className="flex items-start justify-between gap-4 mb-6">
+        <div>
+          <h4 className="text-sm font-black text-[#252525] uppercase tracking-wider">{title}</h4>
+          <p className="text-[9px] font-bold text-slate-400 uppercase tracking-widest flex items-center gap-1 mt-1">
+            <MousePointerClick size={10} /> {hint}
+          </p>
+        </div>
+        {actions}
+      </div>
+      <div className="h-72">{children}</div>
+    </div>
+  );
+}
+
+export default function ChartsPanel({ data, summary, subcategories, modalities, filters, onFilter }: ChartsPanelProps) {
+  const [bucket, setBucket] = useState<VolumeBucket>('day');
+
+  const modalityStats = useMemo(() => getModalityStats(data, modalities), [data, modalities]);
+  const series = useMemo(() => getVolumeSeries(data, bucket), [data, bucket]);
+  const specialistRows = useMemo(() => summary.slice(0, MAX_SPECIALISTS).map(row => ({
+    name: row.specialist,
+    ...row.subcategories
+  })), [summary]);
+  const hasContrast = subcategories.includes(CONTRAST_SUBCATEGORY);
+
+  // Un segundo clic sobre el mismo segmento quita el filtro
+  const toggleModality = (code: string) =>
+    onFilter({ modality: filters.modality === code ? 'All' : code });
+
+  const toggleSpecialist = (specialist: string, subcategory: string) => {
+    const active = filters.specialist === specialist && filters.subcategory === subcategory;
+    onFilter(active ? { specialist: 'All', subcategory: 'All' } : { specialist, subcategory });
+  };
+
+  const selectPeriod = (state: MouseHandlerDataParam | null, extra: Partial<DashboardFilters> = {}) => {
+    const point: VolumePoint | undefined = state ? series[Number(state.activeTooltipIndex)] : undefined;
+    if (!point) return;
+    const active = filters.dateFrom === point.from && filters.dateTo === point.to;
+    onFilter(active ? { dateFrom: '', dateTo: '' } : { dateFrom: point.from, dateTo: point.to, ...extra });
+  };
+
+  const bucketToggle = (
+    <div className="flex bg-slate-100 rounded-2xl p-1">
+      {BUCKETS.map(b => (
+        <button
+          key={b.key}
+          onClick={() => setBucket(b.key)}
+          className={`px-3 py-1.5 rounded-xl text-[9px] font-black uppercase tracking-widest transition-all ${bucket === b.key ? 'bg-[#252525] text-white shadow' : 'text-slate-400 hover:text-[#252525]'}`}
+        >
+          {b.label}
+        </button>
+      ))}
+    </div>
+  );
+
+  return (
+    <div className="space-y-8">
+      <div className="flex items-center gap-4">
+        <div className="w-2 h-8 bg-[#02a58d] rounded-full"></div>
+        <h3 className="text-lg font-black text-[#252525] uppercase tracking-wider">Gráficas</h3>
+        <BarChart3 size={22} className="text-[#02a58d]" />
+      </div>
+
+      <div className="grid grid-cols-1 xl:grid-cols-2 gap-8">
+        <ChartCard title="Distribución por Modalidad" hint="Clic en una modalidad para filtrar">
+          <ResponsiveContainer width="100%" height="100%">
+            <PieChart>
+              <Pie
+                data={modalityStats}
+                dataKey="value"
+                nameKey="name"
+                innerRadius="45%"
+                outerRadius="80%"
+                paddingAngle={2}
+                onClick={(entry: { name?: string }) => entry.name && toggleModality(entry.name)}
+                className="cursor-pointer"
+              >
+                {modalityStats.map((point, index) => (
+                  <Cell
+                    key={point.name}
+                    fill={CHART_COLORS[index % CHART_COLORS.length]}
+                    opacity={filters.modality === 'All' || filters.modality === point.name ? 1 : 0.3}
+                  />
+                ))}
+              </Pie>
+              <Tooltip contentStyle={tooltipStyle} formatter={(value: number, name: string) => [value, modalityName(name, modalities)]} />
+              <Legend wrapperStyle={{ fontSize: 11, fontWeight: 800 }} />
+            </PieChart>
+          </ResponsiveContainer>
+        </ChartCard>
+
+        <ChartCard title="Estudios por Especialista" hint="Clic en un segmento para filtrar especialista y subcategoría">
+          <ResponsiveContainer width="100%" height="100%">
+            <BarChart data={specialistRows} layout="vertical" margin={{ left: 16 }}>
+              <CartesianGrid strokeDasharray="3 3" horizontal={false} stroke="#f1f5f9" />
+              <XAxis type="number" tick={axisTick} allowDecimals={false} />
+              <YAxis type="category" dataKey="name" width={140} tick={axisTick} />
+              <Tooltip contentStyle={tooltipStyle} cursor={{ fill: '#02a58d0d' }} />
+              <Legend wrapperStyle={{ fontSize: 11, fontWeight: 800 }} />
+              {subcategories.map((sub, index) => (
+                <Bar
+                  key={sub}
+                  dataKey={sub}
+                  stackId="subcategories"
+                  fill={subcategoryColor(sub, index)}
+                  onClick={(entry: { payload?: { name: string } }) => entry.payload && toggleSpecialist(entry.payload.name, sub)}
+                  className="cursor-pointer"
+                />
+              ))}
+            </BarChart>
+          </ResponsiveContainer>
+        </ChartCard>
+
+        <ChartCard title="Volumen de Estudios" hint="Clic en un periodo para filtrar sus fechas" actions={bucketToggle}>
+          <ResponsiveContainer width="100%" height="100%">
+            <BarChart data={series} onClick={(state: MouseHandlerDataParam | null) => selectPeriod(state)} className="cursor-pointer">
+              <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f1f5f9" />
+              <XAxis dataKey="name" tick={axisTick} minTickGap={12} />
+              <YAxis tick={axisTick} allowDecimals={false} />
+              <Tooltip contentStyle={tooltipStyle} cursor={{ fill: '#02a58d0d' }} />
+              <Bar dataKey="total" name="Estudios" fill="#02a58d" radius={[6, 6, 0, 0]} />
+            </BarChart>
+          </ResponsiveContainer>
+        </ChartCard>
+
+        <ChartCard title="Participación de Contraste" hint={hasContrast ? 'Clic en un periodo para ver sus contrastados' : 'Las reglas activas no definen CONTRASTADOS'} actions={bucketToggle}>
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart
+              data={series}
+              onClick={(state: MouseHandlerDataParam | null) => hasContrast && selectPeriod(state, { subcategory: CONTRAST_SUBCATEGORY })}
+              className="cursor-pointer"
+            >
+              <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f1f5f9" />
+              <XAxis dataKey="name" tick={axisTick} minTickGap={12} />
+              <YAxis tick={axisTick} unit="%" domain={[0, 100]} />
+              <Tooltip
+                contentStyle={tooltipStyle}
+                formatter={(value: number, _name: string, item: { payload?: VolumePoint }) =>
+                  [`${value}% (${item.payload?.contrast ?? 0} de ${item.payload?.total ?? 0})`, 'Contrastados']}
+              />
+              <Line type="monotone" dataKey="contrastShare" stroke="#ff4d63" strokeWidth={3} dot={{ r: 3 }} activeDot={{ r: 6 }} />
+            </LineChart>
+          </ResponsiveContainer>
+        </ChartCard>
+      </div>
+    </div>
+  );
+}
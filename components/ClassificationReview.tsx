@@ -0,0 +1,178 @@
+import React, { useMemo, useState } from 'react';
+import { X, Search, Plus, Check } from 'lucide-react';
+import { RadiologyRecord, ClassificationRule, NearMiss } from '../types';
+import { describeTrace, subcategoryTag } from '../utils/classificationRules';
+import { findNearMisses } from '../utils/nearMiss';
+
+interface ClassificationReviewProps {
+  data: RadiologyRecord[];
+  rules: ClassificationRule[];
+  onAcceptNearMiss: (nearMiss: NearMiss) => void;
+  onClose: () => void;
+}
+
+type Tab = 'trace' | 'nearMiss';
+
+const inputClass = "w-full bg-slate-50 border-2 border-slate-100 rounded-xl px-3 py-2 text-xs font-bold text-[#252525] focus:border-[#02a58d] transition-all";
+
+// Una fila por descripción + modalidad + regla aplicada
+interface TraceGroup {
+  key: string;
+  description: string;
+  modality: string;
+  subcategory: string;
+  trace: string;
+  override: boolean;
+  count: number;
+}
+
+export default function ClassificationReview({ data, rules, onAcceptNearMiss, onClose }: ClassificationReviewProps) {
+  const [tab, setTab] = useState<Tab>('trace');
+  const [query, setQuery] = useState('');
+  const [accepted, setAccepted] = useState<Set<string>>(new Set());
+
+  const traces = useMemo(() => {
+    const groups = new Map<string, TraceGroup>();
+    data.forEach(d => {
+      const trace = describeTrace(d.classification);
+      const key = `${d.modalidad}|${d.descripcion}|${d.classification?.ruleId ?? ''}`;
+      const group = groups.get(key);
+      if (group) group.count++;
+      else groups.set(key, {
+        key,
+        description: d.descripcion || 'N/A',
+        modality: d.modalidad || 'N/A',
+        subcategory: d.subcategory,
+        trace,
+        override: !!d.classification?.keywordOverride,
+        count: 1
+      });
+    });
+    return Array.from(groups.values()).sort((a, b) => b.count - a.count);
+  }, [data]);
+
+  // Solo se calcula con la pestaña abierta: la comparación difusa recorre todas las entradas de lista
+  const nearMisses = useMemo(() => (tab === 'nearMiss' ? findNearMisses(data, rules) : []), [tab, data, rules]);
+
+  const q = query.toUpperCase();
+  const visibleTraces = traces.filter(t => !q || t.description.toUpperCase().includes(q) || t.trace.toUpperCase().includes(q));
+  const visibleMisses = nearMisses.filter(m => !q || m.description.toUpperCase().includes(q) || m.rule.pattern.toUpperCase().includes(q));
+
+  const accept = (miss: NearMiss) => {
+    onAcceptNearMiss(miss);
+    setAccepted(prev => new Set(prev).add(`${miss.modality}|${miss.description}`));
+  };
+
+  const tabClass = (value: Tab) =>
+    `px-4 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest transition-all ${tab === value ? 'bg-[#252525] text-white' : 'text-slate-400 hover:text-[#252525]'}`;
+
+  return (
+    <div className="fixed inset-0 z-[100] bg-[#252525]/70 backdrop-blur-sm flex items-center justify-center p-8">
+      <div className="bg-white rounded-[2.5rem] shadow-2xl w-full max-w-6xl max-h-full flex flex-col overflow-hidden">
+        <div className="px-10 py-6 border-b border-slate-100 flex items-center justify-between bg-slate-50/30">
+          <div className="flex items-center gap-4">
+            <div className="w-2 h-8 bg-[#02a58d] rounded-full"></div>
+            <div>
+              <h3 className="text-lg font-black text-[#252525] uppercase tracking-wider">Revisión de Clasificación</h3>
+              <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">Regla aplicada a cada estudio · descripciones parecidas a una entrada sin coincidir</p>
+            </div>
+          </div>
+          <button onClick={onClose} className="p-2 rounded-xl hover:bg-slate-100 text-slate-400 hover:text-[#252525] transition-all">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="px-10 py-4 border-b border-slate-100 flex flex-wrap items-center gap-3">
+          <button onClick={() => setTab('trace')} className={tabClass('trace')}>Trazabilidad ({traces.length})</button>
+          <button onClick={() => setTab('nearMiss')} className={tabClass('nearMiss')}>Casi coincidencias{tab === 'nearMiss' && ` (${nearMisses.length})`}</button>
+          <div className="relative flex-1 min-w-[200px]">
+            <input
+              type="text"
+              placeholder="Buscar descripción o regla..."
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              className={`${inputClass} pl-9`}
+            />
+            <Search className="absolute left-3 top-[10px] text-slate-400" size={14} />
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto">
+          {tab === 'trace' ? (
+            <table className="w-full text-left border-collapse">
+              <thead className="bg-[#252525] text-[10px] font-black text-slate-300 uppercase tracking-[0.2em] sticky top-0">
+                <tr>
+                  <th className="px-6 py-4">Descripción</th>
+                  <th className="px-3 py-4 w-40">Modalidad</th>
+                  <th className="px-3 py-4">Regla aplicada</th>
+                  <th className="px-6 py-4 w-20 text-center">Estudios</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100">
+                {visibleTraces.map(t => (
+                  <tr key={t.key} className="hover:bg-[#02a58d]/5">
+                    <td className="px-6 py-3 text-xs font-bold text-[#252525]">{t.description}</td>
+                    <td className={`px-3 py-3 text-xs font-black ${t.subcategory === 'CONTRASTADOS' ? 'text-[#ff4d63]' : 'text-slate-500'}`}>
+                      {t.modality}{subcategoryTag(t.subcategory)}
+                    </td>
+                    <td className="px-3 py-3 text-[11px] font-bold text-slate-500">
+                      {t.trace}
+                      {t.override && <span className="ml-2 text-[9px] font-black uppercase tracking-widest text-[#ff4d63] bg-[#ff4d63]/10 px-2 py-0.5 rounded-lg">Override</span>}
+                    </td>
+                    <td className="px-6 py-3 text-center text-xs font-black text-[#252525]">{t.count}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          ) : (
+            <table className="w-full text-left border-collapse">
+              <thead className="bg-[#252525] text-[10px] font-black text-slate-300 uppercase tracking-[0.2em] sticky top-0">
+                <tr>
+                  <th className="px-6 py-4">Descripción sin clasificar</th>
+                  <th className="px-3 py-4">Entrada más parecida</th>
+                  <th className="px-3 py-4 w-24 text-center">Similitud</th>
+                  <th className="px-3 py-4 w-20 text-center">Estudios</th>
+                  <th className="px-6 py-4 w-40"></th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100">
+                {visibleMisses.map(m => {
+                  const key = `${m.modality}|${m.description}`;
+                  const done = accepted.has(key);
+                  return (
+                    <tr key={key} className="hover:bg-[#02a58d]/5">
+                      <td className="px-6 py-3 text-xs font-bold text-[#252525]">
+                        <span className="text-[10px] font-black text-slate-400 mr-2">{m.modality}</span>{m.description}
+                      </td>
+                      <td className="px-3 py-3 text-[11px] font-bold text-slate-500">
+                        {m.rule.pattern} <span className="text-[#02a58d] font-black">→ {m.rule.subcategory}</span>
+                      </td>
+                      <td className="px-3 py-3 text-center text-xs font-black text-[#252525]">{Math.round(m.score * 100)}%</td>
+                      <td className="px-3 py-3 text-center text-xs font-black text-[#252525]">{m.count}</td>
+                      <td className="px-6 py-3 text-right">
+                        <button
+                          onClick={() => accept(m)}
+                          disabled={done}
+                          className="inline-flex items-center gap-1 px-3 py-1.5 rounded-xl border-2 border-slate-100 text-[10px] font-black uppercase tracking-widest text-[#252525] hover:border-[#02a58d] disabled:opacity-40"
+                        >
+                          {done ? <><Check size={12} /> Agregada</> : <><Plus size={12} /> Agregar regla</>}
+                        </button>
+                      </td>
+                    </tr>
+                  );
+                })}
+                {visibleMisses.length === 0 && (
+                  <tr>
+                    <td colSpan={5} className="px-6 py-12 text-center text-xs font-bold text-slate-400 uppercase tracking-widest">
+                      Sin descripciones parecidas a las listas de reglas
+                    </td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,188 @@
+import React, { useState } from 'react';
+import { X, Save, Columns3 } from 'lucide-react';
+import { ColumnMapping, MappableField, MappingProfile } from '../types';
+import { MAPPABLE_FIELDS, missingRequired } from '../utils/columnMapping';
+import { maskName } from '../utils/privacy';
+
+interface ColumnMappingWizardProps {
+  fileName: string;
+  headers: string[];
+  rows: Record<string, string>[];
+  initialMapping: ColumnMapping;
+  initialProfileName: string;
+  profiles: MappingProfile[];
+  anonymized?: boolean;              // Modo privacidad: ejemplos de paciente enmascarados
+  maskId?: (id: string) => string;
+  onConfirm: (mapping: ColumnMapping, profileName: string | null) => void;
+  onCancel: () => void;
+}
+
+const inputClass = "w-full bg-slate-50 border-2 border-slate-100 rounded-xl px-3 py-2 text-xs font-bold text-[#252525] focus:border-[#02a58d] transition-all";
+
+const SAMPLE_SIZE = 3;
+
+export default function ColumnMappingWizard({
+  fileName,
+  headers,
+  rows,
+  initialMapping,
+  initialProfileName,
+  profiles,
+  anonymized,
+  maskId,
+  onConfirm,
+  onCancel
+}: ColumnMappingWizardProps) {
+  const [mapping, setMapping] = useState<ColumnMapping>(initialMapping);
+  const [profileName, setProfileName] = useState(initialProfileName);
+  const [saveProfile, setSaveProfile] = useState(true);
+
+  const missing = missingRequired(mapping, headers);
+  const assigned = new Set(Object.values(mapping));
+  const unassigned = headers.filter(h => !assigned.has(h));
+
+  // Columnas asignadas (o detectadas) como datos del paciente; en modo privacidad sus ejemplos se enmascaran
+  const nameHeaders = new Set([mapping.nombre_paciente, initialMapping.nombre_paciente].filter(Boolean));
+  const idHeaders = new Set([mapping.id_paciente, initialMapping.id_paciente].filter(Boolean));
+  const mask = (header: string, value: string) => {
+    if (!anonymized) return value;
+    if (nameHeaders.has(header)) return maskName(value);
+    if (idHeaders.has(header)) return maskId ? maskId(value) : '';
+    return value;
+  };
+
+  // Primeros valores no vacíos de la columna, para reconocerla sin abrir el archivo
+  const samples = (header?: string) => {
+    const values: string[] = [];
+    if (!header) return values;
+    for (const row of rows) {
+      const value = mask(header, (row[header] || '').trim());
+      if (value) values.push(value);
+      if (values.length === SAMPLE_SIZE) break;
+    }
+    return values;
+  };
+
+  const setField = (field: MappableField, header: string) => {
+    setMapping(prev => ({ ...prev, [field]: header || undefined }));
+  };
+
+  const loadProfile = (id: string) => {
+    const profile = profiles.find(p => p.id === id);
+    if (!profile) return;
+    // Solo se toman los encabezados que existen en este archivo
+    const next: ColumnMapping = {};
+    MAPPABLE_FIELDS.forEach(({ key }) => {
+      const header = profile.mapping[key];
+      if (header && headers.includes(header)) next[key] = header;
+    });
+    setMapping(next);
+    setProfileName(profile.name);
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] bg-[#252525]/70 backdrop-blur-sm flex items-center justify-center p-8">
+      <div className="bg-white rounded-[2.5rem] shadow-2xl w-full max-w-5xl max-h-full flex flex-col overflow-hidden">
+        <div className="px-10 py-6 border-b border-slate-100 flex items-center justify-between bg-slate-50/30">
+          <div className="flex items-center gap-4">
+            <div className="w-2 h-8 bg-[#02a58d] rounded-full"></div>
+            <div>
+              <h3 className="text-lg font-black text-[#252525] uppercase tracking-wider">Asignación de Columnas</h3>
+              <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">{fileName} · {headers.length} columnas · {rows.length} filas</p>
+            </div>
+          </div>
+          <button onClick={onCancel} className="p-2 rounded-xl hover:bg-slate-100 text-slate-400 hover:text-[#252525] transition-all">
+            <X size={20} />
+          </button>
+        </div>
+
+        {profiles.length > 0 && (
+          <div className="px-10 py-4 border-b border-slate-100 flex items-center gap-3">
+            <span className="text-[10px] font-black uppercase tracking-widest text-slate-400 whitespace-nowrap">Partir de un perfil</span>
+            <select defaultValue="" onChange={(e) => loadProfile(e.target.value)} className={`${inputClass} max-w-xs`}>
+              <option value="" disabled>Seleccione...</option>
+              {profiles.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+            </select>
+          </div>
+        )}
+
+        <div className="flex-1 overflow-y-auto">
+          <table className="w-full text-left border-collapse">
+            <thead className="bg-[#252525] text-[10px] font-black text-slate-300 uppercase tracking-[0.2em] sticky top-0">
+              <tr>
+                <th className="px-6 py-4 w-52">Campo</th>
+                <th className="px-3 py-4 w-64">Columna del archivo</th>
+                <th className="px-6 py-4">Valores de ejemplo</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {MAPPABLE_FIELDS.map(field => {
+                const header = mapping[field.key];
+                const isMissing = field.required && !header;
+                return (
+                  <tr key={field.key} className={isMissing ? 'bg-[#ff4d63]/5' : 'hover:bg-[#02a58d]/5'}>
+                    <td className="px-6 py-3 text-xs font-black text-[#252525]">
+                      {field.label}
+                      {field.required && <span className="text-[#ff4d63]"> *</span>}
+                    </td>
+                    <td className="px-3 py-3">
+                      <select value={header || ''} onChange={(e) => setField(field.key, e.target.value)} className={inputClass}>
+                        <option value="">— Sin asignar —</option>
+                        {headers.map(h => <option key={h} value={h}>{h}</option>)}
+                      </select>
+                    </td>
+                    <td className="px-6 py-3 text-[11px] font-bold text-slate-500">
+                      {samples(header).join(' · ') || <span className="text-slate-300">—</span>}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+          {unassigned.length > 0 && (
+            <p className="px-10 py-4 text-[10px] font-bold text-slate-400 uppercase tracking-widest">
+              Columnas sin usar: <span className="text-slate-500 normal-case tracking-normal">{unassigned.join(', ')}</span>
+            </p>
+          )}
+        </div>
+
+        <div className="px-10 py-5 border-t border-slate-100 flex flex-wrap items-center justify-between gap-4 bg-slate-50/30">
+          <div className="flex items-center gap-3">
+            <input
+              id="save-mapping-profile"
+              type="checkbox"
+              checked={saveProfile}
+              onChange={(e) => setSaveProfile(e.target.checked)}
+              className="accent-[#02a58d]"
+            />
+            <label htmlFor="save-mapping-profile" className="text-[10px] font-black uppercase tracking-widest text-slate-400">Guardar como perfil</label>
+            <input
+              value={profileName}
+              onChange={(e) => setProfileName(e.target.value)}
+              disabled={!saveProfile}
+              placeholder="Ej. RIS Sede Norte"
+              className={`${inputClass} w-56 disabled:opacity-40`}
+            />
+          </div>
+          <div className="flex items-center gap-3">
+            {missing.length > 0 && (
+              <span className="text-[10px] font-black uppercase tracking-widest text-[#ff4d63]">
+                Falta: {missing.map(f => f.label).join(', ')}
+              </span>
+            )}
+            <button onClick={onCancel} className="px-6 py-3 rounded-2xl text-xs font-black uppercase tracking-widest text-slate-400 hover:text-[#252525]">
+              Cancelar
+            </button>
+            <button
+              onClick={() => onConfirm(mapping, saveProfile && profileName.trim() ? profileName.trim() : null)}
+              disabled={missing.length > 0}
+              className="flex items-center gap-2 bg-gradient-to-r from-[#02a58d] to-[#018470] text-white px-6 py-3 rounded-2xl text-xs font-black uppercase tracking-widest disabled:opacity-30"
+            >
+              {saveProfile && profileName.trim() ? <Save size={14} /> : <Columns3 size={14} />} Importar
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,86 @@
+import React from 'react';
+import { GitCompare } from 'lucide-react';
+import { CompareConfig, ComparePeriod, DataSource } from '../types';
+import { COMPARE_PRESETS, presetPeriod } from '../utils/comparison';
+
+interface CompareControlsProps {
+  compare: CompareConfig | null;
+  sources: DataSource[];
+  onToggle: (enabled: boolean) => void;
+  onChange: (config: CompareConfig) => void;
+}
+
+const inputClass = "w-full bg-slate-50 border-2 border-slate-100 rounded-xl px-3 py-2 text-xs font-bold text-[#252525] focus:border-[#02a58d] transition-all";
+
+function PeriodEditor({ title, period, sources, onChange }: { title: string; period: ComparePeriod; sources: DataSource[]; onChange: (period: ComparePeriod) => void }) {
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between gap-2">
+        <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest">{title}</label>
+        <select
+          value={period.kind}
+          onChange={(e) => onChange(e.target.value === 'source'
+            ? { kind: 'source', sourceId: sources[0]?.id || '' }
+            : { kind: 'dates', from: '', to: '' })}
+          className="bg-transparent text-[10px] font-black uppercase tracking-widest text-[#02a58d] cursor-pointer"
+        >
+          <option value="dates">Por fechas</option>
+          <option value="source" disabled={sources.length === 0}>Por archivo</option>
+        </select>
+      </div>
+      {period.kind === 'dates' ? (
+        <div className="grid grid-cols-2 gap-2">
+          <input type="date" value={period.from} max={period.to || undefined} onChange={(e) => onChange({ ...period, from: e.target.value })} className={inputClass} />
+          <input type="date" value={period.to} min={period.from || undefined} onChange={(e) => onChange({ ...period, to: e.target.value })} className={inputClass} />
+        </div>
+      ) : (
+        <select value={period.sourceId} onChange={(e) => onChange({ ...period, sourceId: e.target.value })} className={inputClass}>
+          {sources.map(s => <option key={s.id} value={s.id}>{s.fileName}</option>)}
+        </select>
+      )}
+    </div>
+  );
+}
+
+export default function CompareControls({ compare, sources, onToggle, onChange }: CompareControlsProps) {
+  return (
+    <div className="bg-white p-7 rounded-[2.5rem] border border-slate-200 shadow-xl shadow-slate-200/50">
+      <h3 className="text-xs font-black text-[#252525] uppercase tracking-[0.2em] mb-6 flex items-center justify-between gap-2 border-b border-slate-100 pb-4">
+        <span className="flex items-center gap-2">
+          <GitCompare size={16} className="text-[#02a58d]" />
+          Comparar Periodos
+        </span>
+        <input
+          type="checkbox"
+          checked={compare !== null}
+          onChange={(e) => onToggle(e.target.checked)}
+          className="accent-[#02a58d] w-4 h-4 cursor-pointer"
+        />
+      </h3>
+      {compare ? (
+        <div className="space-y-5">
+          <PeriodEditor title="Periodo actual" period={compare.current} sources={sources} onChange={current => onChange({ ...compare, current })} />
+          <PeriodEditor title="Referencia" period={compare.previous} sources={sources} onChange={previous => onChange({ ...compare, previous })} />
+          <div className="flex flex-wrap gap-2">
+            {COMPARE_PRESETS.map(preset => {
+              const period = presetPeriod(compare.current, preset.value);
+              return (
+                <button
+                  key={preset.value}
+                  onClick={() => period && onChange({ ...compare, previous: period })}
+                  disabled={!period}
+                  className="px-3 py-1.5 rounded-xl border-2 border-slate-100 text-[9px] font-black uppercase tracking-widest text-slate-500 hover:border-[#02a58d] hover:text-[#02a58d] disabled:opacity-30"
+                >
+                  {preset.label}
+                </button>
+              );
+            })}
+          </div>
+          <p className="text-[9px] text-slate-400 font-bold uppercase tracking-widest">Reemplaza el rango de fechas de los filtros; el resto de filtros se aplica a ambos periodos</p>
+        </div>
+      ) : (
+        <p className="text-[9px] text-slate-400 font-bold uppercase tracking-widest">Muestra variaciones absolutas y porcentuales frente a otro periodo o archivo</p>
+      )}
+    </div>
+  );
+}
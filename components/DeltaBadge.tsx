@@ -0,0 +1,23 @@
+import React from 'react';
+import { Delta } from '../types';
+import { formatDelta } from '../utils/comparison';
+
+interface DeltaBadgeProps {
+  delta: Delta | undefined;
+  size?: 'sm' | 'md';
+}
+
+// Variación frente al periodo de referencia: verde si sube, rojo si baja
+export default function DeltaBadge({ delta, size = 'sm' }: DeltaBadgeProps) {
+  if (!delta) return null;
+  const color = delta.diff > 0 ? '#02a58d' : delta.diff < 0 ? '#ff4d63' : '#94a3b8';
+  return (
+    <span
+      title={`Referencia: ${delta.previous}`}
+      className={`${size === 'md' ? 'text-xs px-3 py-1' : 'text-[9px] px-1.5 py-0.5'} font-black rounded-lg whitespace-nowrap`}
+      style={{ color, backgroundColor: `${color}1a` }}
+    >
+      {formatDelta(delta)}
+    </span>
+  );
+}
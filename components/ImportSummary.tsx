@@ -0,0 +1,127 @@
+import React, { useState } from 'react';
+import { X, Download } from 'lucide-react';
+import { ImportReport, RejectReason } from '../types';
+import { REJECT_REASONS, rejectReasonLabel, rejectedRowsToCsv } from '../utils/importQuality';
+import { downloadBlob } from '../utils/download';
+
+interface ImportSummaryProps {
+  report: ImportReport;
+  headers: string[];
+  maskId?: (id: string) => string;   // Modo privacidad: muestra el ID seudónimo
+  onClose: () => void;
+}
+
+// Límite de filas en pantalla; la descarga incluye todas
+const VISIBLE_ROWS = 200;
+
+export default function ImportSummary({ report, headers, maskId, onClose }: ImportSummaryProps) {
+  const [reason, setReason] = useState<RejectReason | null>(null);
+
+  const rows = reason ? report.rejected.filter(r => r.reasons.includes(reason)) : report.rejected;
+
+  const handleDownload = () => {
+    // BOM para que Excel respete los acentos
+    const csv = '\ufeff' + rejectedRowsToCsv(rows, headers);
+    const base = report.fileName.replace(/\.[^.]+$/, '');
+    downloadBlob(new Blob([csv], { type: 'text/csv;charset=utf-8' }), `${base}_rechazadas${reason ? `_${reason}` : ''}.csv`);
+  };
+
+  const stat = (label: string, value: number, tone: string) => (
+    <div className="p-4 rounded-2xl bg-slate-50 border border-slate-100">
+      <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">{label}</p>
+      <p className={`text-3xl font-black ${tone}`}>{value}</p>
+    </div>
+  );
+
+  return (
+    <div className="fixed inset-0 z-[100] bg-[#252525]/70 backdrop-blur-sm flex items-center justify-center p-8">
+      <div className="bg-white rounded-[2.5rem] shadow-2xl w-full max-w-6xl max-h-full flex flex-col overflow-hidden">
+        <div className="px-10 py-6 border-b border-slate-100 flex items-center justify-between bg-slate-50/30">
+          <div className="flex items-center gap-4">
+            <div className="w-2 h-8 bg-[#02a58d] rounded-full"></div>
+            <div>
+              <h3 className="text-lg font-black text-[#252525] uppercase tracking-wider">Calidad de la Importación</h3>
+              <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">{report.fileName}</p>
+            </div>
+          </div>
+          <button onClick={onClose} className="p-2 rounded-xl hover:bg-slate-100 text-slate-400 hover:text-[#252525] transition-all">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="px-10 py-6 border-b border-slate-100 space-y-4">
+          <div className="grid grid-cols-3 gap-4">
+            {stat('Filas leídas', report.rowsRead, 'text-[#252525]')}
+            {stat('Conservadas', report.rowsKept, 'text-[#02a58d]')}
+            {stat('Descartadas', report.rejected.length, 'text-[#ff4d63]')}
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            <button
+              onClick={() => setReason(null)}
+              className={`px-3 py-1.5 rounded-xl text-[10px] font-black uppercase tracking-widest ${reason === null ? 'bg-[#252525] text-white' : 'border-2 border-slate-100 text-slate-400 hover:text-[#252525]'}`}
+            >
+              Todas ({report.rejected.length})
+            </button>
+            {REJECT_REASONS.filter(r => report.byReason[r.key] > 0).map(r => (
+              <button
+                key={r.key}
+                onClick={() => setReason(r.key)}
+                className={`px-3 py-1.5 rounded-xl text-[10px] font-black uppercase tracking-widest ${reason === r.key ? 'bg-[#ff4d63] text-white' : 'border-2 border-[#ff4d63]/20 text-[#ff4d63] hover:bg-[#ff4d63]/5'}`}
+              >
+                {r.label} ({report.byReason[r.key]})
+              </button>
+            ))}
+            <button
+              onClick={handleDownload}
+              disabled={rows.length === 0}
+              className="ml-auto flex items-center gap-2 px-4 py-2 rounded-xl border-2 border-slate-100 text-[#252525] text-[10px] font-black uppercase tracking-widest hover:border-[#02a58d] disabled:opacity-30"
+            >
+              <Download size={14} /> Descargar CSV ({rows.length})
+            </button>
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto">
+          <table className="w-full text-left border-collapse">
+            <thead className="bg-[#252525] text-[10px] font-black text-slate-300 uppercase tracking-[0.2em] sticky top-0">
+              <tr>
+                <th className="px-6 py-4 w-16">Fila</th>
+                <th className="px-3 py-4">Motivos</th>
+                <th className="px-3 py-4">ID Paciente</th>
+                <th className="px-3 py-4">Modalidad</th>
+                <th className="px-3 py-4">Especialista</th>
+                <th className="px-3 py-4">Fecha realizado</th>
+                <th className="px-6 py-4">Fecha reporte</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {rows.slice(0, VISIBLE_ROWS).map(r => (
+                <tr key={r.row} className="hover:bg-[#ff4d63]/5 align-top">
+                  <td className="px-6 py-3 text-xs font-black text-slate-400">{r.row}</td>
+                  <td className="px-3 py-3 text-[10px] font-black text-[#ff4d63] uppercase tracking-wide">{r.reasons.map(rejectReasonLabel).join(' · ')}</td>
+                  <td className="px-3 py-3 text-xs font-bold text-[#252525]">{(maskId ? maskId(r.record.id_paciente) : r.record.id_paciente) || '—'}</td>
+                  <td className="px-3 py-3 text-xs font-bold text-[#252525]">{r.record.modalidad || '—'}</td>
+                  <td className="px-3 py-3 text-xs font-bold text-[#252525]">{r.record.realizado_por || '—'}</td>
+                  <td className="px-3 py-3 text-[11px] font-mono text-slate-500">{r.record.fecha_realizado || '—'}</td>
+                  <td className="px-6 py-3 text-[11px] font-mono text-slate-500">{r.record.fecha_reporte || '—'}</td>
+                </tr>
+              ))}
+              {rows.length === 0 && (
+                <tr>
+                  <td colSpan={7} className="px-6 py-12 text-center text-xs font-bold text-slate-400 uppercase tracking-widest">
+                    Todas las filas del archivo fueron importadas
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+          {rows.length > VISIBLE_ROWS && (
+            <p className="px-10 py-4 text-[10px] font-bold text-slate-400 uppercase tracking-widest">
+              Mostrando {VISIBLE_ROWS} de {rows.length} filas · descargue el CSV para ver todas
+            </p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,144 @@
+import React, { useState } from 'react';
+import { X, Plus, Trash2, ArrowUp, ArrowDown, RotateCcw, Save } from 'lucide-react';
+import { ModalityDefinition } from '../types';
+import { DEFAULT_MODALITIES, validateModalities } from '../utils/modalityConfig';
+
+interface ModalityEditorProps {
+  modalities: ModalityDefinition[];
+  onSave: (modalities: ModalityDefinition[]) => void;
+  onClose: () => void;
+}
+
+const inputClass = "w-full bg-slate-50 border-2 border-slate-100 rounded-xl px-3 py-2 text-xs font-bold text-[#252525] focus:border-[#02a58d] transition-all";
+
+// Los alias se editan como texto libre y se separan al guardar
+const toAliasText = (aliases: string[]) => aliases.join(', ');
+const fromAliasText = (text: string) => text.split(',').map(a => a.trim().toUpperCase()).filter(Boolean);
+
+export default function ModalityEditor({ modalities, onSave, onClose }: ModalityEditorProps) {
+  const [draft, setDraft] = useState(() => modalities.map(m => ({ ...m, aliasText: toAliasText(m.aliases) })));
+
+  const toDefinitions = (): ModalityDefinition[] =>
+    draft.map(({ aliasText, ...m }) => ({ ...m, name: m.name.trim(), aliases: fromAliasText(aliasText) }));
+
+  const error = validateModalities(toDefinitions());
+
+  const update = (index: number, patch: Partial<(typeof draft)[number]>) => {
+    setDraft(prev => prev.map((m, i) => (i === index ? { ...m, ...patch } : m)));
+  };
+
+  const move = (index: number, delta: number) => {
+    setDraft(prev => {
+      const target = index + delta;
+      if (target < 0 || target >= prev.length) return prev;
+      const next = [...prev];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] bg-[#252525]/70 backdrop-blur-sm flex items-center justify-center p-8">
+      <div className="bg-white rounded-[2.5rem] shadow-2xl w-full max-w-4xl max-h-full flex flex-col overflow-hidden">
+        <div className="px-10 py-6 border-b border-slate-100 flex items-center justify-between bg-slate-50/30">
+          <div className="flex items-center gap-4">
+            <div className="w-2 h-8 bg-[#02a58d] rounded-full"></div>
+            <div>
+              <h3 className="text-lg font-black text-[#252525] uppercase tracking-wider">Modalidades</h3>
+              <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">Solo se importan las incluidas · el orden define las columnas de los cuadros resumen</p>
+            </div>
+          </div>
+          <button onClick={onClose} className="p-2 rounded-xl hover:bg-slate-100 text-slate-400 hover:text-[#252525] transition-all">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="px-10 py-4 border-b border-slate-100 flex flex-wrap items-center gap-3">
+          <button
+            onClick={() => setDraft(prev => [...prev, { code: '', name: '', included: true, aliases: [], aliasText: '' }])}
+            className="flex items-center gap-2 px-4 py-2 rounded-xl bg-[#02a58d] text-white text-[10px] font-black uppercase tracking-widest"
+          >
+            <Plus size={14} /> Agregar
+          </button>
+          <button
+            onClick={() => setDraft(DEFAULT_MODALITIES.map(m => ({ ...m, aliasText: toAliasText(m.aliases) })))}
+            className="flex items-center gap-2 px-4 py-2 rounded-xl border-2 border-[#ff4d63]/20 text-[#ff4d63] text-[10px] font-black uppercase tracking-widest hover:bg-[#ff4d63]/5"
+          >
+            <RotateCcw size={14} /> Predeterminadas
+          </button>
+        </div>
+
+        {error && (
+          <div className="px-10 py-3 bg-[#ff4d63]/10 text-[#ff4d63] text-xs font-black">{error}</div>
+        )}
+
+        <div className="flex-1 overflow-y-auto">
+          <table className="w-full text-left border-collapse">
+            <thead className="bg-[#252525] text-[10px] font-black text-slate-300 uppercase tracking-[0.2em] sticky top-0">
+              <tr>
+                <th className="px-6 py-4 w-20 text-center">Incluir</th>
+                <th className="px-3 py-4 w-24">Código</th>
+                <th className="px-3 py-4">Nombre</th>
+                <th className="px-3 py-4">Alias</th>
+                <th className="px-6 py-4 w-32"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {draft.map((m, index) => (
+                <tr key={index} className={m.included ? 'hover:bg-[#02a58d]/5' : 'opacity-60 hover:bg-slate-50'}>
+                  <td className="px-6 py-2 text-center">
+                    <input
+                      type="checkbox"
+                      checked={m.included}
+                      onChange={(e) => update(index, { included: e.target.checked })}
+                      className="accent-[#02a58d]"
+                    />
+                  </td>
+                  <td className="px-3 py-2">
+                    <input value={m.code} onChange={(e) => update(index, { code: e.target.value.toUpperCase().trim() })} className={inputClass} />
+                  </td>
+                  <td className="px-3 py-2">
+                    <input value={m.name} onChange={(e) => update(index, { name: e.target.value })} placeholder="Ej. Resonancia" className={inputClass} />
+                  </td>
+                  <td className="px-3 py-2">
+                    <input
+                      value={m.aliasText}
+                      onChange={(e) => update(index, { aliasText: e.target.value.toUpperCase() })}
+                      placeholder="Ej. DX, PX"
+                      className={inputClass}
+                    />
+                  </td>
+                  <td className="px-6 py-2">
+                    <div className="flex items-center gap-1 justify-end text-slate-400">
+                      <button onClick={() => move(index, -1)} className="p-1.5 rounded-lg hover:bg-slate-100 hover:text-[#252525]"><ArrowUp size={14} /></button>
+                      <button onClick={() => move(index, 1)} className="p-1.5 rounded-lg hover:bg-slate-100 hover:text-[#252525]"><ArrowDown size={14} /></button>
+                      <button onClick={() => setDraft(prev => prev.filter((_, i) => i !== index))} className="p-1.5 rounded-lg hover:bg-[#ff4d63]/10 hover:text-[#ff4d63]"><Trash2 size={14} /></button>
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="px-10 py-5 border-t border-slate-100 flex items-center justify-between bg-slate-50/30">
+          <span className="text-[10px] font-black uppercase tracking-widest text-slate-400">
+            {draft.filter(m => m.included).length} de {draft.length} incluidas
+          </span>
+          <div className="flex items-center gap-3">
+            <button onClick={onClose} className="px-6 py-3 rounded-2xl text-xs font-black uppercase tracking-widest text-slate-400 hover:text-[#252525]">
+              Cancelar
+            </button>
+            <button
+              onClick={() => onSave(toDefinitions())}
+              disabled={error !== null}
+              className="flex items-center gap-2 bg-gradient-to-r from-[#02a58d] to-[#018470] text-white px-6 py-3 rounded-2xl text-xs font-black uppercase tracking-widest disabled:opacity-30"
+            >
+              <Save size={14} /> Guardar y reimportar
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,130 @@
+import React, { useMemo } from 'react';
+import { Grid3x3, ArrowLeftRight, FileSpreadsheet, FileText } from 'lucide-react';
+import { RadiologyRecord, PivotConfig, PivotDimension, DashboardFilters } from '../types';
+import { PIVOT_DIMENSIONS, PIVOT_MEASURES, buildPivot, pivotToCsv, pivotLabel, pivotDimensionLabel, pivotFileName } from '../utils/pivot';
+import { formatScore } from '../utils/weights';
+import { downloadBlob } from '../utils/download';
+
+interface PivotExplorerProps {
+  data: RadiologyRecord[];
+  config: PivotConfig;
+  filters: DashboardFilters;   // Solo para nombrar la descarga CSV igual que la de Excel
+  anonymized: boolean;
+  onChange: (config: PivotConfig) => void;
+  onExportExcel: () => void;
+}
+
+const selectClass = "bg-slate-50 border-2 border-slate-100 rounded-xl px-3 py-2 text-[10px] font-black uppercase tracking-widest text-[#252525] focus:border-[#02a58d] transition-all";
+
+export default function PivotExplorer({ data, config, filters, anonymized, onChange, onExportExcel }: PivotExplorerProps) {
+  const result = useMemo(() => buildPivot(data, config), [data, config]);
+  const format = (value: number) => (config.measure === 'weighted' ? formatScore(value) : String(value));
+
+  const exportCsv = () => {
+    downloadBlob(new Blob([pivotToCsv(result, config)], { type: 'text/csv;charset=utf-8' }), pivotFileName(filters, anonymized, 'csv'));
+  };
+
+  return (
+    <div className="bg-white rounded-[3rem] border border-slate-200 shadow-2xl overflow-hidden">
+      <div className="px-10 py-8 border-b border-slate-100 flex flex-wrap items-center justify-between gap-4 bg-slate-50/30">
+        <div className="flex items-center gap-4">
+          <div className="w-2 h-8 bg-[#02a58d] rounded-full"></div>
+          <div>
+            <h3 className="text-lg font-black text-[#252525] uppercase tracking-wider">Explorador de Pivotes</h3>
+            <p className="text-[9px] font-bold text-slate-400 uppercase tracking-widest mt-1">{pivotLabel(config)}</p>
+          </div>
+        </div>
+        <div className="flex flex-wrap items-center gap-3">
+          <select value={config.rows} onChange={(e) => onChange({ ...config, rows: e.target.value as PivotDimension })} className={selectClass} title="Filas">
+            {PIVOT_DIMENSIONS.map(d => <option key={d.key} value={d.key}>{d.label}</option>)}
+          </select>
+          <button
+            onClick={() => onChange({ ...config, rows: config.columns, columns: config.rows })}
+            title="Intercambiar filas y columnas"
+            className="p-2 rounded-xl text-slate-400 hover:bg-slate-100 hover:text-[#252525]"
+          >
+            <ArrowLeftRight size={14} />
+          </button>
+          <select value={config.columns} onChange={(e) => onChange({ ...config, columns: e.target.value as PivotDimension })} className={selectClass} title="Columnas">
+            {PIVOT_DIMENSIONS.map(d => <option key={d.key} value={d.key}>{d.label}</option>)}
+          </select>
+          <div className="flex bg-slate-100 rounded-2xl p-1">
+            {PIVOT_MEASURES.map(m => (
+              <button
+                key={m.key}
+                onClick={() => onChange({ ...config, measure: m.key })}
+                className={`px-4 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest transition-all ${config.measure === m.key ? 'bg-[#252525] text-white shadow' : 'text-slate-400 hover:text-[#252525]'}`}
+              >
+                {m.label}
+              </button>
+            ))}
+          </div>
+          <button
+            onClick={onExportExcel}
+            disabled={result.rowKeys.length === 0}
+            className="flex items-center gap-2 px-4 py-2 rounded-xl border-2 border-slate-100 text-[10px] font-black uppercase tracking-widest text-[#252525] hover:border-[#02a58d] disabled:opacity-30"
+          >
+            <FileSpreadsheet size={14} className="text-[#02a58d]" /> Excel
+          </button>
+          <button
+            onClick={exportCsv}
+            disabled={result.rowKeys.length === 0}
+            className="flex items-center gap-2 px-4 py-2 rounded-xl border-2 border-slate-100 text-[10px] font-black uppercase tracking-widest text-[#252525] hover:border-[#02a58d] disabled:opacity-30"
+          >
+            <FileText size={14} className="text-[#02a58d]" /> CSV
+          </button>
+          <Grid3x3 size={22} className="text-[#02a58d]" />
+        </div>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-left border-collapse">
+          <thead className="bg-[#252525] text-[11px] font-black text-slate-300 uppercase tracking-[0.25em]">
+            <tr>
+              <th className="px-10 py-5">{pivotDimensionLabel(config.rows)}</th>
+              {result.columnKeys.map(col => <th key={col} className="px-4 py-5 text-center whitespace-nowrap">{col}</th>)}
+              <th className="px-6 py-5 text-center">Total</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100">
+            {result.rowKeys.map(row => (
+              <tr key={row} className="hover:bg-[#02a58d]/5 transition-all">
+                <td className="px-10 py-4 text-sm font-black text-[#252525] whitespace-nowrap">{row}</td>
+                {result.columnKeys.map(col => {
+                  const value = result.cells[row][col] || 0;
+                  return (
+                    <td key={col} className="px-4 py-4 text-center">
+                      <span
+                        className={`text-xs font-black px-3 py-1 rounded-lg ${value > 0 ? 'text-[#252525]' : 'text-slate-300'}`}
+                        style={value > 0 ? { backgroundColor: `rgba(2, 165, 141, ${(0.08 + 0.4 * value / Math.max(result.max, 1)).toFixed(2)})` } : undefined}
+                      >
+                        {format(value)}
+                      </span>
+                    </td>
+                  );
+                })}
+                <td className="px-6 py-4 text-center text-sm font-black text-[#252525]">{format(result.rowTotals[row])}</td>
+              </tr>
+            ))}
+            {result.rowKeys.length === 0 && (
+              <tr>
+                <td colSpan={result.columnKeys.length + 2} className="px-10 py-10 text-center text-xs font-bold text-slate-400 uppercase tracking-widest">
+                  Sin estudios con los filtros actuales
+                </td>
+              </tr>
+            )}
+          </tbody>
+          {result.rowKeys.length > 0 && (
+            <tfoot className="bg-slate-50 text-xs font-black text-[#252525]">
+              <tr>
+                <td className="px-10 py-4 uppercase tracking-widest">Total</td>
+                {result.columnKeys.map(col => <td key={col} className="px-4 py-4 text-center">{format(result.columnTotals[col])}</td>)}
+                <td className="px-6 py-4 text-center text-[#02a58d]">{format(result.total)}</td>
+              </tr>
+            </tfoot>
+          )}
+        </table>
+      </div>
+    </div>
+  );
+}
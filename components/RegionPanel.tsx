@@ -0,0 +1,79 @@
+import React, { useMemo } from 'react';
+import { PersonStanding, MousePointerClick } from 'lucide-react';
+import { RadiologyRecord, ModalityDefinition } from '../types';
+import { getRegionByModality } from '../utils/regions';
+import { modalityName } from '../utils/modalityConfig';
+import { formatScore } from '../utils/weights';
+
+interface RegionPanelProps {
+  data: RadiologyRecord[];
+  modalities: ModalityDefinition[];
+  activeRegion: string;                 // Filtro de región del tablero ('All' = ninguno)
+  onSelectRegion: (region: string) => void;
+}
+
+export default function RegionPanel({ data, modalities, activeRegion, onSelectRegion }: RegionPanelProps) {
+  const { modalityCodes, rows } = useMemo(() => getRegionByModality(data, modalities), [data, modalities]);
+  const inferred = useMemo(() => data.filter(r => r.regionInferred).length, [data]);
+  // La intensidad del fondo se escala con la celda más alta para que destaquen las zonas con más carga
+  const maxCell = Math.max(1, ...rows.flatMap(r => modalityCodes.map(code => r.counts[code])));
+
+  return (
+    <div className="bg-white rounded-[3rem] border border-slate-200 shadow-2xl overflow-hidden">
+      <div className="px-10 py-8 border-b border-slate-100 flex flex-wrap items-center justify-between gap-4 bg-slate-50/30">
+        <div className="flex items-center gap-4">
+          <div className="w-2 h-8 bg-[#02a58d] rounded-full"></div>
+          <div>
+            <h3 className="text-lg font-black text-[#252525] uppercase tracking-wider">Estudios por Región</h3>
+            <p className="text-[9px] font-bold text-slate-400 uppercase tracking-widest flex items-center gap-1 mt-1">
+              <MousePointerClick size={10} /> Clic en una región para filtrar
+              {inferred > 0 && ` · ${inferred} deducidas de la descripción`}
+            </p>
+          </div>
+        </div>
+        <PersonStanding size={22} className="text-[#02a58d]" />
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-left border-collapse">
+          <thead className="bg-[#252525] text-[11px] font-black text-slate-300 uppercase tracking-[0.25em]">
+            <tr>
+              <th className="px-10 py-5">Región</th>
+              <th className="px-6 py-5 text-center">Total</th>
+              <th className="px-6 py-5 text-center">RVU</th>
+              {modalityCodes.map(code => (
+                <th key={code} title={modalityName(code, modalities)} className="px-6 py-5 text-center">{code}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100">
+            {rows.map(row => (
+              <tr
+                key={row.name}
+                onClick={() => onSelectRegion(activeRegion === row.name ? 'All' : row.name)}
+                className={`cursor-pointer transition-all ${activeRegion === row.name ? 'bg-[#02a58d]/10' : 'hover:bg-[#02a58d]/5'}`}
+              >
+                <td className="px-10 py-4 text-sm font-black text-[#252525]">{row.name}</td>
+                <td className="px-6 py-4 text-center text-sm font-black text-[#252525]">{row.total}</td>
+                <td className="px-6 py-4 text-center text-xs font-black text-[#02a58d]">{formatScore(row.weighted)}</td>
+                {modalityCodes.map(code => {
+                  const count = row.counts[code];
+                  return (
+                    <td key={code} className="px-6 py-4 text-center">
+                      <span
+                        className={`text-xs font-black px-3 py-1 rounded-lg ${count > 0 ? 'text-[#252525]' : 'text-slate-300'}`}
+                        style={count > 0 ? { backgroundColor: `rgba(2, 165, 141, ${(0.08 + 0.4 * count / maxCell).toFixed(2)})` } : undefined}
+                      >
+                        {count}
+                      </span>
+                    </td>
+                  );
+                })}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,220 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { X, Plus, Trash2, ArrowUp, ArrowDown, Upload, Download, RotateCcw, Save, Search } from 'lucide-react';
+import { ClassificationRule, RuleMatchType } from '../types';
+import {
+  DEFAULT_RULES,
+  MATCH_TYPES,
+  getSubcategories,
+  newRuleId,
+  parseRulesJson,
+  rulesToJson,
+  validateRule
+} from '../utils/classificationRules';
+import { downloadBlob } from '../utils/download';
+
+interface RulesEditorProps {
+  rules: ClassificationRule[];
+  onSave: (rules: ClassificationRule[]) => void;
+  onClose: () => void;
+}
+
+const inputClass = "w-full bg-slate-50 border-2 border-slate-100 rounded-xl px-3 py-2 text-xs font-bold text-[#252525] focus:border-[#02a58d] transition-all";
+
+export default function RulesEditor({ rules, onSave, onClose }: RulesEditorProps) {
+  const [draft, setDraft] = useState<ClassificationRule[]>(rules);
+  const [query, setQuery] = useState('');
+  const [importError, setImportError] = useState('');
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const errors = useMemo(() => {
+    const map: Record<string, string> = {};
+    draft.forEach(rule => {
+      const error = validateRule(rule);
+      if (error) map[rule.id] = error;
+    });
+    return map;
+  }, [draft]);
+
+  // Sugerencias para el campo subcategoría: las ya usadas en el borrador
+  const subcategories = useMemo(() => getSubcategories(draft), [draft]);
+
+  const visible = draft
+    .map((rule, index) => ({ rule, index }))
+    .filter(({ rule }) => !query || rule.pattern.toUpperCase().includes(query.toUpperCase()) || rule.modality.includes(query.toUpperCase()));
+
+  const update = (id: string, patch: Partial<ClassificationRule>) => {
+    setDraft(prev => prev.map(r => (r.id === id ? { ...r, ...patch } : r)));
+  };
+
+  const move = (index: number, delta: number) => {
+    setDraft(prev => {
+      const target = index + delta;
+      if (target < 0 || target >= prev.length) return prev;
+      const next = [...prev];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  };
+
+  const addRule = () => {
+    setQuery('');
+    setDraft(prev => [...prev, { id: newRuleId(), modality: 'CT', matchType: 'contains', pattern: '', subcategory: 'CONTRASTADOS' }]);
+  };
+
+  const handleImport = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onload = (e) => {
+      try {
+        setDraft(parseRulesJson(e.target?.result as string));
+        setImportError('');
+      } catch (err) {
+        setImportError((err as Error).message);
+      }
+    };
+    reader.readAsText(file);
+    event.target.value = '';
+  };
+
+  const handleExport = () => {
+    downloadBlob(new Blob([rulesToJson(draft)], { type: 'application/json' }), `MedStats_Reglas_${new Date().getTime()}.json`);
+  };
+
+  const errorCount = Object.keys(errors).length;
+
+  return (
+    <div className="fixed inset-0 z-[100] bg-[#252525]/70 backdrop-blur-sm flex items-center justify-center p-8">
+      <div className="bg-white rounded-[2.5rem] shadow-2xl w-full max-w-6xl max-h-full flex flex-col overflow-hidden">
+        <div className="px-10 py-6 border-b border-slate-100 flex items-center justify-between bg-slate-50/30">
+          <div className="flex items-center gap-4">
+            <div className="w-2 h-8 bg-[#02a58d] rounded-full"></div>
+            <div>
+              <h3 className="text-lg font-black text-[#252525] uppercase tracking-wider">Reglas de Clasificación</h3>
+              <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">Se evalúan en orden · gana la primera coincidencia · sin coincidencia = STANDARD</p>
+            </div>
+          </div>
+          <button onClick={onClose} className="p-2 rounded-xl hover:bg-slate-100 text-slate-400 hover:text-[#252525] transition-all">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="px-10 py-4 border-b border-slate-100 flex flex-wrap items-center gap-3">
+          <div className="relative flex-1 min-w-[200px]">
+            <input
+              type="text"
+              placeholder="Buscar patrón o modalidad..."
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              className={`${inputClass} pl-9`}
+            />
+            <Search className="absolute left-3 top-[10px] text-slate-400" size={14} />
+          </div>
+          <button onClick={addRule} className="flex items-center gap-2 px-4 py-2 rounded-xl bg-[#02a58d] text-white text-[10px] font-black uppercase tracking-widest">
+            <Plus size={14} /> Agregar
+          </button>
+          <button onClick={() => fileInput.current?.click()} className="flex items-center gap-2 px-4 py-2 rounded-xl border-2 border-slate-100 text-[#252525] text-[10px] font-black uppercase tracking-widest hover:border-[#02a58d]">
+            <Upload size={14} /> Importar JSON
+          </button>
+          <input ref={fileInput} type="file" accept=".json,application/json" className="hidden" onChange={handleImport} />
+          <button onClick={handleExport} className="flex items-center gap-2 px-4 py-2 rounded-xl border-2 border-slate-100 text-[#252525] text-[10px] font-black uppercase tracking-widest hover:border-[#02a58d]">
+            <Download size={14} /> Exportar JSON
+          </button>
+          <button onClick={() => setDraft(DEFAULT_RULES)} className="flex items-center gap-2 px-4 py-2 rounded-xl border-2 border-[#ff4d63]/20 text-[#ff4d63] text-[10px] font-black uppercase tracking-widest hover:bg-[#ff4d63]/5">
+            <RotateCcw size={14} /> Predeterminadas
+          </button>
+        </div>
+
+        <datalist id="rule-subcategories">
+          {subcategories.map(s => <option key={s} value={s} />)}
+        </datalist>
+
+        {importError && (
+          <div className="px-10 py-3 bg-[#ff4d63]/10 text-[#ff4d63] text-xs font-black">{importError}</div>
+        )}
+
+        <div className="flex-1 overflow-y-auto">
+          <table className="w-full text-left border-collapse">
+            <thead className="bg-[#252525] text-[10px] font-black text-slate-300 uppercase tracking-[0.2em] sticky top-0">
+              <tr>
+                <th className="px-6 py-4 w-12">#</th>
+                <th className="px-3 py-4 w-24">Modalidad</th>
+                <th className="px-3 py-4 w-40">Coincidencia</th>
+                <th className="px-3 py-4">Patrón</th>
+                <th className="px-3 py-4 w-44">Subcategoría</th>
+                <th className="px-6 py-4 w-32"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {visible.map(({ rule, index }) => (
+                <tr key={rule.id} className={errors[rule.id] ? 'bg-[#ff4d63]/5' : 'hover:bg-[#02a58d]/5'}>
+                  <td className="px-6 py-2 text-xs font-black text-slate-400">{index + 1}</td>
+                  <td className="px-3 py-2">
+                    <input
+                      value={rule.modality}
+                      onChange={(e) => update(rule.id, { modality: e.target.value.toUpperCase().trim() })}
+                      title="'*' aplica a cualquier modalidad"
+                      className={inputClass}
+                    />
+                  </td>
+                  <td className="px-3 py-2">
+                    <select
+                      value={rule.matchType}
+                      onChange={(e) => update(rule.id, { matchType: e.target.value as RuleMatchType })}
+                      className={inputClass}
+                    >
+                      {MATCH_TYPES.map(m => <option key={m.value} value={m.value}>{m.label}</option>)}
+                    </select>
+                  </td>
+                  <td className="px-3 py-2">
+                    <input
+                      value={rule.pattern}
+                      onChange={(e) => update(rule.id, { pattern: e.target.value })}
+                      placeholder={rule.matchType === 'keyword' ? 'PALABRA1, PALABRA2' : 'Descripción del procedimiento'}
+                      className={inputClass}
+                    />
+                    {errors[rule.id] && <p className="text-[10px] font-bold text-[#ff4d63] mt-1">{errors[rule.id]}</p>}
+                  </td>
+                  <td className="px-3 py-2">
+                    <input
+                      value={rule.subcategory}
+                      list="rule-subcategories"
+                      onChange={(e) => update(rule.id, { subcategory: e.target.value.toUpperCase() })}
+                      placeholder="Ej. DOPPLER"
+                      className={inputClass}
+                    />
+                  </td>
+                  <td className="px-6 py-2">
+                    <div className="flex items-center gap-1 justify-end text-slate-400">
+                      <button onClick={() => move(index, -1)} className="p-1.5 rounded-lg hover:bg-slate-100 hover:text-[#252525]"><ArrowUp size={14} /></button>
+                      <button onClick={() => move(index, 1)} className="p-1.5 rounded-lg hover:bg-slate-100 hover:text-[#252525]"><ArrowDown size={14} /></button>
+                      <button onClick={() => setDraft(prev => prev.filter(r => r.id !== rule.id))} className="p-1.5 rounded-lg hover:bg-[#ff4d63]/10 hover:text-[#ff4d63]"><Trash2 size={14} /></button>
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="px-10 py-5 border-t border-slate-100 flex items-center justify-between bg-slate-50/30">
+          <span className="text-[10px] font-black uppercase tracking-widest text-slate-400">
+            {draft.length} reglas{errorCount > 0 && <span className="text-[#ff4d63]"> · {errorCount} con errores</span>}
+          </span>
+          <div className="flex items-center gap-3">
+            <button onClick={onClose} className="px-6 py-3 rounded-2xl text-xs font-black uppercase tracking-widest text-slate-400 hover:text-[#252525]">
+              Cancelar
+            </button>
+            <button
+              onClick={() => onSave(draft.map(r => ({ ...r, subcategory: r.subcategory.trim() })))}
+              disabled={errorCount > 0}
+              className="flex items-center gap-2 bg-gradient-to-r from-[#02a58d] to-[#018470] text-white px-6 py-3 rounded-2xl text-xs font-black uppercase tracking-widest disabled:opacity-30"
+            >
+              <Save size={14} /> Guardar y reclasificar
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,87 @@
+import React, { useState } from 'react';
+import { BookmarkPlus, Trash2, Link2, Check } from 'lucide-react';
+import { DashboardFilters, SavedFilter } from '../types';
+import { sameFilters } from '../utils/filters';
+
+interface SavedFiltersProps {
+  saved: SavedFilter[];
+  current: DashboardFilters;
+  onApply: (saved: SavedFilter) => void;
+  onSave: (name: string) => void;
+  onDelete: (id: string) => void;
+}
+
+const inputClass = "w-full bg-slate-50 border-2 border-slate-100 rounded-xl px-3 py-2 text-xs font-bold text-[#252525] focus:border-[#02a58d] transition-all";
+
+export default function SavedFilters({ saved, current, onApply, onSave, onDelete }: SavedFiltersProps) {
+  const [name, setName] = useState('');
+  const [copied, setCopied] = useState(false);
+  // El filtro guardado que coincide con la vista actual queda seleccionado
+  const active = saved.find(s => sameFilters(s.filters, current));
+
+  const handleSave = () => {
+    if (!name.trim()) return;
+    onSave(name.trim());
+    setName('');
+  };
+
+  // La URL ya refleja los filtros sin datos de paciente; basta con copiarla
+  const copyLink = () => {
+    navigator.clipboard.writeText(window.location.href)
+      .then(() => {
+        setCopied(true);
+        setTimeout(() => setCopied(false), 2000);
+      })
+      .catch(() => alert('No se pudo copiar el enlace; cópialo desde la barra de direcciones.'));
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2">
+        <select
+          value={active?.id || ''}
+          onChange={(e) => {
+            const selected = saved.find(s => s.id === e.target.value);
+            if (selected) onApply(selected);
+          }}
+          className={inputClass}
+        >
+          <option value="">{saved.length === 0 ? 'Sin filtros guardados' : 'Filtros guardados…'}</option>
+          {saved.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+        </select>
+        <button
+          onClick={() => active && onDelete(active.id)}
+          disabled={!active}
+          title="Eliminar filtro guardado"
+          className="p-2 rounded-lg text-slate-400 hover:bg-[#ff4d63]/10 hover:text-[#ff4d63] disabled:opacity-30"
+        >
+          <Trash2 size={14} />
+        </button>
+        <button
+          onClick={copyLink}
+          title="Copiar enlace de esta vista"
+          className="p-2 rounded-lg text-slate-400 hover:bg-slate-100 hover:text-[#02a58d]"
+        >
+          {copied ? <Check size={14} className="text-[#02a58d]" /> : <Link2 size={14} />}
+        </button>
+      </div>
+      <div className="flex items-center gap-2">
+        <input
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && handleSave()}
+          placeholder="Nombre para guardar la vista"
+          className={inputClass}
+        />
+        <button
+          onClick={handleSave}
+          disabled={!name.trim()}
+          title="Guardar filtros actuales"
+          className="p-2 rounded-lg bg-[#02a58d] text-white disabled:opacity-30"
+        >
+          <BookmarkPlus size={14} />
+        </button>
+      </div>
+    </div>
+  );
+}
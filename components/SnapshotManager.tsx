@@ -0,0 +1,98 @@
+import React, { useState } from 'react';
+import { X, Save, FolderOpen, Trash2, HardDrive, FilePlus, AlertTriangle } from 'lucide-react';
+import { SnapshotMeta } from '../types';
+
+interface SnapshotManagerProps {
+  snapshots: SnapshotMeta[];
+  canSave: boolean;
+  onSave: (name: string) => void;
+  onOpen: (id: string) => void;
+  onDelete: (id: string) => void;
+  onNewSession: () => void;
+  onClose: () => void;
+}
+
+const inputClass = "w-full bg-slate-50 border-2 border-slate-100 rounded-xl px-3 py-2 text-xs font-bold text-[#252525] focus:border-[#02a58d] transition-all";
+
+export default function SnapshotManager({ snapshots, canSave, onSave, onOpen, onDelete, onNewSession, onClose }: SnapshotManagerProps) {
+  const [name, setName] = useState('');
+
+  const handleSave = () => {
+    if (!name.trim()) return;
+    onSave(name.trim());
+    setName('');
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] bg-[#252525]/70 backdrop-blur-sm flex items-center justify-center p-8">
+      <div className="bg-white rounded-[2.5rem] shadow-2xl w-full max-w-3xl max-h-full flex flex-col overflow-hidden">
+        <div className="px-10 py-6 border-b border-slate-100 flex items-center justify-between bg-slate-50/30">
+          <div className="flex items-center gap-4">
+            <div className="w-2 h-8 bg-[#02a58d] rounded-full"></div>
+            <div>
+              <h3 className="text-lg font-black text-[#252525] uppercase tracking-wider">Sesiones Guardadas</h3>
+              <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest flex items-center gap-1">
+                <HardDrive size={11} /> Solo en este navegador · nada se envía a ningún servidor
+              </p>
+            </div>
+          </div>
+          <button onClick={onClose} className="p-2 rounded-xl hover:bg-slate-100 text-slate-400 hover:text-[#252525] transition-all">
+            <X size={20} />
+          </button>
+        </div>
+
+        {/* Las filas originales se guardan tal cual para poder reasignar columnas o reimportar */}
+        <div className="px-10 py-3 border-b border-slate-100 bg-[#ff4d63]/5 flex items-center gap-2 text-[10px] font-black uppercase tracking-widest text-[#ff4d63]">
+          <AlertTriangle size={14} className="shrink-0" />
+          Las sesiones guardan los archivos completos, con nombres e IDs de pacientes sin enmascarar · use Nueva sesión y borre las guardadas al terminar en un equipo compartido
+        </div>
+
+        <div className="px-10 py-4 border-b border-slate-100 flex items-center gap-3">
+          <input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && canSave && handleSave()}
+            placeholder="Ej. Enero 2026 – Sede Norte"
+            className={inputClass}
+          />
+          <button
+            onClick={handleSave}
+            disabled={!canSave || !name.trim()}
+            className="flex items-center gap-2 px-4 py-2 rounded-xl bg-[#02a58d] text-white text-[10px] font-black uppercase tracking-widest whitespace-nowrap disabled:opacity-30"
+          >
+            <Save size={14} /> Guardar actual
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto divide-y divide-slate-100">
+          {snapshots.map(snap => (
+            <div key={snap.id} className="px-10 py-4 flex items-center justify-between gap-4 hover:bg-[#02a58d]/5">
+              <div className="min-w-0">
+                <p className="text-sm font-black text-[#252525] truncate">{snap.name}</p>
+                <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest truncate">
+                  {new Date(snap.createdAt).toLocaleString()} · {snap.studyCount} estudios · {snap.fileNames.join(', ')}
+                </p>
+              </div>
+              <div className="flex items-center gap-1 text-slate-400">
+                <button onClick={() => onOpen(snap.id)} className="flex items-center gap-1 px-3 py-1.5 rounded-xl border-2 border-slate-100 text-[10px] font-black uppercase tracking-widest text-[#252525] hover:border-[#02a58d]">
+                  <FolderOpen size={12} /> Abrir
+                </button>
+                <button onClick={() => onDelete(snap.id)} className="p-1.5 rounded-lg hover:bg-[#ff4d63]/10 hover:text-[#ff4d63]"><Trash2 size={14} /></button>
+              </div>
+            </div>
+          ))}
+          {snapshots.length === 0 && (
+            <p className="px-10 py-12 text-center text-xs font-bold text-slate-400 uppercase tracking-widest">Aún no hay sesiones guardadas</p>
+          )}
+        </div>
+
+        <div className="px-10 py-5 border-t border-slate-100 flex items-center justify-between bg-slate-50/30">
+          <span className="text-[10px] font-black uppercase tracking-widest text-slate-400">La sesión actual se guarda automáticamente</span>
+          <button onClick={onNewSession} className="flex items-center gap-2 px-4 py-2 rounded-xl border-2 border-[#ff4d63]/20 text-[#ff4d63] text-[10px] font-black uppercase tracking-widest hover:bg-[#ff4d63]/5">
+            <FilePlus size={14} /> Nueva sesión
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,247 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, PieChart, Pie, Cell, Legend
+} from 'recharts';
+import { X, FileSpreadsheet, FileDown, Download, ChevronLeft, ChevronRight, ArrowUp, ArrowDown } from 'lucide-react';
+import { RadiologyRecord, ModalityDefinition, SpecialistDelta, SpecialistProfile, StudySort, StudySortKey, ExportFormat } from '../types';
+import { getModalityStats } from '../utils/dataProcessor';
+import { getVolumeSeries, CHART_COLORS } from '../utils/charts';
+import { modalityName } from '../utils/modalityConfig';
+import { STANDARD_SUBCATEGORY } from '../utils/classificationRules';
+import { getTurnaroundSummary, getTurnaroundHours, formatHours } from '../utils/turnaround';
+import { formatDate } from '../utils/dateParser';
+import { formatScore } from '../utils/weights';
+import { roleLabel } from '../utils/specialists';
+import { sortStudies, toggleStudySort, volumeBucketFor, DEFAULT_STUDY_SORT, STUDY_PAGE_SIZE } from '../utils/studyTable';
+import DeltaBadge from './DeltaBadge';
+
+interface SpecialistDetailProps {
+  specialist: string;
+  records: RadiologyRecord[];     // Estudios del especialista con los filtros del tablero
+  delta?: SpecialistDelta;        // Solo en modo comparativo
+  profile: SpecialistProfile | null;
+  subcategories: string[];
+  modalities: ModalityDefinition[];
+  slaHours: number;
+  onExport: (format: ExportFormat) => void;
+  onClose: () => void;
+}
+
+const COLUMNS: { key: StudySortKey; label: string; align?: 'center' }[] = [
+  { key: 'fecha_realizado_ts', label: 'Realizado' },
+  { key: 'descripcion', label: 'Descripción' },
+  { key: 'bodyRegion', label: 'Región' },
+  { key: 'modalidad', label: 'Mod.', align: 'center' },
+  { key: 'subcategory', label: 'Subcategoría' },
+  { key: 'fecha_reporte_ts', label: 'Reportado' },
+  { key: 'reportStatus', label: 'Estado' },
+  { key: 'turnaround', label: 'T. Reporte', align: 'center' }
+];
+
+const tooltipStyle = { borderRadius: 16, border: '1px solid #e2e8f0', fontSize: 12, fontWeight: 700 };
+const axisTick = { fontSize: 10, fontWeight: 700, fill: '#94a3b8' };
+
+const exportButtonClass = "flex items-center gap-2 px-4 py-2 rounded-xl border-2 border-slate-100 text-[10px] font-black uppercase tracking-widest text-[#252525] hover:border-[#02a58d] disabled:opacity-30";
+
+export default function SpecialistDetail({ specialist, records, delta, profile, subcategories, modalities, slaHours, onExport, onClose }: SpecialistDetailProps) {
+  const [sort, setSort] = useState<StudySort>(DEFAULT_STUDY_SORT);
+  const [page, setPage] = useState(0);
+
+  const sorted = useMemo(() => sortStudies(records, sort), [records, sort]);
+  const pageCount = Math.max(1, Math.ceil(sorted.length / STUDY_PAGE_SIZE));
+  const pageRows = sorted.slice(page * STUDY_PAGE_SIZE, (page + 1) * STUDY_PAGE_SIZE);
+
+  // Si cambian los filtros del tablero la página actual puede dejar de existir
+  useEffect(() => {
+    if (page >= pageCount) setPage(pageCount - 1);
+  }, [page, pageCount]);
+
+  const modalityStats = useMemo(() => getModalityStats(records, modalities), [records, modalities]);
+  const bucket = useMemo(() => volumeBucketFor(records), [records]);
+  const series = useMemo(() => getVolumeSeries(records, bucket), [records, bucket]);
+  const subcategoryStats = useMemo(() => subcategories
+    .map(sub => ({ name: sub, value: records.filter(r => r.subcategory === sub).length }))
+    .filter(point => point.value > 0), [records, subcategories]);
+  const { overall } = useMemo(() => getTurnaroundSummary(records, slaHours), [records, slaHours]);
+  const weighted = records.reduce((sum, r) => sum + r.weight, 0);
+
+  const handleSort = (key: StudySortKey) => {
+    setSort(prev => toggleStudySort(prev, key));
+    setPage(0);
+  };
+
+  const kpis = [
+    { label: 'Estudios', value: String(records.length), delta: delta?.total },
+    { label: 'RVU ponderado', value: formatScore(weighted) },
+    { label: 'Mediana reporte', value: overall.count > 0 ? formatHours(overall.median) : '—' },
+    { label: `Fuera de SLA (${slaHours} h)`, value: `${overall.slaBreaches} / ${overall.count}` }
+  ];
+
+  return (
+    <div className="fixed inset-0 z-[100] bg-[#252525]/70 backdrop-blur-sm flex items-center justify-center p-8">
+      <div className="bg-white rounded-[2.5rem] shadow-2xl w-full max-w-7xl max-h-full flex flex-col overflow-hidden">
+        <div className="px-10 py-6 border-b border-slate-100 flex flex-wrap items-center justify-between gap-4 bg-slate-50/30">
+          <div className="flex items-center gap-4">
+            <div className="w-2 h-8 bg-[#02a58d] rounded-full"></div>
+            <div>
+              <h3 className="text-lg font-black text-[#252525] uppercase tracking-wider">{specialist}</h3>
+              <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">
+                {profile
+                  ? [roleLabel(profile.role), profile.license && `Céd. ${profile.license}`, profile.aliases.length > 0 && `${profile.aliases.length} alias`].filter(Boolean).join(' · ') || 'Ficha sin datos'
+                  : 'Sin ficha en directorio'}
+                {' · '}Estudios con los filtros activos del tablero
+              </p>
+            </div>
+          </div>
+          <div className="flex items-center gap-2">
+            <button onClick={() => onExport('excel')} disabled={records.length === 0} className={exportButtonClass}>
+              <FileSpreadsheet size={14} className="text-[#02a58d]" /> Excel
+            </button>
+            <button onClick={() => onExport('pdf')} disabled={records.length === 0} className={exportButtonClass}>
+              <FileDown size={14} className="text-[#ff4d63]" /> PDF
+            </button>
+            <button onClick={() => onExport('word')} disabled={records.length === 0} className={exportButtonClass}>
+              <Download size={14} className="text-[#02a58d]" /> Word
+            </button>
+            <button onClick={onClose} className="ml-2 p-2 rounded-xl hover:bg-slate-100 text-slate-400 hover:text-[#252525] transition-all">
+              <X size={20} />
+            </button>
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto">
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-6 px-10 py-6 border-b border-slate-100">
+            {kpis.map(kpi => (
+              <div key={kpi.label}>
+                <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">{kpi.label}</p>
+                <p className="text-2xl font-black text-[#252525] mt-2 flex items-center gap-2">
+                  {kpi.value}
+                  {kpi.delta && <DeltaBadge delta={kpi.delta} />}
+                </p>
+              </div>
+            ))}
+          </div>
+
+          {records.length > 0 && (
+            <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 px-10 py-6 border-b border-slate-100">
+              <div className="h-56">
+                <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest mb-2">Modalidades</p>
+                <ResponsiveContainer width="100%" height="90%">
+                  <PieChart>
+                    <Pie data={modalityStats} dataKey="value" nameKey="name" innerRadius="45%" outerRadius="80%" paddingAngle={2}>
+                      {modalityStats.map((point, index) => (
+                        <Cell key={point.name} fill={CHART_COLORS[index % CHART_COLORS.length]} />
+                      ))}
+                    </Pie>
+                    <Tooltip contentStyle={tooltipStyle} formatter={(value: number, name: string) => [value, modalityName(name, modalities)]} />
+                    <Legend wrapperStyle={{ fontSize: 11, fontWeight: 800 }} />
+                  </PieChart>
+                </ResponsiveContainer>
+              </div>
+              <div className="h-56">
+                <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest mb-2">Subcategorías</p>
+                <ResponsiveContainer width="100%" height="90%">
+                  <BarChart data={subcategoryStats} layout="vertical" margin={{ left: 16 }}>
+                    <CartesianGrid strokeDasharray="3 3" horizontal={false} stroke="#f1f5f9" />
+                    <XAxis type="number" tick={axisTick} allowDecimals={false} />
+                    <YAxis type="category" dataKey="name" width={110} tick={axisTick} />
+                    <Tooltip contentStyle={tooltipStyle} cursor={{ fill: '#02a58d0d' }} />
+                    <Bar dataKey="value" name="Estudios" radius={[0, 6, 6, 0]}>
+                      {subcategoryStats.map(point => (
+                        <Cell key={point.name} fill={point.name === STANDARD_SUBCATEGORY ? '#cbd5e1' : '#ff4d63'} />
+                      ))}
+                    </Bar>
+                  </BarChart>
+                </ResponsiveContainer>
+              </div>
+              <div className="h-56">
+                <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest mb-2">
+                  Volumen {bucket === 'week' ? 'semanal' : 'diario'}
+                </p>
+                <ResponsiveContainer width="100%" height="90%">
+                  <BarChart data={series}>
+                    <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f1f5f9" />
+                    <XAxis dataKey="name" tick={axisTick} minTickGap={12} />
+                    <YAxis tick={axisTick} allowDecimals={false} />
+                    <Tooltip contentStyle={tooltipStyle} cursor={{ fill: '#02a58d0d' }} />
+                    <Bar dataKey="total" name="Estudios" fill="#02a58d" radius={[6, 6, 0, 0]} />
+                  </BarChart>
+                </ResponsiveContainer>
+              </div>
+            </div>
+          )}
+
+          <div className="overflow-x-auto">
+            <table className="w-full text-left border-collapse">
+              <thead className="bg-[#252525] text-[10px] font-black text-slate-300 uppercase tracking-[0.2em]">
+                <tr>
+                  {COLUMNS.map(col => (
+                    <th key={col.key} className={`px-5 py-4 ${col.align === 'center' ? 'text-center' : ''}`}>
+                      <button
+                        onClick={() => handleSort(col.key)}
+                        className={`inline-flex items-center gap-1 uppercase tracking-[0.2em] hover:text-white ${sort.key === col.key ? 'text-[#02a58d]' : ''}`}
+                      >
+                        {col.label}
+                        {sort.key === col.key && (sort.direction === 'asc' ? <ArrowUp size={11} /> : <ArrowDown size={11} />)}
+                      </button>
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100">
+                {pageRows.map((record, idx) => {
+                  const hours = getTurnaroundHours(record);
+                  return (
+                    <tr key={`${record.source}-${page}-${idx}`} className="hover:bg-[#02a58d]/5 transition-all text-xs">
+                      <td className="px-5 py-3 font-bold text-slate-500 whitespace-nowrap">{formatDate(record.fecha_realizado_ts, true) || record.fecha_realizado || '—'}</td>
+                      <td className="px-5 py-3 font-black text-[#252525]">{record.descripcion}</td>
+                      <td
+                        className={`px-5 py-3 font-bold text-slate-500 ${record.regionInferred ? 'italic' : ''}`}
+                        title={record.regionInferred ? 'Deducida de la descripción' : undefined}
+                      >
+                        {record.bodyRegion}
+                      </td>
+                      <td className="px-5 py-3 text-center font-black text-[#252525]" title={modalityName(record.modalidad, modalities)}>{record.modalidad}</td>
+                      <td className={`px-5 py-3 text-[10px] font-black uppercase tracking-widest ${record.subcategory !== STANDARD_SUBCATEGORY ? 'text-[#ff4d63]' : 'text-slate-400'}`}>
+                        {record.subcategory}
+                      </td>
+                      <td className="px-5 py-3 font-bold text-slate-500 whitespace-nowrap">{formatDate(record.fecha_reporte_ts, true) || record.fecha_reporte || '—'}</td>
+                      <td className={`px-5 py-3 font-bold ${record.reportStage === 'final' ? 'text-slate-500' : 'text-[#ff4d63]'}`} title={record.estado_reporte}>{record.reportStatus}</td>
+                      <td className={`px-5 py-3 text-center font-black whitespace-nowrap ${hours !== null && hours > slaHours ? 'text-[#ff4d63]' : 'text-[#252525]'}`}>
+                        {hours === null ? '—' : formatHours(hours)}
+                      </td>
+                    </tr>
+                  );
+                })}
+                {records.length === 0 && (
+                  <tr>
+                    <td colSpan={COLUMNS.length} className="px-10 py-12 text-center text-xs font-bold text-slate-400 uppercase tracking-widest">
+                      Sin estudios con los filtros actuales
+                    </td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        </div>
+
+        <div className="px-10 py-4 border-t border-slate-100 flex items-center justify-between text-[10px] font-black text-slate-400 uppercase tracking-widest">
+          <span>
+            {sorted.length === 0
+              ? '0 estudios'
+              : `${page * STUDY_PAGE_SIZE + 1}–${Math.min((page + 1) * STUDY_PAGE_SIZE, sorted.length)} de ${sorted.length} estudios`}
+          </span>
+          <div className="flex items-center gap-2">
+            <button onClick={() => setPage(p => p - 1)} disabled={page === 0} className="p-1.5 rounded-lg border-2 border-slate-100 text-[#252525] hover:border-[#02a58d] disabled:opacity-30">
+              <ChevronLeft size={14} />
+            </button>
+            <span>Página {page + 1} de {pageCount}</span>
+            <button onClick={() => setPage(p => p + 1)} disabled={page >= pageCount - 1} className="p-1.5 rounded-lg border-2 border-slate-100 text-[#252525] hover:border-[#02a58d] disabled:opacity-30">
+              <ChevronRight size={14} />
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,208 @@
+import React, { useMemo, useState } from 'react';
+import { X, Plus, Trash2, Save, Merge, ArrowRight } from 'lucide-react';
+import { RadiologyRecord, SpecialistProfile, SpecialistRole } from '../types';
+import {
+  SPECIALIST_ROLES,
+  acceptSuggestion,
+  canonicalName,
+  compileDirectory,
+  newSpecialistId,
+  suggestSpecialistGroups,
+  validateDirectory
+} from '../utils/specialists';
+
+interface SpecialistDirectoryProps {
+  profiles: SpecialistProfile[];
+  data: RadiologyRecord[];   // Para sugerir grupos y listar los nombres sin ficha
+  onSave: (profiles: SpecialistProfile[]) => void;
+  onClose: () => void;
+}
+
+const inputClass = "w-full bg-slate-50 border-2 border-slate-100 rounded-xl px-3 py-2 text-xs font-bold text-[#252525] focus:border-[#02a58d] transition-all";
+
+// Los alias se separan con ";" porque algunos RIS escriben "APELLIDO, NOMBRE"
+const toAliasText = (aliases: string[]) => aliases.join('; ');
+const fromAliasText = (text: string) => text.split(';').map(a => a.trim()).filter(Boolean);
+
+type DraftProfile = SpecialistProfile & { aliasText: string };
+
+const toDraft = (profiles: SpecialistProfile[]): DraftProfile[] =>
+  profiles.map(p => ({ ...p, aliasText: toAliasText(p.aliases) }));
+
+export default function SpecialistDirectory({ profiles, data, onSave, onClose }: SpecialistDirectoryProps) {
+  const [draft, setDraft] = useState<DraftProfile[]>(() => toDraft(profiles));
+
+  const toProfiles = (): SpecialistProfile[] =>
+    draft.map(({ aliasText, ...p }) => ({ ...p, name: p.name.trim(), license: p.license.trim(), aliases: fromAliasText(aliasText) }));
+
+  const current = toProfiles();
+  const error = validateDirectory(current);
+  const suggestions = useMemo(() => (error ? [] : suggestSpecialistGroups(data, current)), [data, draft]);
+  const unassigned = useMemo(() => {
+    if (error) return [];
+    const lookup = compileDirectory(current);
+    const counts = new Map<string, number>();
+    data.forEach(r => {
+      if (r.specialistOriginal && !lookup(r.specialistOriginal)) counts.set(r.specialistOriginal, (counts.get(r.specialistOriginal) || 0) + 1);
+    });
+    return Array.from(counts, ([name, count]) => ({ name, count })).sort((a, b) => a.name.localeCompare(b.name));
+  }, [data, draft]);
+
+  const update = (index: number, patch: Partial<DraftProfile>) => {
+    setDraft(prev => prev.map((p, i) => (i === index ? { ...p, ...patch } : p)));
+  };
+
+  // Unión manual: el nombre del archivo pasa a ser alias de la ficha elegida, o abre una ficha nueva
+  const assign = (name: string, profileId: string) => {
+    if (profileId === 'new') {
+      setDraft(prev => [...prev, { id: newSpecialistId(), name: canonicalName(name), aliases: [], aliasText: name, license: '', role: null }]);
+      return;
+    }
+    setDraft(prev => prev.map(p => (p.id === profileId
+      ? { ...p, aliasText: toAliasText([...fromAliasText(p.aliasText), name]) }
+      : p)));
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] bg-[#252525]/70 backdrop-blur-sm flex items-center justify-center p-8">
+      <div className="bg-white rounded-[2.5rem] shadow-2xl w-full max-w-5xl max-h-full flex flex-col overflow-hidden">
+        <div className="px-10 py-6 border-b border-slate-100 flex items-center justify-between bg-slate-50/30">
+          <div className="flex items-center gap-4">
+            <div className="w-2 h-8 bg-[#02a58d] rounded-full"></div>
+            <div>
+              <h3 className="text-lg font-black text-[#252525] uppercase tracking-wider">Directorio de Especialistas</h3>
+              <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">Los alias se comparan sin tildes, títulos ni orden de palabras · se guarda en este navegador</p>
+            </div>
+          </div>
+          <button onClick={onClose} className="p-2 rounded-xl hover:bg-slate-100 text-slate-400 hover:text-[#252525] transition-all">
+            <X size={20} />
+          </button>
+        </div>
+
+        {error && (
+          <div className="px-10 py-3 bg-[#ff4d63]/10 text-[#ff4d63] text-xs font-black">{error}</div>
+        )}
+
+        <div className="flex-1 overflow-y-auto">
+          {suggestions.length > 0 && (
+            <div className="px-10 py-5 border-b border-slate-100 space-y-3 bg-[#02a58d]/5">
+              <p className="text-[10px] font-black uppercase tracking-widest text-[#02a58d]">Posibles nombres repetidos ({suggestions.length})</p>
+              {suggestions.map(s => {
+                const target = s.profileId ? current.find(p => p.id === s.profileId)?.name : canonicalName(s.names[0].name);
+                return (
+                  <div key={s.names.map(n => n.name).join('|')} className="flex flex-wrap items-center gap-2">
+                    {s.names.map(n => (
+                      <span key={n.name} className="px-3 py-1 rounded-xl bg-white border-2 border-slate-100 text-[10px] font-black text-[#252525]">
+                        {n.name} <span className="text-slate-400">({n.count})</span>
+                      </span>
+                    ))}
+                    <ArrowRight size={14} className="text-slate-400" />
+                    <span className="text-[10px] font-black text-[#252525] uppercase tracking-widest">
+                      {target}{s.profileId ? '' : ' (nueva ficha)'}
+                    </span>
+                    <button
+                      onClick={() => setDraft(toDraft(acceptSuggestion(current, s)))}
+                      className="ml-auto flex items-center gap-1 px-3 py-1.5 rounded-xl bg-[#02a58d] text-white text-[10px] font-black uppercase tracking-widest"
+                    >
+                      <Merge size={12} /> Unir
+                    </button>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+
+          <div className="px-10 py-4 border-b border-slate-100 flex items-center gap-3">
+            <button
+              onClick={() => setDraft(prev => [...prev, { id: newSpecialistId(), name: '', aliases: [], aliasText: '', license: '', role: null }])}
+              className="flex items-center gap-2 px-4 py-2 rounded-xl bg-[#02a58d] text-white text-[10px] font-black uppercase tracking-widest"
+            >
+              <Plus size={14} /> Agregar ficha
+            </button>
+          </div>
+
+          <table className="w-full text-left border-collapse">
+            <thead className="bg-[#252525] text-[10px] font-black text-slate-300 uppercase tracking-[0.2em]">
+              <tr>
+                <th className="px-6 py-4">Nombre</th>
+                <th className="px-3 py-4 w-44">Rol</th>
+                <th className="px-3 py-4 w-36">Cédula</th>
+                <th className="px-3 py-4">Alias (separados por ;)</th>
+                <th className="px-6 py-4 w-16"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {draft.map((p, index) => (
+                <tr key={p.id} className="hover:bg-[#02a58d]/5">
+                  <td className="px-6 py-2">
+                    <input value={p.name} onChange={(e) => update(index, { name: e.target.value })} placeholder="Ej. PEREZ JUAN" className={inputClass} />
+                  </td>
+                  <td className="px-3 py-2">
+                    <select
+                      value={p.role || ''}
+                      onChange={(e) => update(index, { role: (e.target.value || null) as SpecialistRole | null })}
+                      className={inputClass}
+                    >
+                      <option value="">Sin rol</option>
+                      {SPECIALIST_ROLES.map(r => <option key={r.key} value={r.key}>{r.label}</option>)}
+                    </select>
+                  </td>
+                  <td className="px-3 py-2">
+                    <input value={p.license} onChange={(e) => update(index, { license: e.target.value })} placeholder="Opcional" className={inputClass} />
+                  </td>
+                  <td className="px-3 py-2">
+                    <input value={p.aliasText} onChange={(e) => update(index, { aliasText: e.target.value })} placeholder="Ej. DR. PEREZ JUAN; PEREZ, JUAN" className={inputClass} />
+                  </td>
+                  <td className="px-6 py-2 text-right">
+                    <button onClick={() => setDraft(prev => prev.filter((_, i) => i !== index))} className="p-1.5 rounded-lg text-slate-400 hover:bg-[#ff4d63]/10 hover:text-[#ff4d63]"><Trash2 size={14} /></button>
+                  </td>
+                </tr>
+              ))}
+              {draft.length === 0 && (
+                <tr>
+                  <td colSpan={5} className="px-10 py-10 text-center text-xs font-bold text-slate-400 uppercase tracking-widest">
+                    Sin fichas: los especialistas se agrupan tal como vienen en el archivo
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+
+          {unassigned.length > 0 && (
+            <div className="px-10 py-5 border-t border-slate-100 space-y-2">
+              <p className="text-[10px] font-black uppercase tracking-widest text-slate-400">Nombres del archivo sin ficha ({unassigned.length})</p>
+              {unassigned.map(u => (
+                <div key={u.name} className="flex items-center justify-between gap-4">
+                  <span className="text-xs font-bold text-[#252525] truncate">{u.name} <span className="text-slate-400">({u.count})</span></span>
+                  <select value="" onChange={(e) => e.target.value && assign(u.name, e.target.value)} className={`${inputClass} max-w-xs`}>
+                    <option value="">Asignar a…</option>
+                    <option value="new">Nueva ficha</option>
+                    {current.filter(p => p.name).map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+                  </select>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div className="px-10 py-5 border-t border-slate-100 flex items-center justify-between bg-slate-50/30">
+          <span className="text-[10px] font-black uppercase tracking-widest text-slate-400">
+            {draft.length} fichas · {unassigned.length} nombres sin ficha
+          </span>
+          <div className="flex items-center gap-3">
+            <button onClick={onClose} className="px-6 py-3 rounded-2xl text-xs font-black uppercase tracking-widest text-slate-400 hover:text-[#252525]">
+              Cancelar
+            </button>
+            <button
+              onClick={() => onSave(current)}
+              disabled={error !== null}
+              className="flex items-center gap-2 bg-gradient-to-r from-[#02a58d] to-[#018470] text-white px-6 py-3 rounded-2xl text-xs font-black uppercase tracking-widest disabled:opacity-30"
+            >
+              <Save size={14} /> Guardar
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
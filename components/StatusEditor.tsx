@@ -0,0 +1,160 @@
+import React, { useState } from 'react';
+import { X, Plus, Trash2, ArrowUp, ArrowDown, RotateCcw, Save } from 'lucide-react';
+import { ReportStage, ReportStatusDefinition } from '../types';
+import { DEFAULT_STATUSES, REPORT_STAGES, validateStatuses } from '../utils/reportStatus';
+import { normalize } from '../utils/normalize';
+
+interface StatusEditorProps {
+  statuses: ReportStatusDefinition[];
+  unmapped: { value: string; count: number }[];   // Valores de los datos que no coinciden con el vocabulario
+  onSave: (statuses: ReportStatusDefinition[]) => void;
+  onClose: () => void;
+}
+
+const inputClass = "w-full bg-slate-50 border-2 border-slate-100 rounded-xl px-3 py-2 text-xs font-bold text-[#252525] focus:border-[#02a58d] transition-all";
+
+// Los alias se editan como texto libre y se normalizan al guardar
+const toAliasText = (aliases: string[]) => aliases.join(', ');
+const fromAliasText = (text: string) => text.split(',').map(normalize).filter(Boolean);
+
+export default function StatusEditor({ statuses, unmapped, onSave, onClose }: StatusEditorProps) {
+  const [draft, setDraft] = useState(() => statuses.map(s => ({ ...s, aliasText: toAliasText(s.aliases) })));
+
+  const toDefinitions = (): ReportStatusDefinition[] =>
+    draft.map(({ aliasText, ...s }) => ({ ...s, code: normalize(s.code), aliases: fromAliasText(aliasText) }));
+
+  const error = validateStatuses(toDefinitions());
+  const configured = new Set(toDefinitions().flatMap(s => [s.code, ...s.aliases]));
+  const pendingValues = unmapped.filter(u => !configured.has(u.value));
+
+  const update = (index: number, patch: Partial<(typeof draft)[number]>) => {
+    setDraft(prev => prev.map((s, i) => (i === index ? { ...s, ...patch } : s)));
+  };
+
+  const move = (index: number, delta: number) => {
+    setDraft(prev => {
+      const target = index + delta;
+      if (target < 0 || target >= prev.length) return prev;
+      const next = [...prev];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  };
+
+  const addStatus = (code: string = '') =>
+    setDraft(prev => [...prev, { code, stage: 'pending' as ReportStage, aliases: [], aliasText: '' }]);
+
+  return (
+    <div className="fixed inset-0 z-[100] bg-[#252525]/70 backdrop-blur-sm flex items-center justify-center p-8">
+      <div className="bg-white rounded-[2.5rem] shadow-2xl w-full max-w-4xl max-h-full flex flex-col overflow-hidden">
+        <div className="px-10 py-6 border-b border-slate-100 flex items-center justify-between bg-slate-50/30">
+          <div className="flex items-center gap-4">
+            <div className="w-2 h-8 bg-[#02a58d] rounded-full"></div>
+            <div>
+              <h3 className="text-lg font-black text-[#252525] uppercase tracking-wider">Estados de Reporte</h3>
+              <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">Se comparan sin tildes ni mayúsculas · los no configurados cuentan como pendientes</p>
+            </div>
+          </div>
+          <button onClick={onClose} className="p-2 rounded-xl hover:bg-slate-100 text-slate-400 hover:text-[#252525] transition-all">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="px-10 py-4 border-b border-slate-100 flex flex-wrap items-center gap-3">
+          <button
+            onClick={() => addStatus()}
+            className="flex items-center gap-2 px-4 py-2 rounded-xl bg-[#02a58d] text-white text-[10px] font-black uppercase tracking-widest"
+          >
+            <Plus size={14} /> Agregar
+          </button>
+          <button
+            onClick={() => setDraft(DEFAULT_STATUSES.map(s => ({ ...s, aliasText: toAliasText(s.aliases) })))}
+            className="flex items-center gap-2 px-4 py-2 rounded-xl border-2 border-[#ff4d63]/20 text-[#ff4d63] text-[10px] font-black uppercase tracking-widest hover:bg-[#ff4d63]/5"
+          >
+            <RotateCcw size={14} /> Predeterminados
+          </button>
+        </div>
+
+        {pendingValues.length > 0 && (
+          <div className="px-10 py-3 border-b border-slate-100 flex flex-wrap items-center gap-2">
+            <span className="text-[10px] font-black uppercase tracking-widest text-slate-400 mr-1">Sin configurar en los datos:</span>
+            {pendingValues.map(u => (
+              <button
+                key={u.value}
+                onClick={() => addStatus(u.value)}
+                title="Agregar como estado"
+                className="px-3 py-1 rounded-xl border-2 border-slate-100 text-[10px] font-black text-[#252525] hover:border-[#02a58d]"
+              >
+                {u.value} <span className="text-slate-400">({u.count})</span>
+              </button>
+            ))}
+          </div>
+        )}
+
+        {error && (
+          <div className="px-10 py-3 bg-[#ff4d63]/10 text-[#ff4d63] text-xs font-black">{error}</div>
+        )}
+
+        <div className="flex-1 overflow-y-auto">
+          <table className="w-full text-left border-collapse">
+            <thead className="bg-[#252525] text-[10px] font-black text-slate-300 uppercase tracking-[0.2em] sticky top-0">
+              <tr>
+                <th className="px-6 py-4 w-48">Estado</th>
+                <th className="px-3 py-4 w-40">Etapa</th>
+                <th className="px-3 py-4">Alias</th>
+                <th className="px-6 py-4 w-32"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {draft.map((s, index) => (
+                <tr key={index} className="hover:bg-[#02a58d]/5">
+                  <td className="px-6 py-2">
+                    <input value={s.code} onChange={(e) => update(index, { code: e.target.value.toUpperCase() })} placeholder="Ej. FIRMADO" className={inputClass} />
+                  </td>
+                  <td className="px-3 py-2">
+                    <select value={s.stage} onChange={(e) => update(index, { stage: e.target.value as ReportStage })} className={inputClass}>
+                      {REPORT_STAGES.map(stage => <option key={stage.key} value={stage.key}>{stage.label}</option>)}
+                    </select>
+                  </td>
+                  <td className="px-3 py-2">
+                    <input
+                      value={s.aliasText}
+                      onChange={(e) => update(index, { aliasText: e.target.value.toUpperCase() })}
+                      placeholder="Ej. SIGNED, FINALIZADO"
+                      className={inputClass}
+                    />
+                  </td>
+                  <td className="px-6 py-2">
+                    <div className="flex items-center gap-1 justify-end text-slate-400">
+                      <button onClick={() => move(index, -1)} className="p-1.5 rounded-lg hover:bg-slate-100 hover:text-[#252525]"><ArrowUp size={14} /></button>
+                      <button onClick={() => move(index, 1)} className="p-1.5 rounded-lg hover:bg-slate-100 hover:text-[#252525]"><ArrowDown size={14} /></button>
+                      <button onClick={() => setDraft(prev => prev.filter((_, i) => i !== index))} className="p-1.5 rounded-lg hover:bg-[#ff4d63]/10 hover:text-[#ff4d63]"><Trash2 size={14} /></button>
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="px-10 py-5 border-t border-slate-100 flex items-center justify-between bg-slate-50/30">
+          <span className="text-[10px] font-black uppercase tracking-widest text-slate-400">
+            {draft.length} estados · el orden define las columnas
+          </span>
+          <div className="flex items-center gap-3">
+            <button onClick={onClose} className="px-6 py-3 rounded-2xl text-xs font-black uppercase tracking-widest text-slate-400 hover:text-[#252525]">
+              Cancelar
+            </button>
+            <button
+              onClick={() => onSave(toDefinitions())}
+              disabled={error !== null || draft.length === 0}
+              className="flex items-center gap-2 bg-gradient-to-r from-[#02a58d] to-[#018470] text-white px-6 py-3 rounded-2xl text-xs font-black uppercase tracking-widest disabled:opacity-30"
+            >
+              <Save size={14} /> Guardar
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
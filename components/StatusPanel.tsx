@@ -0,0 +1,169 @@
+import React, { useMemo, useState } from 'react';
+import { ClipboardList, Hourglass, FileSpreadsheet, AlertTriangle } from 'lucide-react';
+import { RadiologyRecord } from '../types';
+import { getStatusBreakdown, getBacklog, stageLabel, AGE_BUCKETS } from '../utils/reportStatus';
+import { formatDate } from '../utils/dateParser';
+
+interface StatusPanelProps {
+  data: RadiologyRecord[];
+  order: string[];                       // Estados en el orden del vocabulario (statusOrder)
+  unmapped: { value: string; count: number }[];   // Estados fuera del vocabulario (cuentan como pendientes)
+  onExportPending: () => void;
+}
+
+type Dimension = 'specialist' | 'modality';
+
+const DIMENSIONS: { key: Dimension; label: string; keyOf: (r: RadiologyRecord) => string }[] = [
+  { key: 'specialist', label: 'Especialista', keyOf: r => (r.realizado_por || 'SIN ASIGNAR').trim() },
+  { key: 'modality', label: 'Modalidad', keyOf: r => (r.modalidad || 'N/A').trim().toUpperCase() }
+];
+
+// Los tramos más antiguos se resaltan en rojo
+const bucketClass = (index: number, count: number) => {
+  if (count === 0) return 'text-slate-300';
+  return index >= AGE_BUCKETS.length - 2 ? 'text-[#ff4d63] bg-[#ff4d63]/10' : 'text-[#252525] bg-slate-100';
+};
+
+export default function StatusPanel({ data, order, unmapped, onExportPending }: StatusPanelProps) {
+  const [dimension, setDimension] = useState<Dimension>('specialist');
+  const { keyOf, label } = DIMENSIONS.find(d => d.key === dimension)!;
+
+  const rows = useMemo(() => getStatusBreakdown(data, order, keyOf), [data, order, keyOf]);
+  // Solo columnas con estudios en los datos filtrados
+  const columns = order.filter(code => rows.some(r => r.counts[code] > 0));
+  const backlog = useMemo(() => getBacklog(data), [data]);
+
+  return (
+    <div className="bg-white rounded-[3rem] border border-slate-200 shadow-2xl overflow-hidden">
+      <div className="px-10 py-8 border-b border-slate-100 flex flex-wrap items-center justify-between gap-4 bg-slate-50/30">
+        <div className="flex items-center gap-4">
+          <div className="w-2 h-8 bg-[#02a58d] rounded-full"></div>
+          <h3 className="text-lg font-black text-[#252525] uppercase tracking-wider">Estado de Reportes</h3>
+        </div>
+        <div className="flex items-center gap-4">
+          <div className="flex bg-slate-100 rounded-2xl p-1">
+            {DIMENSIONS.map(d => (
+              <button
+                key={d.key}
+                onClick={() => setDimension(d.key)}
+                className={`px-4 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest transition-all ${dimension === d.key ? 'bg-[#252525] text-white shadow' : 'text-slate-400 hover:text-[#252525]'}`}
+              >
+                {d.label}
+              </button>
+            ))}
+          </div>
+          <ClipboardList size={22} className="text-[#02a58d]" />
+        </div>
+      </div>
+
+      {unmapped.length > 0 && (
+        <div className="px-10 py-3 bg-[#ff4d63]/10 text-[#ff4d63] text-[10px] font-black uppercase tracking-widest flex items-center gap-2">
+          <AlertTriangle size={14} />
+          {unmapped.reduce((acc, u) => acc + u.count, 0)} estudios con estados sin configurar ({unmapped.map(u => u.value).join(', ')}) cuentan como pendientes · revísalos en Estados de Reporte
+        </div>
+      )}
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-left border-collapse">
+          <thead className="bg-[#252525] text-[11px] font-black text-slate-300 uppercase tracking-[0.25em]">
+            <tr>
+              <th className="px-10 py-5">{label}</th>
+              <th className="px-6 py-5 text-center">Total</th>
+              {columns.map(code => <th key={code} className="px-6 py-5 text-center whitespace-nowrap">{code}</th>)}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100">
+            {rows.map(row => (
+              <tr key={row.key} className="hover:bg-[#02a58d]/5 transition-all">
+                <td className="px-10 py-4 text-sm font-black text-[#252525]">{row.key}</td>
+                <td className="px-6 py-4 text-center text-sm font-black text-[#252525]">{row.total}</td>
+                {columns.map(code => (
+                  <td key={code} className={`px-6 py-4 text-center text-sm font-bold ${row.counts[code] > 0 ? 'text-[#252525]' : 'text-slate-300'}`}>
+                    {row.counts[code] || 0}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="px-10 py-8 border-t border-slate-100 space-y-6">
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <div className="flex items-center gap-3">
+            <Hourglass size={18} className="text-[#ff4d63]" />
+            <div>
+              <h4 className="text-sm font-black text-[#252525] uppercase tracking-wider">Trabajo Pendiente</h4>
+              <p className="text-[9px] font-bold text-slate-400 uppercase tracking-widest">
+                Sin firma final · antigüedad desde FECHA REALIZADO al {formatDate(backlog.asOf, true)}
+              </p>
+            </div>
+          </div>
+          <button
+            onClick={onExportPending}
+            disabled={backlog.items.length === 0}
+            className="flex items-center gap-2 px-4 py-2 rounded-xl border-2 border-slate-100 text-[10px] font-black uppercase tracking-widest text-[#252525] hover:border-[#02a58d] disabled:opacity-30"
+          >
+            <FileSpreadsheet size={14} className="text-[#02a58d]" /> Exportar pendientes
+          </button>
+        </div>
+
+        {backlog.items.length === 0 ? (
+          <p className="text-xs font-bold text-[#02a58d] uppercase tracking-widest">Todos los estudios filtrados tienen reporte final</p>
+        ) : (
+          <>
+            <div className="grid grid-cols-2 md:grid-cols-6 gap-4">
+              <div>
+                <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Pendientes</p>
+                <p className="text-2xl font-black text-[#ff4d63] mt-1">{backlog.items.length}</p>
+              </div>
+              {AGE_BUCKETS.map((bucket, index) => (
+                <div key={bucket.label}>
+                  <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">{bucket.label}</p>
+                  <p className={`text-2xl font-black mt-1 ${index >= AGE_BUCKETS.length - 2 && backlog.buckets[index] > 0 ? 'text-[#ff4d63]' : 'text-[#252525]'}`}>
+                    {backlog.buckets[index]}
+                  </p>
+                </div>
+              ))}
+            </div>
+
+            <div className="overflow-x-auto rounded-2xl border border-slate-100">
+              <table className="w-full text-left border-collapse">
+                <thead className="bg-slate-50 text-[10px] font-black text-slate-400 uppercase tracking-[0.2em]">
+                  <tr>
+                    <th className="px-6 py-3">Especialista</th>
+                    <th className="px-4 py-3 text-center">{stageLabel('preliminary')}</th>
+                    <th className="px-4 py-3 text-center">{stageLabel('pending')}</th>
+                    {AGE_BUCKETS.map(bucket => <th key={bucket.label} className="px-4 py-3 text-center whitespace-nowrap">{bucket.label}</th>)}
+                    <th className="px-4 py-3 text-center">Más antiguo</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-100">
+                  {backlog.bySpecialist.map(row => (
+                    <tr key={row.key} className="hover:bg-[#ff4d63]/5 text-xs">
+                      <td className="px-6 py-3 font-black text-[#252525]">{row.key}</td>
+                      <td className="px-4 py-3 text-center font-bold text-[#252525]">{row.preliminary}</td>
+                      <td className="px-4 py-3 text-center font-bold text-[#252525]">{row.pending}</td>
+                      {row.buckets.map((count, index) => (
+                        <td key={index} className="px-4 py-3 text-center">
+                          <span className={`font-black px-2 py-0.5 rounded-lg ${bucketClass(index, count)}`}>{count}</span>
+                        </td>
+                      ))}
+                      <td className="px-4 py-3 text-center font-black text-[#252525]">{row.oldestDays === null ? '—' : `${row.oldestDays} d`}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            {backlog.undated > 0 && (
+              <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">
+                {backlog.undated} pendientes sin fecha de realización válida (no se incluyen en los tramos)
+              </p>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
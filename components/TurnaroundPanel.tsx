@@ -0,0 +1,126 @@
+import React, { useState } from 'react';
+import { Clock, AlertTriangle } from 'lucide-react';
+import { TurnaroundStats, TurnaroundSummary } from '../types';
+import { formatHours } from '../utils/turnaround';
+
+interface TurnaroundPanelProps {
+  summary: TurnaroundSummary;
+  onSlaChange: (hours: number) => void;
+}
+
+type Dimension = 'bySpecialist' | 'byModality' | 'bySubcategory';
+
+const DIMENSIONS: { key: Dimension; label: string }[] = [
+  { key: 'bySpecialist', label: 'Especialista' },
+  { key: 'byModality', label: 'Modalidad' },
+  { key: 'bySubcategory', label: 'Subcategoría' }
+];
+
+export default function TurnaroundPanel({ summary, onSlaChange }: TurnaroundPanelProps) {
+  const [dimension, setDimension] = useState<Dimension>('bySpecialist');
+  const rows: TurnaroundStats[] = summary[dimension];
+  const { overall } = summary;
+
+  return (
+    <div className="bg-white rounded-[3rem] border border-slate-200 shadow-2xl overflow-hidden">
+      <div className="px-10 py-8 border-b border-slate-100 flex flex-wrap items-center justify-between gap-4 bg-slate-50/30">
+        <div className="flex items-center gap-4">
+          <div className="w-2 h-8 bg-[#ff4d63] rounded-full"></div>
+          <h3 className="text-lg font-black text-[#252525] uppercase tracking-wider">Tiempos de Reporte</h3>
+        </div>
+        <div className="flex items-center gap-4">
+          <div className="flex bg-slate-100 rounded-2xl p-1">
+            {DIMENSIONS.map(d => (
+              <button
+                key={d.key}
+                onClick={() => setDimension(d.key)}
+                className={`px-4 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest transition-all ${dimension === d.key ? 'bg-[#252525] text-white shadow' : 'text-slate-400 hover:text-[#252525]'}`}
+              >
+                {d.label}
+              </button>
+            ))}
+          </div>
+          <label className="flex items-center gap-2 text-[10px] font-black text-slate-400 uppercase tracking-widest">
+            SLA (h)
+            <input
+              type="number"
+              min={1}
+              value={summary.slaHours}
+              onChange={(e) => {
+                const value = Number(e.target.value);
+                if (value > 0) onSlaChange(value);
+              }}
+              className="w-20 bg-slate-50 border-2 border-slate-100 rounded-xl px-3 py-2 text-sm font-bold text-[#252525] focus:border-[#02a58d]"
+            />
+          </label>
+          <Clock size={22} className="text-[#02a58d]" />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-6 px-10 py-8 border-b border-slate-100">
+        {[
+          { label: 'Mediana', value: formatHours(overall.median) },
+          { label: 'P90', value: formatHours(overall.p90) },
+          { label: 'Máximo', value: formatHours(overall.max) },
+          { label: 'Fuera de SLA', value: `${overall.slaBreaches} / ${overall.count}` }
+        ].map(kpi => (
+          <div key={kpi.label}>
+            <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">{kpi.label}</p>
+            <p className="text-2xl font-black text-[#252525] mt-2">{kpi.value}</p>
+          </div>
+        ))}
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-left border-collapse">
+          <thead className="bg-[#252525] text-[11px] font-black text-slate-300 uppercase tracking-[0.25em]">
+            <tr>
+              <th className="px-10 py-5">{DIMENSIONS.find(d => d.key === dimension)?.label}</th>
+              <th className="px-6 py-5 text-center">Medidos</th>
+              <th className="px-6 py-5 text-center">Mediana</th>
+              <th className="px-6 py-5 text-center">P90</th>
+              <th className="px-6 py-5 text-center">Máximo</th>
+              <th className="px-6 py-5 text-center">Fuera SLA</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100">
+            {rows.map(row => (
+              <tr key={row.key} className="hover:bg-[#02a58d]/5 transition-all">
+                <td className="px-10 py-4 text-sm font-black text-[#252525]">{row.key}</td>
+                <td className="px-6 py-4 text-center text-sm font-bold text-slate-500">{row.count}</td>
+                <td className="px-6 py-4 text-center text-sm font-black text-[#252525]">{formatHours(row.median)}</td>
+                <td className="px-6 py-4 text-center text-sm font-bold text-[#252525]">{formatHours(row.p90)}</td>
+                <td className="px-6 py-4 text-center text-sm font-bold text-[#252525]">{formatHours(row.max)}</td>
+                <td className="px-6 py-4 text-center">
+                  <span className={`text-xs font-black px-3 py-1 rounded-full ${row.slaBreaches > 0 ? 'text-[#ff4d63] bg-[#ff4d63]/10' : 'text-[#02a58d] bg-[#02a58d]/10'}`}>
+                    {row.slaBreaches}
+                  </span>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {(summary.breaches.length > 0 || summary.unmeasured > 0) && (
+        <div className="px-10 py-6 bg-[#ff4d63]/5 border-t border-[#ff4d63]/10 space-y-3">
+          <div className="flex items-center gap-2 text-[#ff4d63]">
+            <AlertTriangle size={16} />
+            <span className="text-xs font-black uppercase tracking-widest">
+              {summary.breaches.length} estudios superan {summary.slaHours} h
+              {summary.unmeasured > 0 && ` · ${summary.unmeasured} sin fechas válidas`}
+            </span>
+          </div>
+          <ul className="max-h-48 overflow-y-auto divide-y divide-[#ff4d63]/10">
+            {summary.breaches.slice(0, 50).map(({ record, hours }, idx) => (
+              <li key={`${record.id_paciente}-${idx}`} className="flex items-center justify-between py-2 text-xs">
+                <span className="font-bold text-[#252525] truncate pr-4">{record.realizado_por} · {record.descripcion}</span>
+                <span className="font-black text-[#ff4d63] whitespace-nowrap">{formatHours(hours)}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
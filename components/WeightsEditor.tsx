@@ -0,0 +1,208 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { X, Plus, Trash2, Upload, Download, RotateCcw, Save, Search } from 'lucide-react';
+import { WeightTable } from '../types';
+import { DEFAULT_WEIGHT_TABLE, parseWeightsCsv, sanitizeWeightRule, validateWeightRule, weightsToCsv } from '../utils/weights';
+import { downloadBlob } from '../utils/download';
+
+interface WeightsEditorProps {
+  weights: WeightTable;
+  modalityCodes: string[];
+  subcategories: string[];
+  onSave: (weights: WeightTable) => void;
+  onClose: () => void;
+}
+
+const inputClass = "w-full bg-slate-50 border-2 border-slate-100 rounded-xl px-3 py-2 text-xs font-bold text-[#252525] focus:border-[#02a58d] transition-all";
+
+// El peso se edita como texto para aceptar coma decimal mientras se escribe
+type DraftRow = { description: string; modality: string; subcategory: string; weightText: string };
+
+const toDraft = (table: WeightTable): DraftRow[] =>
+  table.rules.map(r => ({ description: r.description, modality: r.modality, subcategory: r.subcategory, weightText: String(r.weight) }));
+
+const fromDraft = (row: DraftRow) => sanitizeWeightRule({
+  description: row.description,
+  modality: row.modality,
+  subcategory: row.subcategory,
+  weight: row.weightText.trim() === '' ? NaN : Number(row.weightText.replace(',', '.'))
+});
+
+export default function WeightsEditor({ weights, modalityCodes, subcategories, onSave, onClose }: WeightsEditorProps) {
+  const [draft, setDraft] = useState<DraftRow[]>(() => toDraft(weights));
+  const [defaultText, setDefaultText] = useState(String(weights.defaultWeight));
+  const [query, setQuery] = useState('');
+  const [importError, setImportError] = useState('');
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const rules = useMemo(() => draft.map(fromDraft), [draft]);
+  const errors = useMemo(() => rules.map(validateWeightRule), [rules]);
+  const defaultWeight = Number(defaultText.replace(',', '.'));
+  const defaultError = defaultText.trim() === '' || !Number.isFinite(defaultWeight) || defaultWeight < 0;
+  const errorCount = errors.filter(Boolean).length + (defaultError ? 1 : 0);
+
+  const visible = draft
+    .map((row, index) => ({ row, index }))
+    .filter(({ row }) => !query || `${row.description} ${row.modality} ${row.subcategory}`.toUpperCase().includes(query.toUpperCase()));
+
+  const update = (index: number, patch: Partial<DraftRow>) => {
+    setDraft(prev => prev.map((r, i) => (i === index ? { ...r, ...patch } : r)));
+  };
+
+  const handleImport = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onload = (e) => {
+      try {
+        setDraft(toDraft({ ...DEFAULT_WEIGHT_TABLE, rules: parseWeightsCsv(e.target?.result as string) }));
+        setQuery('');
+        setImportError('');
+      } catch (err) {
+        setImportError((err as Error).message);
+      }
+    };
+    reader.readAsText(file);
+    event.target.value = '';
+  };
+
+  const handleExport = () => {
+    downloadBlob(new Blob([weightsToCsv(rules)], { type: 'text/csv;charset=utf-8' }), `MedStats_Pesos_RVU_${new Date().getTime()}.csv`);
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] bg-[#252525]/70 backdrop-blur-sm flex items-center justify-center p-8">
+      <div className="bg-white rounded-[2.5rem] shadow-2xl w-full max-w-5xl max-h-full flex flex-col overflow-hidden">
+        <div className="px-10 py-6 border-b border-slate-100 flex items-center justify-between bg-slate-50/30">
+          <div className="flex items-center gap-4">
+            <div className="w-2 h-8 bg-[#02a58d] rounded-full"></div>
+            <div>
+              <h3 className="text-lg font-black text-[#252525] uppercase tracking-wider">Pesos de Productividad (RVU)</h3>
+              <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">Gana la fila más específica: descripción › modalidad + subcategoría › modalidad › subcategoría › por defecto</p>
+            </div>
+          </div>
+          <button onClick={onClose} className="p-2 rounded-xl hover:bg-slate-100 text-slate-400 hover:text-[#252525] transition-all">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="px-10 py-4 border-b border-slate-100 flex flex-wrap items-center gap-3">
+          <div className="relative flex-1 min-w-[200px]">
+            <input
+              type="text"
+              placeholder="Buscar descripción, modalidad o subcategoría..."
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              className={`${inputClass} pl-9`}
+            />
+            <Search className="absolute left-3 top-[10px] text-slate-400" size={14} />
+          </div>
+          <button
+            onClick={() => {
+              setQuery('');
+              setDraft(prev => [...prev, { description: '', modality: '*', subcategory: '*', weightText: '1' }]);
+            }}
+            className="flex items-center gap-2 px-4 py-2 rounded-xl bg-[#02a58d] text-white text-[10px] font-black uppercase tracking-widest"
+          >
+            <Plus size={14} /> Agregar
+          </button>
+          <button onClick={() => fileInput.current?.click()} className="flex items-center gap-2 px-4 py-2 rounded-xl border-2 border-slate-100 text-[#252525] text-[10px] font-black uppercase tracking-widest hover:border-[#02a58d]">
+            <Upload size={14} /> Importar CSV
+          </button>
+          <input ref={fileInput} type="file" accept=".csv,.txt,text/csv" className="hidden" onChange={handleImport} />
+          <button onClick={handleExport} className="flex items-center gap-2 px-4 py-2 rounded-xl border-2 border-slate-100 text-[#252525] text-[10px] font-black uppercase tracking-widest hover:border-[#02a58d]">
+            <Download size={14} /> Exportar CSV
+          </button>
+          <button
+            onClick={() => {
+              setDraft(toDraft(DEFAULT_WEIGHT_TABLE));
+              setDefaultText(String(DEFAULT_WEIGHT_TABLE.defaultWeight));
+            }}
+            className="flex items-center gap-2 px-4 py-2 rounded-xl border-2 border-[#ff4d63]/20 text-[#ff4d63] text-[10px] font-black uppercase tracking-widest hover:bg-[#ff4d63]/5"
+          >
+            <RotateCcw size={14} /> Vaciar
+          </button>
+          <label className="flex items-center gap-2 text-[10px] font-black text-slate-400 uppercase tracking-widest">
+            Peso por defecto
+            <input
+              value={defaultText}
+              onChange={(e) => setDefaultText(e.target.value)}
+              className={`${inputClass} w-20 ${defaultError ? 'border-[#ff4d63]' : ''}`}
+            />
+          </label>
+        </div>
+
+        {importError && (
+          <div className="px-10 py-3 bg-[#ff4d63]/10 text-[#ff4d63] text-xs font-black">{importError}</div>
+        )}
+
+        <datalist id="weight-modalities">
+          {['*', ...modalityCodes].map(code => <option key={code} value={code} />)}
+        </datalist>
+        <datalist id="weight-subcategories">
+          {['*', ...subcategories].map(sub => <option key={sub} value={sub} />)}
+        </datalist>
+
+        <div className="flex-1 overflow-y-auto">
+          <table className="w-full text-left border-collapse">
+            <thead className="bg-[#252525] text-[10px] font-black text-slate-300 uppercase tracking-[0.2em] sticky top-0">
+              <tr>
+                <th className="px-6 py-4">Descripción</th>
+                <th className="px-3 py-4 w-28">Modalidad</th>
+                <th className="px-3 py-4 w-40">Subcategoría</th>
+                <th className="px-3 py-4 w-24">Peso</th>
+                <th className="px-6 py-4 w-16"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {visible.map(({ row, index }) => (
+                <tr key={index} className="hover:bg-[#02a58d]/5 align-top">
+                  <td className="px-6 py-2">
+                    <input value={row.description} onChange={(e) => update(index, { description: e.target.value })} placeholder="Vacío = respaldo por modalidad/subcategoría" className={inputClass} />
+                    {errors[index] && <p className="text-[10px] font-bold text-[#ff4d63] mt-1">{errors[index]}</p>}
+                  </td>
+                  <td className="px-3 py-2">
+                    <input list="weight-modalities" value={row.modality} onChange={(e) => update(index, { modality: e.target.value.toUpperCase() })} className={inputClass} />
+                  </td>
+                  <td className="px-3 py-2">
+                    <input list="weight-subcategories" value={row.subcategory} onChange={(e) => update(index, { subcategory: e.target.value.toUpperCase() })} className={inputClass} />
+                  </td>
+                  <td className="px-3 py-2">
+                    <input value={row.weightText} onChange={(e) => update(index, { weightText: e.target.value })} className={inputClass} />
+                  </td>
+                  <td className="px-6 py-2 text-right">
+                    <button onClick={() => setDraft(prev => prev.filter((_, i) => i !== index))} className="p-1.5 rounded-lg text-slate-400 hover:bg-[#ff4d63]/10 hover:text-[#ff4d63]"><Trash2 size={14} /></button>
+                  </td>
+                </tr>
+              ))}
+              {draft.length === 0 && (
+                <tr>
+                  <td colSpan={5} className="px-10 py-12 text-center text-xs font-bold text-slate-400 uppercase tracking-widest">
+                    Sin filas: todos los estudios valen el peso por defecto
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="px-10 py-5 border-t border-slate-100 flex items-center justify-between bg-slate-50/30">
+          <span className="text-[10px] font-black uppercase tracking-widest text-slate-400">
+            {draft.length} filas{errorCount > 0 ? ` · ${errorCount} con errores` : ''}
+          </span>
+          <div className="flex items-center gap-3">
+            <button onClick={onClose} className="px-6 py-3 rounded-2xl text-xs font-black uppercase tracking-widest text-slate-400 hover:text-[#252525]">
+              Cancelar
+            </button>
+            <button
+              onClick={() => onSave({ defaultWeight, rules })}
+              disabled={errorCount > 0}
+              className="flex items-center gap-2 bg-gradient-to-r from-[#02a58d] to-[#018470] text-white px-6 py-3 rounded-2xl text-xs font-black uppercase tracking-widest disabled:opacity-30"
+            >
+              <Save size={14} /> Guardar
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
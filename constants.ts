@@ -72,7 +72,7 @@ export const CONTRASTADOS_PROCEDURES = [
   "ANGIOTAC DE TORAX CONTRASTADO"
 ];
 
-export const COLUMN_MAPPING: Record<string, keyof import('./types').RadiologyRecord> = {
+export const COLUMN_MAPPING: Record<string, import('./types').MappableField> = {
   "ID PACIENTE": "id_paciente",
   "NOMBRE PACIENTE": "nombre_paciente",
   "DESCRIPCIÓN": "descripcion",
@@ -10,12 +10,55 @@ export interface RadiologyRecord {
   estado_reporte: string;
   fecha_reporte: string;
   // Computed fields
-  subcategory: 'CONTRASTADOS' | 'ESPECIALES' | 'STANDARD';
+  fecha_realizado_ts: number | null;
+  fecha_reporte_ts: number | null;
+  subcategory: Subcategory;
+  classification: ClassificationTrace | null;   // null = ninguna regla coincidió (STANDARD)
+  weight: number;                               // Peso RVU según la tabla de pesos activa
+  reportStatus: string;                         // Estado canónico según el vocabulario configurado
+  reportStage: ReportStage;
+  specialistOriginal: string;                   // REALIZADO POR tal como venía en el archivo
+  bodyRegion: string;                           // Región canónica (columna REGIÓN o deducida de la descripción)
+  regionInferred: boolean;                      // true = deducida de la descripción
+  source: string;                               // Id del archivo (DataSource) de origen
+}
+
+// Explica qué regla produjo la subcategoría de un registro
+export interface ClassificationTrace {
+  ruleId: string;
+  matchType: RuleMatchType;
+  matched: string;            // Palabra clave, entrada de lista o regex que coincidió
+  modalityBranch: string;     // Modalidad de la regla ('*' = cualquiera)
+  keywordOverride: boolean;   // Regla de palabras clave comodín, con prioridad sobre las listas
+}
+
+// Descripción sin clasificar parecida a una entrada de lista (posible error de escritura)
+export interface NearMiss {
+  modality: string;
+  description: string;
+  count: number;
+  rule: ClassificationRule;   // Entrada de lista más parecida
+  score: number;              // Similitud 0-1
+}
+
+// Las subcategorías las define el conjunto de reglas activo; 'STANDARD' es el valor sin coincidencia
+export type Subcategory = string;
+
+export type RuleMatchType = 'contains' | 'exact' | 'regex' | 'keyword';
+
+// Regla de clasificación editable; se evalúan en orden y gana la primera que coincide
+export interface ClassificationRule {
+  id: string;
+  modality: string;          // Código de modalidad o '*' para cualquiera
+  matchType: RuleMatchType;
+  pattern: string;           // Para 'keyword', lista separada por comas
+  subcategory: Subcategory;
 }
 
 export interface SummaryBySpecialist {
   specialist: string;
   totalStudies: number;
+  weightedScore: number;   // Suma de pesos RVU
   modalities: Record<string, number>;
   subcategories: Record<string, number>;
 }
@@ -24,3 +67,384 @@ export interface ChartDataPoint {
   name: string;
   value: number;
 }
+
+export interface TurnaroundStats {
+  key: string;
+  count: number;        // Estudios con ambas fechas válidas
+  median: number;       // Horas
+  p90: number;          // Horas
+  max: number;          // Horas
+  slaBreaches: number;  // Estudios que superan el SLA
+}
+
+export interface TurnaroundBreach {
+  record: RadiologyRecord;
+  hours: number;
+}
+
+export interface TurnaroundSummary {
+  slaHours: number;
+  overall: TurnaroundStats;
+  bySpecialist: TurnaroundStats[];
+  byModality: TurnaroundStats[];
+  bySubcategory: TurnaroundStats[];
+  breaches: TurnaroundBreach[];
+  unmeasured: number;   // Registros sin fechas utilizables
+}
+
+// Columna del cuadro resumen: modalidad y subcategoría (null = resto de la modalidad)
+export interface MatrixColumn {
+  key: string;
+  label: string;
+  modality: string;
+  subcategory: Subcategory | null;
+}
+
+// Cuadro resumen especialista × modalidad/subcategoría compartido por los exportadores
+export interface ModalityMatrixRow {
+  name: string;
+  total: number;
+  weighted: number;                 // Suma de pesos RVU
+  counts: Record<string, number>;   // Por MatrixColumn.key
+}
+
+// Filtros activos del tablero; los exportadores reciben este mismo objeto
+export interface DashboardFilters {
+  specialist: string;   // 'All' = todos los especialistas
+  modality: string;     // 'All' = todas las modalidades
+  subcategory: string;  // 'All' = todas las subcategorías
+  region: string;       // 'All' = todas las regiones (RadiologyRecord.bodyRegion)
+  searchTerm: string;   // Consulta de búsqueda (ver utils/query.ts); un texto suelto busca paciente o descripción
+  dateFrom: string;     // YYYY-MM-DD (inclusive), '' = sin límite
+  dateTo: string;       // YYYY-MM-DD (inclusive), '' = sin límite
+}
+
+// Campos de la búsqueda avanzada ('text' = término suelto: paciente o descripción)
+export type QueryField = 'text' | 'desc' | 'mod' | 'sub' | 'region' | 'estado' | 'etapa' | 'esp' | 'paciente' | 'fecha' | 'tat' | 'rvu';
+export type QueryOperator = ':' | '>' | '>=' | '<' | '<=';
+
+// Consulta ya interpretada; los valores de una lista (mod:CT,MR) se combinan con OR
+export type QueryNode =
+  | { type: 'and' | 'or'; children: QueryNode[] }
+  | { type: 'not'; child: QueryNode }
+  | { type: 'term'; field: QueryField; op: QueryOperator; values: string[]; regex: RegExp | null };
+
+export interface SavedFilter {
+  id: string;
+  name: string;
+  filters: DashboardFilters;
+  createdAt: number;
+}
+
+// Agrupación de la serie de volumen
+export type VolumeBucket = 'day' | 'week';
+
+// Un punto de la serie de volumen; from/to en formato YYYY-MM-DD para aplicarlo como filtro de fechas
+export interface VolumePoint {
+  name: string;
+  from: string;
+  to: string;
+  total: number;
+  contrast: number;
+  contrastShare: number;   // Porcentaje 0-100
+}
+
+// Columnas ordenables de la lista de estudios del detalle por especialista
+export type StudySortKey =
+  | 'fecha_realizado_ts'
+  | 'descripcion'
+  | 'bodyRegion'
+  | 'modalidad'
+  | 'subcategory'
+  | 'fecha_reporte_ts'
+  | 'reportStatus'
+  | 'turnaround';
+
+export interface StudySort {
+  key: StudySortKey;
+  direction: 'asc' | 'desc';
+}
+
+export type ExportFormat = 'excel' | 'pdf' | 'word';
+
+// Bloque de firma opcional del jefe de departamento
+export interface ReportSignature {
+  name: string;
+  title: string;
+}
+
+export interface ReportOptions {
+  slaHours: number;
+  signature?: ReportSignature;
+  rules: ClassificationRule[];   // Conjunto activo: define las columnas de subcategoría
+  modalities: ModalityDefinition[];   // Orden y modalidades incluidas en los cuadros resumen
+  comparison?: PeriodComparison;      // Agrega la sección comparativa a los reportes
+  anonymized?: boolean;               // Modo privacidad: sin columnas de paciente y marcado en el reporte
+  statuses?: ReportStatusDefinition[];   // Orden de las columnas de estado
+  specialists?: SpecialistProfile[];     // Rol y cédula para los reportes
+}
+
+// Modo privacidad; la sal mantiene los seudónimos estables durante la sesión
+export interface PrivacySettings {
+  enabled: boolean;
+  salt: string;
+}
+
+/**
+ * Fila de la tabla de pesos (RVU). Con descripción aplica a esa descripción
+ * normalizada; sin descripción es un respaldo por modalidad y/o subcategoría
+ * ('*' = cualquiera).
+ */
+export interface WeightRule {
+  description: string;
+  modality: string;
+  subcategory: string;
+  weight: number;
+}
+
+export interface WeightTable {
+  defaultWeight: number;   // Para los estudios que no cubre ninguna fila
+  rules: WeightRule[];
+}
+
+// Periodo de una comparación: rango de fechas de realización ('' = sin límite) o un archivo cargado
+export type ComparePeriod =
+  | { kind: 'dates'; from: string; to: string }
+  | { kind: 'source'; sourceId: string };
+
+export interface CompareConfig {
+  current: ComparePeriod;
+  previous: ComparePeriod;
+}
+
+// Variación de un conteo; pct es null cuando el periodo de referencia no tiene estudios
+export interface Delta {
+  current: number;
+  previous: number;
+  diff: number;
+  pct: number | null;
+}
+
+export interface SpecialistDelta {
+  specialist: string;
+  total: Delta;
+  modalities: Record<string, Delta>;
+  subcategories: Record<string, Delta>;
+}
+
+export interface PeriodComparison {
+  currentLabel: string;
+  previousLabel: string;
+  total: Delta;
+  modalities: Record<string, Delta>;
+  subcategories: Record<string, Delta>;
+  bySpecialist: SpecialistDelta[];
+}
+
+// Modalidad DICOM configurable; el orden de la lista es el orden de columnas
+export interface ModalityDefinition {
+  code: string;
+  name: string;
+  included: boolean;
+  aliases: string[];   // Códigos que se cuentan como esta modalidad (ej. DX => CR)
+}
+
+export type SpecialistRole = 'adscrito' | 'residente' | 'externo';
+
+// Ficha del directorio: agrupa las variantes de nombre con que aparece un especialista
+export interface SpecialistProfile {
+  id: string;
+  name: string;                 // Nombre canónico para tablero y reportes
+  aliases: string[];            // Variantes de REALIZADO POR que se cuentan como este especialista
+  license: string;              // Cédula o número de registro ('' = sin dato)
+  role: SpecialistRole | null;
+}
+
+// Nombres del archivo que probablemente son la misma persona
+export interface SpecialistSuggestion {
+  names: { name: string; count: number }[];   // Más frecuente primero
+  profileId: string | null;                   // Ficha existente a la que se sumarían
+}
+
+// Dimensiones del explorador de pivotes: campos del registro y derivados de las fechas
+export type PivotDimension =
+  | 'none'
+  | 'specialist'
+  | 'modality'
+  | 'subcategory'
+  | 'region'
+  | 'reportStatus'
+  | 'reportStage'
+  | 'weekday'
+  | 'month'
+  | 'hour'
+  | 'turnaround';
+
+export type PivotMeasure = 'count' | 'weighted';
+
+export interface PivotConfig {
+  rows: PivotDimension;
+  columns: PivotDimension;
+  measure: PivotMeasure;
+}
+
+export interface PivotResult {
+  rowKeys: string[];
+  columnKeys: string[];
+  cells: Record<string, Record<string, number>>;   // cells[fila][columna]; sin entrada = 0
+  rowTotals: Record<string, number>;
+  columnTotals: Record<string, number>;
+  total: number;
+  max: number;                                     // Celda mayor, para la escala del mapa de calor
+}
+
+// Etapa del flujo de reporte; define qué estudios cuentan como trabajo pendiente
+export type ReportStage = 'final' | 'preliminary' | 'pending';
+
+// Estado de reporte con las variantes con que lo escribe cada versión del RIS
+export interface ReportStatusDefinition {
+  code: string;        // Estado canónico (ej. FIRMADO)
+  stage: ReportStage;
+  aliases: string[];   // Ej. SIGNED, FINALIZADO
+}
+
+// Conteo por estado canónico agrupado por especialista o modalidad
+export interface StatusBreakdownRow {
+  key: string;
+  total: number;
+  counts: Record<string, number>;
+}
+
+// Estudio sin reporte final con su antigüedad desde FECHA REALIZADO
+export interface BacklogItem {
+  record: RadiologyRecord;
+  ageDays: number | null;   // null = sin fecha de realización interpretable
+}
+
+export interface BacklogRow {
+  key: string;
+  total: number;
+  preliminary: number;
+  pending: number;
+  buckets: number[];        // Por tramo de AGE_BUCKETS
+  oldestDays: number | null;
+}
+
+export interface BacklogSummary {
+  asOf: number;
+  items: BacklogItem[];     // Más antiguos primero; sin fecha al final
+  buckets: number[];
+  bySpecialist: BacklogRow[];
+  undated: number;
+}
+
+// Formato de entrada: 'auto' detecta el delimitador; 'fixed' = columnas de ancho fijo
+export type InputDelimiter = 'auto' | '|' | ',' | ';' | '\t' | 'fixed';
+export type InputEncoding = 'auto' | 'utf-8' | 'windows-1252';
+
+export interface IngestOptions {
+  delimiter: InputDelimiter;
+  encoding: InputEncoding;
+}
+
+// Formato efectivo con el que se leyó el archivo
+export interface IngestFormat {
+  kind: 'delimited' | 'fixed' | 'excel';
+  delimiter?: string;
+  encoding?: string;
+  sheet?: string;
+}
+
+// Filas ya separadas, con las claves del encabezado original
+export interface IngestResult {
+  headers: string[];
+  rows: Record<string, string>[];
+  format: IngestFormat;
+  malformedRows?: number[];          // Filas (base 1, sin encabezado) con comillas sin cerrar o columnas de más o de menos
+}
+
+// Campos del archivo del RIS que se pueden asignar a una columna
+export type MappableField =
+  | 'id_paciente' | 'nombre_paciente' | 'descripcion' | 'region' | 'fecha_realizado'
+  | 'modalidad' | 'realizado_por' | 'estado_reporte' | 'fecha_reporte';
+
+// Campo interno => encabezado del archivo
+export type ColumnMapping = Partial<Record<MappableField, string>>;
+
+// Mapeo guardado por RIS/sede; se reutiliza cuando aparece la misma firma de encabezados
+export interface MappingProfile {
+  id: string;
+  name: string;
+  signature: string;
+  mapping: ColumnMapping;
+  updatedAt: number;
+}
+
+// Motivos por los que una fila del archivo no entra al tablero
+export type RejectReason = 'malformed_row' | 'missing_id' | 'disallowed_modality' | 'unparseable_date' | 'report_before_exam' | 'empty_specialist';
+
+export interface RejectedRow {
+  row: number;                       // Fila del archivo (base 1, sin encabezado)
+  reasons: RejectReason[];
+  record: RadiologyRecord;
+  raw: Record<string, string>;       // Fila original, para devolverla al equipo del RIS
+}
+
+// Resumen de calidad de una importación
+export interface ImportReport {
+  fileName: string;
+  rowsRead: number;
+  rowsKept: number;
+  byReason: Record<RejectReason, number>;
+  rejected: RejectedRow[];
+}
+
+// Archivo cargado en la sesión; se conservan las filas para poder reasignar columnas o reimportar
+export interface DataSource {
+  id: string;
+  fileName: string;
+  loadedAt: number;
+  input: IngestResult;
+  mapping: ColumnMapping;
+  profileName: string;
+  records: RadiologyRecord[];    // Filas aceptadas, antes de resolver duplicados entre archivos
+  report: ImportReport;
+}
+
+// Qué registro se conserva cuando varios describen el mismo estudio
+export type DuplicatePolicy = 'first' | 'last' | 'most_complete' | 'keep_all';
+
+export interface DuplicateGroup {
+  key: string;
+  copies: RadiologyRecord[];     // Todas las apariciones, en orden de carga
+  kept: RadiologyRecord[];       // Las que quedan en el tablero según la política
+}
+
+// Estado de trabajo que se guarda localmente (IndexedDB) y se restaura al abrir la aplicación
+export interface SessionState {
+  version: 1;
+  savedAt: number;
+  sources: DataSource[];
+  duplicatePolicy: DuplicatePolicy;
+  filters: DashboardFilters;
+  slaHours: number;
+  signature: ReportSignature;
+  ingestOptions: IngestOptions;
+  rules: ClassificationRule[];
+  modalities: ModalityDefinition[];
+  compare?: CompareConfig | null;   // Ausente en sesiones guardadas antes del modo comparativo
+  weights?: WeightTable;            // Ausente en sesiones guardadas antes de los pesos RVU
+  privacy?: PrivacySettings;
+  statuses?: ReportStatusDefinition[];   // Ausente en sesiones guardadas antes del vocabulario de estados
+  specialists?: SpecialistProfile[];     // Ausente en sesiones guardadas antes del directorio
+  pivot?: PivotConfig;
+}
+
+// Datos de un snapshot guardado, sin el contenido, para listarlos rápido
+export interface SnapshotMeta {
+  id: string;
+  name: string;
+  createdAt: number;
+  studyCount: number;
+  fileNames: string[];
+}
@@ -0,0 +1,154 @@
+import { ClassificationRule, ClassificationTrace, RuleMatchType, Subcategory } from '../types';
+import { CONTRASTADOS_PROCEDURES, ESPECIALES_PROCEDURES } from '../constants';
+import { normalize } from './normalize';
+
+const STORAGE_KEY = 'medstats.classificationRules.v1';
+
+export const MATCH_TYPES: { value: RuleMatchType; label: string }[] = [
+  { value: 'contains', label: 'Contiene' },
+  { value: 'exact', label: 'Exacto' },
+  { value: 'regex', label: 'Regex' },
+  { value: 'keyword', label: 'Palabras clave' }
+];
+
+// Valor asignado cuando ninguna regla coincide
+export const STANDARD_SUBCATEGORY: Subcategory = 'STANDARD';
+
+// Etiquetas cortas históricas para las columnas del cuadro resumen; el resto usa el nombre completo
+const SHORT_LABELS: Record<string, string> = {
+  CONTRASTADOS: 'Cont',
+  ESPECIALES: 'Esp',
+  [STANDARD_SUBCATEGORY]: 'Std'
+};
+
+export const subcategoryShortLabel = (subcategory: Subcategory) =>
+  SHORT_LABELS[subcategory] ?? subcategory.charAt(0) + subcategory.slice(1).toLowerCase();
+
+// Sufijo de la modalidad en los listados de detalle, ej. "CT (CONTRASTE)"
+export const subcategoryTag = (subcategory: Subcategory) => {
+  if (subcategory === STANDARD_SUBCATEGORY) return '';
+  if (subcategory === 'CONTRASTADOS') return ' (CONTRASTE)';
+  if (subcategory === 'ESPECIALES') return ' (ESPECIAL)';
+  return ` (${subcategory})`;
+};
+
+// Subcategorías definidas por las reglas, en orden de aparición, con STANDARD al final
+export const getSubcategories = (rules: ClassificationRule[]): Subcategory[] => {
+  const seen = new Set<Subcategory>();
+  rules.forEach(r => {
+    if (r.subcategory && r.subcategory !== STANDARD_SUBCATEGORY) seen.add(r.subcategory);
+  });
+  return [...Array.from(seen), STANDARD_SUBCATEGORY];
+};
+
+export const newRuleId = () => `r_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 7)}`;
+
+// Reglas por defecto: equivalen a la lógica original de classifyRecord
+// (palabras clave de contraste para cualquier modalidad, luego las listas de CT y CR)
+export const DEFAULT_RULES: ClassificationRule[] = [
+  { id: 'default-keyword-contrast', modality: '*', matchType: 'keyword', pattern: 'CONTRASTE, CONTRASTADO', subcategory: 'CONTRASTADOS' },
+  ...CONTRASTADOS_PROCEDURES.map((pattern, i) => ({
+    id: `default-ct-${i}`, modality: 'CT', matchType: 'contains' as const, pattern, subcategory: 'CONTRASTADOS'
+  })),
+  ...ESPECIALES_PROCEDURES.map((pattern, i) => ({
+    id: `default-cr-${i}`, modality: 'CR', matchType: 'contains' as const, pattern, subcategory: 'ESPECIALES'
+  }))
+];
+
+export interface CompiledRule {
+  rule: ClassificationRule;
+  // Devuelve el texto que coincidió (palabra clave, entrada o regex) o null
+  match: (normalizedDescription: string) => string | null;
+}
+
+// Devuelve el mensaje de error de una regla o null si es válida
+export const validateRule = (rule: ClassificationRule): string | null => {
+  if (!rule.pattern.trim()) return 'El patrón está vacío';
+  if (!rule.subcategory.trim()) return 'La subcategoría está vacía';
+  if (!MATCH_TYPES.some(m => m.value === rule.matchType)) return `Tipo de coincidencia desconocido: ${rule.matchType}`;
+  if (rule.matchType === 'regex') {
+    try {
+      new RegExp(rule.pattern, 'i');
+    } catch (e) {
+      return `Regex inválida: ${(e as Error).message}`;
+    }
+  }
+  return null;
+};
+
+const buildMatcher = (rule: ClassificationRule): CompiledRule['match'] => {
+  switch (rule.matchType) {
+    case 'exact': {
+      const target = normalize(rule.pattern);
+      return desc => (desc === target ? rule.pattern : null);
+    }
+    case 'regex': {
+      const re = new RegExp(rule.pattern, 'i');
+      return desc => re.exec(desc)?.[0] ?? null;
+    }
+    case 'keyword': {
+      const keywords = rule.pattern.split(',').map(normalize).filter(Boolean);
+      return desc => keywords.find(k => desc.includes(k)) ?? null;
+    }
+    case 'contains':
+    default: {
+      const target = normalize(rule.pattern);
+      return desc => (desc.includes(target) ? rule.pattern : null);
+    }
+  }
+};
+
+// Las reglas de palabras clave comodín actúan como override para todas las modalidades
+export const isKeywordOverride = (rule: ClassificationRule) => rule.matchType === 'keyword' && rule.modality === '*';
+
+// Texto legible de la traza para tablas y auditoría
+export const describeTrace = (trace: ClassificationTrace | null) => {
+  if (!trace) return 'Sin coincidencia (STANDARD)';
+  const branch = trace.modalityBranch === '*' ? 'cualquier modalidad' : `lista ${trace.modalityBranch}`;
+  const kind = MATCH_TYPES.find(m => m.value === trace.matchType)?.label ?? trace.matchType;
+  return `${kind} "${trace.matched}" · ${branch}${trace.keywordOverride ? ' · override' : ''}`;
+};
+
+// Las reglas inválidas se omiten para no bloquear la clasificación del resto
+export const compileRules = (rules: ClassificationRule[]): CompiledRule[] =>
+  rules
+    .filter(rule => validateRule(rule) === null)
+    .map(rule => ({ rule, match: buildMatcher(rule) }));
+
+export const DEFAULT_COMPILED_RULES = compileRules(DEFAULT_RULES);
+
+export const loadRules = (): ClassificationRule[] => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? parseRulesJson(raw) : DEFAULT_RULES;
+  } catch (e) {
+    console.error('Error leyendo reglas guardadas:', e);
+    return DEFAULT_RULES;
+  }
+};
+
+export const saveRules = (rules: ClassificationRule[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(rules));
+};
+
+export const rulesToJson = (rules: ClassificationRule[]) => JSON.stringify({ version: 1, rules }, null, 2);
+
+// Acepta { version, rules: [...] } o un arreglo plano; lanza Error con un mensaje legible
+export const parseRulesJson = (text: string): ClassificationRule[] => {
+  const parsed = JSON.parse(text);
+  const list = Array.isArray(parsed) ? parsed : parsed?.rules;
+  if (!Array.isArray(list)) throw new Error('El archivo no contiene una lista de reglas');
+
+  return list.map((item: any, idx: number) => {
+    const rule: ClassificationRule = {
+      id: typeof item.id === 'string' && item.id ? item.id : newRuleId(),
+      modality: String(item.modality ?? '*').trim().toUpperCase() || '*',
+      matchType: item.matchType,
+      pattern: String(item.pattern ?? ''),
+      subcategory: String(item.subcategory ?? '').trim().toUpperCase()
+    };
+    const error = validateRule(rule);
+    if (error) throw new Error(`Regla ${idx + 1}: ${error}`);
+    return rule;
+  });
+};
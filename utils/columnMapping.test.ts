@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import { MappingProfile } from '../types';
+import { suggestMapping, isStandardLayout, missingRequired, applyMapping, headerSignature, upsertProfile } from './columnMapping';
+
+const STANDARD = ['ID PACIENTE', 'NOMBRE PACIENTE', 'DESCRIPCIÓN', 'REGIÓN', 'FECHA REALIZADO', 'MODALIDAD', 'REALIZADO POR', 'ESTADO REPORTE', 'FECHA REPORTE'];
+
+describe('suggestMapping', () => {
+  it('reconoce los encabezados estándar sin importar tildes ni mayúsculas', () => {
+    const mapping = suggestMapping(['id paciente', 'Descripcion', 'Modalidad', 'Realizado Por']);
+    expect(mapping).toEqual({
+      id_paciente: 'id paciente',
+      descripcion: 'Descripcion',
+      modalidad: 'Modalidad',
+      realizado_por: 'Realizado Por'
+    });
+  });
+
+  it('usa los sinónimos habituales de los RIS', () => {
+    expect(suggestMapping(['MRN', 'Patient Name', 'Study Description', 'Modality', 'Radiólogo', 'Status', 'Fecha Informe'])).toEqual({
+      id_paciente: 'MRN',
+      nombre_paciente: 'Patient Name',
+      descripcion: 'Study Description',
+      modalidad: 'Modality',
+      realizado_por: 'Radiólogo',
+      estado_reporte: 'Status',
+      fecha_reporte: 'Fecha Informe'
+    });
+  });
+
+  it('asigna cada encabezado una sola vez, al campo con mejor puntaje', () => {
+    const mapping = suggestMapping(['FECHA', 'FECHA REPORTE']);
+    expect(mapping.fecha_reporte).toBe('FECHA REPORTE');
+    expect(mapping.fecha_realizado).toBe('FECHA');
+  });
+
+  it('no sugiere columnas sin relación', () => {
+    expect(suggestMapping(['TELEFONO', 'DIRECCION'])).toEqual({});
+  });
+});
+
+describe('validación del mapeo', () => {
+  it('detecta el formato estándar completo', () => {
+    expect(isStandardLayout(STANDARD)).toBe(true);
+    expect(isStandardLayout(STANDARD.slice(1))).toBe(false);
+  });
+
+  it('exige ID, descripción y modalidad presentes en el archivo', () => {
+    const missing = missingRequired({ id_paciente: 'ID', descripcion: 'ESTUDIO', modalidad: 'MOD' }, ['ID', 'ESTUDIO']);
+    expect(missing.map(f => f.key)).toEqual(['modalidad']);
+  });
+
+  it('arma el registro con los campos asignados y deja vacíos los demás', () => {
+    const record = applyMapping({ ID: ' 123 ', ESTUDIO: 'TAC' }, { id_paciente: 'ID', descripcion: 'ESTUDIO', modalidad: 'MOD' });
+    expect(record.id_paciente).toBe('123');
+    expect(record.descripcion).toBe('TAC');
+    expect(record.modalidad).toBe('');
+    expect(record.fecha_reporte).toBe('');
+  });
+});
+
+describe('perfiles', () => {
+  it('identifica el archivo por sus encabezados sin importar el orden', () => {
+    expect(headerSignature(['Modalidad', 'ID'])).toBe(headerSignature(['id', 'MODALIDAD']));
+  });
+
+  it('reemplaza el perfil con la misma firma', () => {
+    const existing: MappingProfile = { id: 'm1', name: 'Sede Norte', signature: 'A|B', mapping: {}, updatedAt: 0 };
+    const updated = upsertProfile([existing], 'Sede Norte v2', 'A|B', { id_paciente: 'A' });
+    expect(updated).toHaveLength(1);
+    expect(updated[0]).toMatchObject({ id: 'm1', name: 'Sede Norte v2', mapping: { id_paciente: 'A' } });
+    expect(upsertProfile([existing], 'Sede Sur', 'C|D', {})).toHaveLength(2);
+  });
+});
@@ -0,0 +1,131 @@
+import { ColumnMapping, MappableField, MappingProfile } from '../types';
+import { COLUMN_MAPPING } from '../constants';
+import { normalize } from './normalize';
+
+const STORAGE_KEY = 'medstats.mappingProfiles.v1';
+
+// Campos en el orden de COLUMN_MAPPING, con el encabezado estándar como etiqueta
+export const MAPPABLE_FIELDS: { key: MappableField; label: string; required: boolean }[] =
+  Object.entries(COLUMN_MAPPING).map(([label, key]) => ({
+    key,
+    label,
+    required: key === 'id_paciente' || key === 'descripcion' || key === 'modalidad'
+  }));
+
+// Otros nombres habituales en exportaciones de RIS, ya normalizados
+const SYNONYMS: Record<MappableField, string[]> = {
+  id_paciente: ['ID', 'DOCUMENTO', 'IDENTIFICACION', 'HISTORIA', 'HISTORIA CLINICA', 'MRN', 'PATIENT ID', 'CEDULA'],
+  nombre_paciente: ['PACIENTE', 'NOMBRE', 'NOMBRES', 'PATIENT NAME'],
+  descripcion: ['ESTUDIO', 'PROCEDIMIENTO', 'EXAMEN', 'DESCRIPCION ESTUDIO', 'STUDY DESCRIPTION'],
+  region: ['REGION ANATOMICA', 'PARTE DEL CUERPO', 'BODY PART'],
+  fecha_realizado: ['FECHA ESTUDIO', 'FECHA EXAMEN', 'FECHA', 'STUDY DATE'],
+  modalidad: ['MOD', 'MODALITY', 'TIPO ESTUDIO'],
+  realizado_por: ['RADIOLOGO', 'MEDICO', 'ESPECIALISTA', 'INFORMADO POR', 'REPORTADO POR', 'LECTOR'],
+  estado_reporte: ['ESTADO', 'ESTADO INFORME', 'STATUS'],
+  fecha_reporte: ['FECHA INFORME', 'FECHA FIRMA', 'REPORT DATE']
+};
+
+// Firma del archivo: encabezados normalizados y ordenados, independiente del orden de columnas
+export const headerSignature = (headers: string[]) =>
+  headers.map(normalize).filter(Boolean).sort().join('|');
+
+const tokens = (s: string) => new Set(s.split(/[^A-Z0-9]+/).filter(Boolean));
+
+// Puntaje 0-1 entre un encabezado y un campo: exacto > sinónimo > palabras en común
+const scoreHeader = (header: string, field: MappableField, label: string) => {
+  const h = normalize(header);
+  if (h === normalize(label)) return 1;
+  if (SYNONYMS[field].includes(h)) return 0.9;
+
+  const candidates = [normalize(label), ...SYNONYMS[field]];
+  const ht = tokens(h);
+  let best = 0;
+  candidates.forEach(c => {
+    const ct = tokens(c);
+    const common = Array.from(ct).filter(t => ht.has(t)).length;
+    if (common > 0) best = Math.max(best, (0.8 * common) / Math.max(ct.size, ht.size));
+  });
+  return best;
+};
+
+const MIN_SUGGESTION_SCORE = 0.4;
+
+/**
+ * Sugiere un encabezado para cada campo. Se asignan primero los pares con
+ * mayor puntaje y cada encabezado se usa una sola vez.
+ */
+export const suggestMapping = (headers: string[]): ColumnMapping => {
+  const pairs: { field: MappableField; header: string; score: number }[] = [];
+  MAPPABLE_FIELDS.forEach(({ key, label }) => {
+    headers.forEach(header => {
+      const score = scoreHeader(header, key, label);
+      if (score >= MIN_SUGGESTION_SCORE) pairs.push({ field: key, header, score });
+    });
+  });
+
+  const mapping: ColumnMapping = {};
+  const used = new Set<string>();
+  pairs
+    .sort((a, b) => b.score - a.score)
+    .forEach(({ field, header }) => {
+      if (mapping[field] || used.has(header)) return;
+      mapping[field] = header;
+      used.add(header);
+    });
+  return mapping;
+};
+
+// Todos los campos coinciden exactamente con COLUMN_MAPPING: no hace falta preguntar
+export const isStandardLayout = (headers: string[]) => {
+  const normalized = new Set(headers.map(normalize));
+  return MAPPABLE_FIELDS.every(f => normalized.has(normalize(f.label)));
+};
+
+export const missingRequired = (mapping: ColumnMapping, headers: string[]) =>
+  MAPPABLE_FIELDS.filter(f => f.required && !(mapping[f.key] && headers.includes(mapping[f.key]!)));
+
+// Registro crudo con los campos asignados; los no asignados quedan vacíos
+export const applyMapping = (row: Record<string, string>, mapping: ColumnMapping) => {
+  const record = {} as Record<MappableField, string>;
+  MAPPABLE_FIELDS.forEach(({ key }) => {
+    const header = mapping[key];
+    record[key] = (header ? row[header] : '')?.trim() || '';
+  });
+  return record;
+};
+
+export const loadProfiles = (): MappingProfile[] => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    const parsed = raw ? JSON.parse(raw) : [];
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (e) {
+    console.error('Error leyendo perfiles de columnas:', e);
+    return [];
+  }
+};
+
+export const saveProfiles = (profiles: MappingProfile[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(profiles));
+};
+
+export const findProfile = (profiles: MappingProfile[], signature: string) =>
+  profiles.find(p => p.signature === signature) || null;
+
+// Reemplaza el perfil con la misma firma; si no existe lo agrega
+export const upsertProfile = (
+  profiles: MappingProfile[],
+  name: string,
+  signature: string,
+  mapping: ColumnMapping
+): MappingProfile[] => {
+  const existing = profiles.find(p => p.signature === signature);
+  const profile: MappingProfile = {
+    id: existing?.id || `m_${Date.now().toString(36)}`,
+    name,
+    signature,
+    mapping,
+    updatedAt: Date.now()
+  };
+  return existing ? profiles.map(p => (p.id === existing.id ? profile : p)) : [...profiles, profile];
+};
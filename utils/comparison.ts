@@ -0,0 +1,158 @@
+import {
+  RadiologyRecord,
+  ComparePeriod,
+  CompareConfig,
+  DataSource,
+  Delta,
+  PeriodComparison,
+  SummaryBySpecialist,
+  ModalityDefinition,
+  Subcategory
+} from '../types';
+import { fromInputDate, toInputDate, formatDate } from './dateParser';
+import { getSummaryBySpecialist } from './dataProcessor';
+import { modalityRank } from './modalityConfig';
+import { sourceName } from './sources';
+
+export type ComparePreset = 'previous_month' | 'previous_year';
+
+export const COMPARE_PRESETS: { value: ComparePreset; label: string }[] = [
+  { value: 'previous_month', label: 'Mes anterior' },
+  { value: 'previous_year', label: 'Mismo periodo del año anterior' }
+];
+
+// Registros del periodo; los que no tienen fecha interpretable solo entran por archivo
+export const selectPeriod = (data: RadiologyRecord[], period: ComparePeriod): RadiologyRecord[] => {
+  if (period.kind === 'source') return data.filter(d => d.source === period.sourceId);
+  const from = fromInputDate(period.from);
+  const to = fromInputDate(period.to, true);
+  if (from === null && to === null) return data;
+  return data.filter(d => {
+    const ts = d.fecha_realizado_ts;
+    return ts !== null && (from === null || ts >= from) && (to === null || ts <= to);
+  });
+};
+
+export const periodLabel = (period: ComparePeriod, sources: DataSource[]) => {
+  if (period.kind === 'source') return sourceName(sources, period.sourceId);
+  const from = fromInputDate(period.from);
+  const to = fromInputDate(period.to);
+  if (from === null && to === null) return 'Todo el periodo';
+  return `${from === null ? '…' : formatDate(from)} – ${to === null ? '…' : formatDate(to)}`;
+};
+
+const lastDayOfMonth = (year: number, month: number) => new Date(year, month + 1, 0).getDate();
+
+// Mueve una fecha YYYY-MM-DD los meses indicados; el último día de un mes se mantiene como último día
+const shiftMonths = (value: string, months: number) => {
+  const ts = fromInputDate(value);
+  if (ts === null) return value;
+  const d = new Date(ts);
+  const target = new Date(d.getFullYear(), d.getMonth() + months, 1);
+  const lastDay = lastDayOfMonth(target.getFullYear(), target.getMonth());
+  const isMonthEnd = d.getDate() === lastDayOfMonth(d.getFullYear(), d.getMonth());
+  target.setDate(isMonthEnd ? lastDay : Math.min(d.getDate(), lastDay));
+  return toInputDate(target.getTime());
+};
+
+// Periodo de referencia a partir del actual; los periodos por archivo no se pueden desplazar
+export const presetPeriod = (current: ComparePeriod, preset: ComparePreset): ComparePeriod | null => {
+  if (current.kind !== 'dates' || !current.from || !current.to) return null;
+  const months = preset === 'previous_month' ? -1 : -12;
+  return { kind: 'dates', from: shiftMonths(current.from, months), to: shiftMonths(current.to, months) };
+};
+
+/**
+ * Configuración inicial: el rango de fechas del tablero (o el mes del estudio
+ * más reciente si no hay rango) contra el mes anterior.
+ */
+export const defaultCompareConfig = (data: RadiologyRecord[], dateFrom: string, dateTo: string): CompareConfig => {
+  let current: ComparePeriod = { kind: 'dates', from: dateFrom, to: dateTo };
+  if (!dateFrom || !dateTo) {
+    const latest = data.reduce((max, d) => Math.max(max, d.fecha_realizado_ts ?? -Infinity), -Infinity);
+    const ref = Number.isFinite(latest) ? new Date(latest) : new Date();
+    current = {
+      kind: 'dates',
+      from: toInputDate(new Date(ref.getFullYear(), ref.getMonth(), 1).getTime()),
+      to: toInputDate(new Date(ref.getFullYear(), ref.getMonth() + 1, 0).getTime())
+    };
+  }
+  return { current, previous: presetPeriod(current, 'previous_month') || current };
+};
+
+export const delta = (current: number, previous: number): Delta => ({
+  current,
+  previous,
+  diff: current - previous,
+  pct: previous === 0 ? null : ((current - previous) / previous) * 100
+});
+
+export const formatDelta = (d: Delta) => {
+  const sign = d.diff > 0 ? '+' : '';
+  const pct = d.pct === null ? (d.current > 0 ? 'nuevo' : '—') : `${d.pct > 0 ? '+' : ''}${d.pct.toFixed(1)}%`;
+  return `${sign}${d.diff} (${pct})`;
+};
+
+const deltas = (current: Record<string, number>, previous: Record<string, number>, keys: string[]) =>
+  Object.fromEntries(keys.map(key => [key, delta(current[key] || 0, previous[key] || 0)]));
+
+const sumBy = (rows: SummaryBySpecialist[], pick: (row: SummaryBySpecialist) => Record<string, number>) =>
+  rows.reduce((acc, row) => {
+    Object.entries(pick(row)).forEach(([key, count]) => { acc[key] = (acc[key] || 0) + count; });
+    return acc;
+  }, {} as Record<string, number>);
+
+/**
+ * Variaciones del periodo actual frente al de referencia: totales, por modalidad
+ * y por subcategoría, globales y por especialista. Los especialistas que solo
+ * aparecen en uno de los periodos se incluyen con cero en el otro.
+ */
+export const comparePeriods = (
+  current: RadiologyRecord[],
+  previous: RadiologyRecord[],
+  labels: { current: string, previous: string },
+  subcategories: Subcategory[],
+  modalities: ModalityDefinition[]
+): PeriodComparison => {
+  const currentRows = getSummaryBySpecialist(current, subcategories, modalities);
+  const previousRows = getSummaryBySpecialist(previous, subcategories, modalities);
+
+  const currentMods = sumBy(currentRows, r => r.modalities);
+  const previousMods = sumBy(previousRows, r => r.modalities);
+  const modalityKeys = Array.from(new Set([...Object.keys(currentMods), ...Object.keys(previousMods)]))
+    .sort((a, b) => modalityRank(a, modalities) - modalityRank(b, modalities));
+
+  const specialists = Array.from(new Set([...currentRows, ...previousRows].map(r => r.specialist)));
+  const empty = (specialist: string): SummaryBySpecialist => ({ specialist, totalStudies: 0, weightedScore: 0, modalities: {}, subcategories: {} });
+  const bySpecialist = specialists.map(specialist => {
+    const cur = currentRows.find(r => r.specialist === specialist) || empty(specialist);
+    const prev = previousRows.find(r => r.specialist === specialist) || empty(specialist);
+    const mods = modalityKeys.filter(m => cur.modalities[m] || prev.modalities[m]);
+    return {
+      specialist,
+      total: delta(cur.totalStudies, prev.totalStudies),
+      modalities: deltas(cur.modalities, prev.modalities, mods),
+      subcategories: deltas(cur.subcategories, prev.subcategories, subcategories)
+    };
+  }).sort((a, b) => b.total.current - a.total.current || b.total.previous - a.total.previous);
+
+  return {
+    currentLabel: labels.current,
+    previousLabel: labels.previous,
+    total: delta(current.length, previous.length),
+    modalities: deltas(currentMods, previousMods, modalityKeys),
+    subcategories: deltas(sumBy(currentRows, r => r.subcategories), sumBy(previousRows, r => r.subcategories), subcategories),
+    bySpecialist
+  };
+};
+
+// Filas planas (ámbito, concepto, variación) para las secciones comparativas de los reportes
+export const comparisonRows = (comparison: PeriodComparison, scope: 'global' | 'specialist') => {
+  const conceptRows = (name: string, total: Delta, modalities: Record<string, Delta>, subcategories: Record<string, Delta>) => [
+    { scope: name, concept: 'Total', delta: total },
+    ...Object.entries(modalities).map(([mod, d]) => ({ scope: name, concept: `Modalidad ${mod}`, delta: d })),
+    ...Object.entries(subcategories).map(([sub, d]) => ({ scope: name, concept: sub, delta: d }))
+  ];
+  if (scope === 'global') return conceptRows('GLOBAL', comparison.total, comparison.modalities, comparison.subcategories);
+  return comparison.bySpecialist.flatMap(row => conceptRows(row.specialist, row.total, row.modalities, row.subcategories));
+};
@@ -1,80 +1,159 @@
 
-import { RadiologyRecord, SummaryBySpecialist } from '../types';
-import { ESPECIALES_PROCEDURES, CONTRASTADOS_PROCEDURES } from '../constants';
+import {
+  RadiologyRecord,
+  SummaryBySpecialist,
+  ModalityMatrixRow,
+  MatrixColumn,
+  ClassificationRule,
+  Subcategory,
+  ModalityDefinition,
+  ChartDataPoint
+} from '../types';
+import { normalize } from './normalize';
+import {
+  CompiledRule,
+  DEFAULT_COMPILED_RULES,
+  DEFAULT_RULES,
+  STANDARD_SUBCATEGORY,
+  getSubcategories,
+  isKeywordOverride,
+  subcategoryShortLabel
+} from './classificationRules';
+import { DEFAULT_MODALITIES, includedModalities, modalityRank } from './modalityConfig';
 
-// Helper to normalize strings for comparison (removes accents, punctuation, collapses spaces)
-export const normalize = (str: string) => {
-  return (str || '')
-    .normalize("NFD")
-    .replace(/[\u0300-\u036f]/g, "") // Remove accents
-    .toUpperCase()
-    .replace(/[().,;:-]/g, ' ')     // Replace punctuation with space
-    .replace(/\s+/g, ' ')           // Collapse multiple spaces
-    .trim();
-};
+export { normalize };
 
-export const classifyRecord = (record: RadiologyRecord): RadiologyRecord => {
-  const rawDesc = record.descripcion || '';
-  const descNormalized = normalize(rawDesc);
+// Aplica las reglas en orden; gana la primera que coincide con la modalidad y la descripción
+export const classifyRecord = (record: RadiologyRecord, rules: CompiledRule[] = DEFAULT_COMPILED_RULES): RadiologyRecord => {
+  const descNormalized = normalize(record.descripcion || '');
   const mod = (record.modalidad || '').toUpperCase().trim();
-  
-  let subcategory: 'CONTRASTADOS' | 'ESPECIALES' | 'STANDARD' = 'STANDARD';
-
-  // Check for Contrast keywords first (Priority for any modality)
-  const hasContrastKeywords = descNormalized.includes('CONTRASTE') || descNormalized.includes('CONTRASTADO');
 
-  if (hasContrastKeywords) {
-    subcategory = 'CONTRASTADOS';
-  } else if (mod === 'CT') {
-    // Check strict list for CT
-    const isContrastInList = CONTRASTADOS_PROCEDURES.some(p => descNormalized.includes(normalize(p)));
-    if (isContrastInList) {
-      subcategory = 'CONTRASTADOS';
-    }
-  } else if (mod === 'CR') {
-    // Check strict list for CR Specials
-    const isEspecial = ESPECIALES_PROCEDURES.some(p => descNormalized.includes(normalize(p)));
-    if (isEspecial) {
-      subcategory = 'ESPECIALES';
-    }
+  for (const { rule, match } of rules) {
+    if (rule.modality !== '*' && rule.modality !== mod) continue;
+    const matched = match(descNormalized);
+    if (matched === null) continue;
+    return {
+      ...record,
+      subcategory: rule.subcategory,
+      classification: {
+        ruleId: rule.id,
+        matchType: rule.matchType,
+        matched,
+        modalityBranch: rule.modality,
+        keywordOverride: isKeywordOverride(rule)
+      }
+    };
   }
 
-  return { ...record, subcategory };
+  return { ...record, subcategory: STANDARD_SUBCATEGORY, classification: null };
 };
 
-export const getSummaryBySpecialist = (data: RadiologyRecord[]): SummaryBySpecialist[] => {
+// Ordena las claves de un conteo por modalidad según el orden configurado
+const orderByModality = (counts: Record<string, number>, modalities: ModalityDefinition[]) =>
+  Object.fromEntries(
+    Object.entries(counts).sort(([a], [b]) => modalityRank(a, modalities) - modalityRank(b, modalities))
+  );
+
+export const getSummaryBySpecialist = (
+  data: RadiologyRecord[],
+  subcategories: Subcategory[] = getSubcategories(DEFAULT_RULES),
+  modalities: ModalityDefinition[] = DEFAULT_MODALITIES
+): SummaryBySpecialist[] => {
   const grouped = data.reduce((acc, curr) => {
     const spec = (curr.realizado_por || 'SIN ASIGNAR').trim();
     if (!acc[spec]) {
       acc[spec] = {
         specialist: spec,
         totalStudies: 0,
+        weightedScore: 0,
         modalities: {},
-        subcategories: {
-          'CONTRASTADOS': 0,
-          'ESPECIALES': 0,
-          'STANDARD': 0
-        }
+        subcategories: Object.fromEntries(subcategories.map(sub => [sub, 0]))
       };
     }
     
     acc[spec].totalStudies++;
+    acc[spec].weightedScore += curr.weight;
     const mod = (curr.modalidad || 'N/A').trim().toUpperCase();
     acc[spec].modalities[mod] = (acc[spec].modalities[mod] || 0) + 1;
-    acc[spec].subcategories[curr.subcategory]++;
+    acc[spec].subcategories[curr.subcategory] = (acc[spec].subcategories[curr.subcategory] || 0) + 1;
     
     return acc;
   }, {} as Record<string, SummaryBySpecialist>);
 
-  return Object.values(grouped).sort((a, b) => b.totalStudies - a.totalStudies);
+  return Object.values(grouped)
+    .map(row => ({ ...row, modalities: orderByModality(row.modalities, modalities) }))
+    .sort((a, b) => b.totalStudies - a.totalStudies);
 };
 
-export const getModalityStats = (data: RadiologyRecord[]) => {
+export const getModalityStats = (
+  data: RadiologyRecord[],
+  modalities: ModalityDefinition[] = DEFAULT_MODALITIES
+): ChartDataPoint[] => {
   const stats = data.reduce((acc, curr) => {
     const mod = (curr.modalidad || 'N/A').trim().toUpperCase();
     acc[mod] = (acc[mod] || 0) + 1;
     return acc;
   }, {} as Record<string, number>);
 
-  return Object.entries(stats).map(([name, value]) => ({ name, value }));
+  return Object.entries(orderByModality(stats, modalities)).map(([name, value]) => ({ name, value }));
+};
+
+/**
+ * Columnas del cuadro resumen: una por modalidad incluida, en el orden configurado.
+ * Cada subcategoría con reglas de la modalidad o comodín ('*') tiene su columna
+ * (ej. "CT Cont"), y el resto de esa modalidad queda en "CT Std". Las
+ * modalidades excluidas se descartan al importar, así que todo estudio cae en
+ * alguna columna.
+ */
+export const getMatrixColumns = (
+  rules: ClassificationRule[],
+  modalities: ModalityDefinition[] = DEFAULT_MODALITIES
+): MatrixColumn[] => {
+  const columns: MatrixColumn[] = [];
+  includedModalities(modalities).forEach(mod => {
+    const subs = getSubcategories(rules.filter(r => r.modality === mod || r.modality === '*'))
+      .filter(sub => sub !== STANDARD_SUBCATEGORY);
+    columns.push({
+      key: `${mod}:${STANDARD_SUBCATEGORY}`,
+      label: subs.length > 0 ? `${mod} ${subcategoryShortLabel(STANDARD_SUBCATEGORY)}` : mod,
+      modality: mod,
+      subcategory: null
+    });
+    subs.forEach(sub => columns.push({
+      key: `${mod}:${sub}`,
+      label: `${mod} ${subcategoryShortLabel(sub)}`,
+      modality: mod,
+      subcategory: sub
+    }));
+  });
+  return columns;
+};
+
+// Columna del cuadro resumen que corresponde a un registro
+const matrixColumnFor = (record: RadiologyRecord, columns: MatrixColumn[]) => {
+  const mod = (record.modalidad || '').toUpperCase().trim();
+  return columns.find(c => c.modality === mod && c.subcategory === record.subcategory)
+    ?? columns.find(c => c.modality === mod && c.subcategory === null);
+};
+
+// Agrupa por la clave indicada (especialista por defecto) y reparte cada estudio en las columnas del cuadro resumen
+export const getModalityMatrix = (
+  data: RadiologyRecord[],
+  columns: MatrixColumn[],
+  keyOf: (record: RadiologyRecord) => string = r => (r.realizado_por || 'N/A').trim()
+): ModalityMatrixRow[] => {
+  const rows: Record<string, ModalityMatrixRow> = {};
+  data.forEach(record => {
+    const key = keyOf(record);
+    if (!rows[key]) {
+      rows[key] = { name: key, total: 0, weighted: 0, counts: Object.fromEntries(columns.map(c => [c.key, 0])) };
+    }
+
+    rows[key].total++;
+    rows[key].weighted += record.weight;
+    const column = matrixColumnFor(record, columns);
+    if (column) rows[key].counts[column.key]++;
+  });
+
+  return Object.values(rows);
 };
@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest';
+import { RadiologyRecord } from '../types';
+import { parseDate, formatDate, toInputDate, fromInputDate, normalizeRecordDates, DateParseIssue } from './dateParser';
+
+const at = (y: number, m: number, d: number, hh = 0, mm = 0, ss = 0) => new Date(y, m - 1, d, hh, mm, ss).getTime();
+
+describe('parseDate', () => {
+  it('lee AAAA-MM-DD con o sin hora', () => {
+    expect(parseDate('2026-01-05')).toBe(at(2026, 1, 5));
+    expect(parseDate('2026/01/05 14:30')).toBe(at(2026, 1, 5, 14, 30));
+    expect(parseDate('2026-01-05T14:30:15.250')).toBe(at(2026, 1, 5, 14, 30, 15));
+  });
+
+  it('lee DD/MM/AAAA por defecto y MM/DD solo cuando el día no cabe en el mes', () => {
+    expect(parseDate('05/01/2026')).toBe(at(2026, 1, 5));
+    expect(parseDate('05-01-2026 08:15:30')).toBe(at(2026, 1, 5, 8, 15, 30));
+    expect(parseDate('01/25/2026')).toBe(at(2026, 1, 25));
+  });
+
+  it('expande los años de dos dígitos', () => {
+    expect(parseDate('05.01.26')).toBe(at(2026, 1, 5));
+    expect(parseDate('05/01/85')).toBe(at(1985, 1, 5));
+  });
+
+  it('convierte AM/PM a 24 horas', () => {
+    expect(parseDate('05/01/2026 12:10 AM')).toBe(at(2026, 1, 5, 0, 10));
+    expect(parseDate('05/01/2026 3:45 p.m.')).toBe(at(2026, 1, 5, 15, 45));
+  });
+
+  it('lee seriales de Excel', () => {
+    expect(parseDate('46027')).toBe(at(2026, 1, 5));
+    expect(parseDate('46027.5')).toBe(at(2026, 1, 5, 12));
+  });
+
+  it('rechaza fechas imposibles y textos', () => {
+    expect(parseDate('31/02/2026')).toBeNull();
+    expect(parseDate('2026-13-01')).toBeNull();
+    expect(parseDate('05/01/2026 25:00')).toBeNull();
+    expect(parseDate('ayer')).toBeNull();
+    expect(parseDate('123')).toBeNull();
+    expect(parseDate('')).toBeNull();
+    expect(parseDate(null)).toBeNull();
+  });
+});
+
+describe('formato de fechas', () => {
+  it('muestra DD/MM/AAAA y el valor del selector de fecha', () => {
+    expect(formatDate(at(2026, 1, 5, 9, 7), true)).toBe('05/01/2026 09:07');
+    expect(formatDate(null)).toBe('');
+    expect(toInputDate(at(2026, 1, 5, 9))).toBe('2026-01-05');
+  });
+
+  it('toma el fin del día como límite superior', () => {
+    expect(fromInputDate('2026-01-05')).toBe(at(2026, 1, 5));
+    expect(fromInputDate('2026-01-05', true)).toBe(at(2026, 1, 6) - 1);
+  });
+});
+
+describe('normalizeRecordDates', () => {
+  it('agrega las marcas de tiempo y anota solo los valores no reconocidos', () => {
+    const issues: DateParseIssue[] = [];
+    const record = normalizeRecordDates(
+      { fecha_realizado: '05/01/2026 08:00', fecha_reporte: 'pendiente' } as RadiologyRecord,
+      7,
+      issues
+    );
+    expect(record.fecha_realizado_ts).toBe(at(2026, 1, 5, 8));
+    expect(record.fecha_reporte_ts).toBeNull();
+    expect(issues).toEqual([{ row: 7, field: 'fecha_reporte', value: 'pendiente' }]);
+
+    normalizeRecordDates({ fecha_realizado: '', fecha_reporte: '  ' } as RadiologyRecord, 8, issues);
+    expect(issues).toHaveLength(1);
+  });
+});
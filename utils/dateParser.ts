@@ -0,0 +1,113 @@
+import { RadiologyRecord } from '../types';
+
+export type DateField = 'fecha_realizado' | 'fecha_reporte';
+
+export interface DateParseIssue {
+  row: number;          // Índice de la fila dentro del archivo (base 1, sin encabezado)
+  field: DateField;
+  value: string;
+}
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+// Años de 2 dígitos: 00-69 => 2000-2069, 70-99 => 1970-1999
+const expandYear = (y: string) => {
+  const n = Number(y);
+  if (y.length > 2) return n;
+  return n < 70 ? 2000 + n : 1900 + n;
+};
+
+const to24h = (hour: number, meridiem?: string) => {
+  if (!meridiem) return hour;
+  const isPm = meridiem.toUpperCase().startsWith('P');
+  if (hour === 12) return isPm ? 12 : 0;
+  return isPm ? hour + 12 : hour;
+};
+
+const build = (y: number, m: number, d: number, hh: number, mm: number, ss: number): number | null => {
+  if (m < 1 || m > 12 || d < 1 || d > 31 || hh > 23 || mm > 59 || ss > 59) return null;
+  const date = new Date(y, m - 1, d, hh, mm, ss);
+  // Rechaza fechas desbordadas como 31/02
+  if (date.getMonth() !== m - 1 || date.getDate() !== d) return null;
+  return date.getTime();
+};
+
+const TIME = String.raw`(?:[ T]+(\d{1,2}):(\d{2})(?::(\d{2}))?(?:\.\d+)?\s*([AaPp]\.?[Mm]\.?)?)?`;
+const YMD = new RegExp(String.raw`^(\d{4})[\/\-.](\d{1,2})[\/\-.](\d{1,2})${TIME}`);
+const DMY = new RegExp(String.raw`^(\d{1,2})[\/\-.](\d{1,2})[\/\-.](\d{4}|\d{2})(?!\d)${TIME}`);
+
+// Serial de Excel (días desde 1899-12-30); acotado para no confundir con otros números
+const EXCEL_SERIAL = /^\d{5}(?:\.\d+)?$/;
+
+/**
+ * Convierte una fecha del RIS en milisegundos locales, o null si no se reconoce.
+ * Acepta YYYY-MM-DD, DD/MM/YYYY, DD/MM/YY (con "-", "/" o "."), hora opcional
+ * con segundos y AM/PM, y seriales de Excel. Cuando el día y el mes son ambiguos
+ * se asume DD/MM; solo se interpreta MM/DD si el segundo campo supera 12.
+ */
+export const parseDate = (value: string | null | undefined): number | null => {
+  const s = (value || '').trim();
+  if (!s) return null;
+
+  const ymd = s.match(YMD);
+  if (ymd) {
+    const [, y, m, d, hh = '0', mm = '0', ss = '0', mer] = ymd;
+    return build(+y, +m, +d, to24h(+hh, mer), +mm, +ss);
+  }
+
+  const dmy = s.match(DMY);
+  if (dmy) {
+    const [, a, b, y, hh = '0', mm = '0', ss = '0', mer] = dmy;
+    let day = +a;
+    let month = +b;
+    if (month > 12 && day <= 12) [day, month] = [month, day];
+    return build(expandYear(y), month, day, to24h(+hh, mer), +mm, +ss);
+  }
+
+  if (EXCEL_SERIAL.test(s)) {
+    const serial = Number(s);
+    const epoch = new Date(1899, 11, 30).getTime();
+    return Math.round(epoch + serial * 24 * 60 * 60 * 1000);
+  }
+
+  return null;
+};
+
+// DD/MM/YYYY (y HH:mm opcionalmente) para mostrar en pantalla y reportes
+export const formatDate = (ts: number | null, withTime: boolean = false): string => {
+  if (ts === null) return '';
+  const d = new Date(ts);
+  const date = `${pad(d.getDate())}/${pad(d.getMonth() + 1)}/${d.getFullYear()}`;
+  return withTime ? `${date} ${pad(d.getHours())}:${pad(d.getMinutes())}` : date;
+};
+
+// Valor para <input type="date"> (YYYY-MM-DD)
+export const toInputDate = (ts: number | null): string => {
+  if (ts === null) return '';
+  const d = new Date(ts);
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+};
+
+// Límite inclusivo a partir de un <input type="date">: inicio o fin del día
+export const fromInputDate = (value: string, endOfDay: boolean = false): number | null => {
+  const ts = parseDate(value);
+  if (ts === null || !endOfDay) return ts;
+  const d = new Date(ts);
+  return new Date(d.getFullYear(), d.getMonth(), d.getDate() + 1).getTime() - 1;
+};
+
+/**
+ * Agrega las marcas de tiempo normalizadas a un registro y anota en `issues`
+ * los campos con valor que no pudieron interpretarse.
+ */
+export const normalizeRecordDates = (record: RadiologyRecord, row: number, issues: DateParseIssue[]): RadiologyRecord => {
+  const fields: DateField[] = ['fecha_realizado', 'fecha_reporte'];
+  const [realizado, reporte] = fields.map(field => {
+    const raw = record[field];
+    const ts = parseDate(raw);
+    if (ts === null && raw && raw.trim() !== '') issues.push({ row, field, value: raw });
+    return ts;
+  });
+
+  return { ...record, fecha_realizado_ts: realizado, fecha_reporte_ts: reporte };
+};
@@ -1,34 +1,288 @@
 
 import * as XLSX from 'xlsx';
-import { RadiologyRecord } from '../types';
-
-export const exportToExcel = (data: RadiologyRecord[], specialist: string) => {
-  const filtered = specialist === 'All' 
-    ? data 
-    : data.filter(d => d.realizado_por === specialist);
-
-  // Relación resumida: Cantidad de estudios por fecha y tipo de estudio
-  const summaryMap = filtered.reduce((acc, curr) => {
-    const key = `${curr.fecha_realizado}_${curr.modalidad}_${curr.subcategory || 'STANDARD'}`;
-    if (!acc[key]) {
-      acc[key] = {
-        'Fecha': curr.fecha_realizado,
-        'Modalidad': curr.modalidad,
-        'Subcategoría': curr.subcategory || 'STANDARD',
-        'Cantidad': 0
-      };
-    }
-    acc[key]['Cantidad']++;
+import { RadiologyRecord, ModalityMatrixRow, MatrixColumn, TurnaroundStats, DashboardFilters, ReportOptions, PivotConfig } from '../types';
+import { getModalityMatrix, getMatrixColumns } from './dataProcessor';
+import { getTurnaroundSummary, getTurnaroundHours } from './turnaround';
+import { DEFAULT_REPORT_OPTIONS, specialistFilterLabel, activeFilterLabels } from './reportModel';
+import { toInputDate } from './dateParser';
+import { applyFilters, getDateRange, filterFileLabel } from './filters';
+import { describeTrace } from './classificationRules';
+import { comparisonRows } from './comparison';
+import { compareRegions } from './regions';
+import { compileDirectory, roleLabel } from './specialists';
+import { privacyLabel, privacyFileSuffix } from './privacy';
+import { buildPivot, pivotToRows, pivotDimensionLabel, pivotMeasureLabel, pivotFileName } from './pivot';
+import { getStatusBreakdown, getBacklog, statusOrder, stageLabel, DEFAULT_STATUSES, AGE_BUCKETS } from './reportStatus';
+
+const DATE_FORMAT = 'dd/mm/yyyy';
+const DATETIME_FORMAT = 'dd/mm/yyyy hh:mm';
+const HOURS_FORMAT = '0.0';
+const PERCENT_FORMAT = '0.0';
+const SCORE_FORMAT = '0.00';
+
+type Cell = string | number | Date | null;
+
+// Crea una hoja a partir de filas tipadas: los Date quedan como fecha y los number como número
+const sheetFromRows = (header: string[], rows: Cell[][], widths: number[], dateFormat: string = DATETIME_FORMAT) => {
+  const sheet = XLSX.utils.aoa_to_sheet([header, ...rows], { cellDates: true, dateNF: dateFormat });
+  sheet['!cols'] = widths.map(wch => ({ wch }));
+  return sheet;
+};
+
+// Aplica un formato numérico a columnas completas (ej. horas con un decimal)
+const formatColumns = (sheet: XLSX.WorkSheet, columns: number[], rowCount: number, format: string) => {
+  for (let r = 1; r <= rowCount; r++) {
+    columns.forEach(c => {
+      const cell = sheet[XLSX.utils.encode_cell({ r, c })];
+      if (cell && cell.t === 'n') cell.z = format;
+    });
+  }
+};
+
+const toDate = (ts: number | null): Date | null => (ts === null ? null : new Date(ts));
+
+const matrixSheet = (
+  firstColumn: string,
+  columns: MatrixColumn[],
+  rows: ModalityMatrixRow[],
+  keyCell: (row: ModalityMatrixRow) => Cell = r => r.name
+) => {
+  const header = [firstColumn, 'Total', 'RVU Ponderado', ...columns.map(c => c.label)];
+  const body = rows.map(r => [keyCell(r), r.total, r.weighted, ...columns.map(c => r.counts[c.key])]);
+  const totals = rows.reduce((acc, r) => {
+    acc[0] += r.total;
+    acc[1] += r.weighted;
+    columns.forEach((c, i) => { acc[i + 2] += r.counts[c.key]; });
     return acc;
-  }, {} as Record<string, any>);
+  }, new Array(columns.length + 2).fill(0) as number[]);
+
+  const sheet = sheetFromRows(
+    header,
+    [...body, ['TOTAL', ...totals]],
+    [32, 10, 14, ...columns.map(c => Math.max(10, c.label.length + 2))],
+    DATE_FORMAT
+  );
+  formatColumns(sheet, [2], body.length + 1, SCORE_FORMAT);
+  return sheet;
+};
+
+const turnaroundRows = (dimension: string, rows: TurnaroundStats[]): Cell[][] =>
+  rows.map(r => [dimension, r.key, r.count, r.median, r.p90, r.max, r.slaBreaches]);
+
+// En modo privacidad el detalle va sin ID ni nombre del paciente (índices de esas columnas)
+const patientFilter = (options: ReportOptions, patientColumns: number[]) =>
+  <T>(row: T[]) => row.filter((_, i) => !options.anonymized || !patientColumns.includes(i));
+
+// Constancia del origen del libro: periodo y filtros como en Word y PDF, incluido si salió anonimizado
+const infoSheet = (filters: DashboardFilters, options: ReportOptions, data: RadiologyRecord[], rows: Cell[][]) => {
+  const dateRange = getDateRange(data);
+  return sheetFromRows(
+    ['Campo', 'Valor'],
+    [
+      ['Generado', new Date()],
+      ['Datos de pacientes', privacyLabel(options.anonymized)],
+      ['Periodo analizado', `${dateRange.min} — ${dateRange.max}`],
+      ['Filtro especialista', specialistFilterLabel(filters)],
+      ...activeFilterLabels(filters, options.anonymized),
+      ...rows
+    ],
+    [22, 60]
+  );
+};
+
+/**
+ * Libro con el cuadro especialista × modalidad, el pivote diario, los tiempos
+ * de reporte y el detalle, aplicando los mismos filtros que el tablero.
+ */
+export const exportToExcel = (
+  allData: RadiologyRecord[],
+  filters: DashboardFilters,
+  options: ReportOptions = DEFAULT_REPORT_OPTIONS
+) => {
+  const { slaHours } = options;
+  const data = applyFilters(allData, filters);
+  const columns = getMatrixColumns(options.rules, options.modalities);
+  const workbook = XLSX.utils.book_new();
+
+  // 1. Cuadro resumen por especialista (mismas columnas que el reporte Word)
+  const bySpecialist = getModalityMatrix(data, columns).sort((a, b) => b.total - a.total);
+  XLSX.utils.book_append_sheet(workbook, matrixSheet('Especialista', columns, bySpecialist), 'Resumen Especialistas');
+
+  // 2. Mismo cuadro por región anatómica (columna REGIÓN o deducida de la descripción)
+  const byRegion = getModalityMatrix(data, columns, r => r.bodyRegion).sort((a, b) => compareRegions(a.name, b.name));
+  XLSX.utils.book_append_sheet(workbook, matrixSheet('Región', columns, byRegion), 'Resumen Regiones');
 
-  const worksheet = XLSX.utils.json_to_sheet(Object.values(summaryMap));
+  // 3. Pivote por día de realización
+  const byDay = getModalityMatrix(data, columns, r => toInputDate(r.fecha_realizado_ts) || 'SIN FECHA')
+    .sort((a, b) => a.name.localeCompare(b.name));
+  const dayCell = (row: ModalityMatrixRow): Cell => {
+    if (row.name === 'SIN FECHA') return row.name;
+    const [y, m, d] = row.name.split('-').map(Number);
+    return new Date(y, m - 1, d);
+  };
+  XLSX.utils.book_append_sheet(workbook, matrixSheet('Fecha', columns, byDay, dayCell), 'Por Día');
+
+  // 4. Tiempos de reporte (horas)
+  const turnaround = getTurnaroundSummary(data, slaHours);
+  const taRows: Cell[][] = [
+    ...turnaroundRows('GLOBAL', [turnaround.overall]),
+    ...turnaroundRows('ESPECIALISTA', turnaround.bySpecialist),
+    ...turnaroundRows('MODALIDAD', turnaround.byModality),
+    ...turnaroundRows('SUBCATEGORÍA', turnaround.bySubcategory)
+  ];
+  const taSheet = sheetFromRows(
+    ['Dimensión', 'Valor', 'Medidos', 'Mediana (h)', 'P90 (h)', 'Máximo (h)', `Fuera SLA (>${slaHours} h)`],
+    taRows,
+    [16, 32, 10, 12, 12, 12, 18]
+  );
+  formatColumns(taSheet, [3, 4, 5], taRows.length, HOURS_FORMAT);
+  XLSX.utils.book_append_sheet(workbook, taSheet, 'Tiempos Reporte');
+
+  // 5. Estados de reporte por especialista y por modalidad
+  const order = statusOrder(data, options.statuses || DEFAULT_STATUSES);
+  const statusRows: Cell[][] = [
+    ...getStatusBreakdown(data, order, r => (r.realizado_por || 'SIN ASIGNAR').trim())
+      .map(r => ['ESPECIALISTA', r.key, r.total, ...order.map(code => r.counts[code] || 0)]),
+    ...getStatusBreakdown(data, order, r => (r.modalidad || 'N/A').trim().toUpperCase())
+      .map(r => ['MODALIDAD', r.key, r.total, ...order.map(code => r.counts[code] || 0)])
+  ];
+  XLSX.utils.book_append_sheet(
+    workbook,
+    sheetFromRows(['Dimensión', 'Valor', 'Total', ...order], statusRows, [16, 32, 10, ...order.map(code => Math.max(10, code.length + 2))]),
+    'Estados Reporte'
+  );
+
+  // 6. Detalle para auditoría
+  const withoutPatient = patientFilter(options, [1, 2]);
+  const detailHeader = withoutPatient(['Realizado Por', 'ID Paciente', 'Nombre Paciente', 'Descripción', 'Región', 'Región Origen', 'Modalidad',
+    'Subcategoría', 'Fecha Realizado', 'Fecha Reporte', 'Estado Reporte', 'Tiempo Reporte (h)', 'Peso RVU', 'Regla Aplicada', 'Especialista en Archivo']);
+  const detailRows: Cell[][] = data.map(d => {
+    const hours = getTurnaroundHours(d);
+    return withoutPatient([
+      d.realizado_por, d.id_paciente, d.nombre_paciente, d.descripcion, d.bodyRegion, d.regionInferred ? 'DESCRIPCIÓN' : d.region ? 'COLUMNA' : '',
+      d.modalidad, d.subcategory, toDate(d.fecha_realizado_ts), toDate(d.fecha_reporte_ts),
+      d.estado_reporte, hours === null ? null : Number(hours.toFixed(2)), d.weight, describeTrace(d.classification),
+      d.specialistOriginal
+    ]);
+  });
+  const detailSheet = sheetFromRows(
+    detailHeader,
+    detailRows,
+    withoutPatient([28, 14, 30, 48, 18, 14, 10, 14, 17, 17, 14, 16, 10, 44, 28])
+  );
+  formatColumns(detailSheet, [detailHeader.indexOf('Tiempo Reporte (h)')], detailRows.length, HOURS_FORMAT);
+  XLSX.utils.book_append_sheet(workbook, detailSheet, 'Detalle Datos');
+
+  // 7. Directorio: ficha de cada especialista del reporte y los nombres del archivo que agrupa
+  const lookup = compileDirectory(options.specialists || []);
+  const directoryRows: Cell[][] = bySpecialist.map(row => {
+    const profile = lookup(row.name);
+    const variants = Array.from(new Set(data.filter(d => d.realizado_por === row.name).map(d => d.specialistOriginal)));
+    return [row.name, profile ? roleLabel(profile.role) : 'SIN FICHA', profile?.license || '', variants.join('; ')];
+  });
+  XLSX.utils.book_append_sheet(
+    workbook,
+    sheetFromRows(['Especialista', 'Rol', 'Cédula', 'Nombres en Archivo'], directoryRows, [32, 20, 14, 60]),
+    'Directorio'
+  );
+
+  // 8. Comparativo de periodos (solo en modo comparativo)
+  if (options.comparison) {
+    const { comparison } = options;
+    const cmpRows: Cell[][] = [...comparisonRows(comparison, 'global'), ...comparisonRows(comparison, 'specialist')]
+      .map(({ scope, concept, delta }) => [
+        scope, concept, delta.current, delta.previous, delta.diff,
+        delta.pct === null ? null : Number(delta.pct.toFixed(1))
+      ]);
+    const cmpSheet = sheetFromRows(
+      ['Ámbito', 'Concepto', `Actual (${comparison.currentLabel})`, `Referencia (${comparison.previousLabel})`, 'Diferencia', 'Variación %'],
+      cmpRows,
+      [32, 22, 26, 26, 12, 12]
+    );
+    formatColumns(cmpSheet, [5], cmpRows.length, PERCENT_FORMAT);
+    XLSX.utils.book_append_sheet(workbook, cmpSheet, 'Comparativo');
+  }
+
+  XLSX.utils.book_append_sheet(workbook, infoSheet(filters, options, data, [['Total estudios', data.length]]), 'Info Reporte');
+
+  XLSX.writeFile(workbook, `Reporte_Estadistico_${filterFileLabel(filters)}${privacyFileSuffix(options.anonymized)}_${new Date().getTime()}.xlsx`);
+};
+
+/**
+ * Trabajo pendiente: estudios sin reporte final (preliminares o pendientes)
+ * con su antigüedad, más el resumen por especialista y tramo de días.
+ */
+export const exportPendingWork = (
+  allData: RadiologyRecord[],
+  filters: DashboardFilters,
+  options: ReportOptions = DEFAULT_REPORT_OPTIONS
+) => {
+  const data = applyFilters(allData, filters);
+  const backlog = getBacklog(data);
   const workbook = XLSX.utils.book_new();
-  XLSX.utils.book_append_sheet(workbook, worksheet, "Resumen Estudios");
-  
-  // Also add raw data for audit
-  const rawWorksheet = XLSX.utils.json_to_sheet(filtered);
-  XLSX.utils.book_append_sheet(workbook, rawWorksheet, "Detalle Datos");
 
-  XLSX.writeFile(workbook, `Reporte_Estadistico_${specialist.replace(/\s/g, '_')}.xlsx`);
+  const summaryRows: Cell[][] = backlog.bySpecialist.map(r => [r.key, r.total, r.preliminary, r.pending, ...r.buckets, r.oldestDays]);
+  const sum = (pick: (r: typeof backlog.bySpecialist[number]) => number) => backlog.bySpecialist.reduce((acc, r) => acc + pick(r), 0);
+  XLSX.utils.book_append_sheet(
+    workbook,
+    sheetFromRows(
+      ['Especialista', 'Total', stageLabel('preliminary'), stageLabel('pending'), ...AGE_BUCKETS.map(b => b.label), 'Más antiguo (días)'],
+      [...summaryRows, ['TOTAL', backlog.items.length, sum(r => r.preliminary), sum(r => r.pending), ...backlog.buckets, null]],
+      [32, 10, 12, 12, ...AGE_BUCKETS.map(() => 10), 18]
+    ),
+    'Pendientes por Especialista'
+  );
+
+  const withoutPatient = patientFilter(options, [1, 2]);
+  const detailHeader = withoutPatient(['Realizado Por', 'ID Paciente', 'Nombre Paciente', 'Días', 'Etapa', 'Estado',
+    'Estado Original', 'Fecha Realizado', 'Modalidad', 'Subcategoría', 'Descripción', 'Región']);
+  const detailRows: Cell[][] = backlog.items.map(({ record: d, ageDays }) => withoutPatient([
+    d.realizado_por, d.id_paciente, d.nombre_paciente, ageDays, stageLabel(d.reportStage), d.reportStatus,
+    d.estado_reporte, toDate(d.fecha_realizado_ts), d.modalidad, d.subcategory, d.descripcion, d.bodyRegion
+  ]));
+  XLSX.utils.book_append_sheet(
+    workbook,
+    sheetFromRows(detailHeader, detailRows, withoutPatient([28, 14, 30, 8, 12, 16, 16, 17, 10, 14, 48, 16])),
+    'Detalle Pendientes'
+  );
+
+  XLSX.utils.book_append_sheet(workbook, infoSheet(filters, options, data, [
+    ['Fecha de corte', new Date(backlog.asOf)],
+    ['Estudios pendientes', backlog.items.length],
+    ['Sin fecha de realización', backlog.undated]
+  ]), 'Info Reporte');
+
+  XLSX.writeFile(workbook, `Trabajo_Pendiente_${filterFileLabel(filters)}${privacyFileSuffix(options.anonymized)}_${new Date().getTime()}.xlsx`);
+};
+
+// Tabla del explorador de pivotes tal como se ve en el tablero, con sus totales
+export const exportPivot = (
+  allData: RadiologyRecord[],
+  filters: DashboardFilters,
+  config: PivotConfig,
+  options: ReportOptions = DEFAULT_REPORT_OPTIONS
+) => {
+  const records = applyFilters(allData, filters);
+  const result = buildPivot(records, config);
+  const [header, ...rows] = pivotToRows(result, config);
+  const workbook = XLSX.utils.book_new();
+
+  const sheet = sheetFromRows(
+    header.map(String),
+    rows,
+    [32, ...result.columnKeys.map(key => Math.max(10, key.length + 2)), 12]
+  );
+  if (config.measure === 'weighted') {
+    formatColumns(sheet, header.map((_, i) => i).slice(1), rows.length, SCORE_FORMAT);
+  }
+  XLSX.utils.book_append_sheet(workbook, sheet, 'Pivote');
+
+  XLSX.utils.book_append_sheet(workbook, infoSheet(filters, options, records, [
+    ['Filas', pivotDimensionLabel(config.rows)],
+    ['Columnas', pivotDimensionLabel(config.columns)],
+    ['Medida', pivotMeasureLabel(config.measure)],
+    ['Estudios', records.length]
+  ]), 'Info Reporte');
+
+  XLSX.writeFile(workbook, pivotFileName(filters, options.anonymized, 'xlsx'));
 };
@@ -0,0 +1,95 @@
+import { DashboardFilters, RadiologyRecord } from '../types';
+import { formatDate, fromInputDate } from './dateParser';
+import { compileQuery, queryMentionsPatient } from './query';
+
+export const DEFAULT_FILTERS: DashboardFilters = {
+  specialist: 'All',
+  modality: 'All',
+  subcategory: 'All',
+  region: 'All',
+  searchTerm: '',
+  dateFrom: '',
+  dateTo: ''
+};
+
+export const applyFilters = (data: RadiologyRecord[], filters: DashboardFilters): RadiologyRecord[] => {
+  const from = fromInputDate(filters.dateFrom);
+  const to = fromInputDate(filters.dateTo, true);
+  const query = compileQuery(filters.searchTerm);
+
+  return data.filter(d => {
+    const matchSpec = filters.specialist === 'All' || d.realizado_por === filters.specialist;
+    const matchModality = filters.modality === 'All' || d.modalidad === filters.modality;
+    const matchSubcategory = filters.subcategory === 'All' || d.subcategory === filters.subcategory;
+    const matchRegion = filters.region === 'All' || d.bodyRegion === filters.region;
+    const matchSearch = query.test(d);
+    // Con un rango activo, los registros sin fecha interpretable quedan fuera
+    const ts = d.fecha_realizado_ts;
+    const matchDate = (from === null || (ts !== null && ts >= from)) &&
+                      (to === null || (ts !== null && ts <= to));
+    return matchSpec && matchModality && matchSubcategory && matchRegion && matchSearch && matchDate;
+  });
+};
+
+// Periodo analizado (FECHA REALIZADO) de los registros ya filtrados
+export const getDateRange = (data: RadiologyRecord[]): { min: string, max: string } => {
+  if (data.length === 0) return { min: '', max: '' };
+
+  const timestamps = data
+    .map(d => d.fecha_realizado_ts)
+    .filter((ts): ts is number => ts !== null);
+
+  if (timestamps.length === 0) return { min: 'N/A', max: 'N/A' };
+
+  // reduce en lugar de Math.min(...) para no desbordar la pila con archivos grandes
+  return {
+    min: formatDate(timestamps.reduce((a, b) => Math.min(a, b))),
+    max: formatDate(timestamps.reduce((a, b) => Math.max(a, b)))
+  };
+};
+
+// Etiqueta corta para nombres de archivo
+export const filterFileLabel = (filters: DashboardFilters) =>
+  (filters.specialist === 'All' ? 'All' : filters.specialist).replace(/\s/g, '_');
+
+// Parámetros de la URL para cada filtro; solo se escriben los que difieren del valor por defecto
+const URL_PARAMS: { key: keyof DashboardFilters; param: string }[] = [
+  { key: 'specialist', param: 'esp' },
+  { key: 'modality', param: 'mod' },
+  { key: 'subcategory', param: 'sub' },
+  { key: 'region', param: 'region' },
+  { key: 'searchTerm', param: 'q' },
+  { key: 'dateFrom', param: 'desde' },
+  { key: 'dateTo', param: 'hasta' }
+];
+
+/**
+ * La URL queda en el historial, en marcadores y en los enlaces copiados: la
+ * consulta solo se escribe si usa campos estructurados, nunca en modo
+ * privacidad ni con texto suelto o paciente: (nombres o IDs reales).
+ */
+export const filtersToSearch = (filters: DashboardFilters, privacyEnabled: boolean) => {
+  const params = new URLSearchParams();
+  const shareQuery = !privacyEnabled && !queryMentionsPatient(filters.searchTerm);
+  URL_PARAMS.forEach(({ key, param }) => {
+    if (key === 'searchTerm' && !shareQuery) return;
+    if (filters[key] !== DEFAULT_FILTERS[key]) params.set(param, filters[key]);
+  });
+  const search = params.toString();
+  return search ? `?${search}` : '';
+};
+
+// Filtros de un enlace guardado; null si la URL no trae ninguno (se conserva la sesión)
+export const filtersFromSearch = (search: string): DashboardFilters | null => {
+  const params = new URLSearchParams(search);
+  if (!URL_PARAMS.some(({ param }) => params.has(param))) return null;
+  const filters = { ...DEFAULT_FILTERS };
+  URL_PARAMS.forEach(({ key, param }) => {
+    const value = params.get(param);
+    if (value !== null) filters[key] = value;
+  });
+  return filters;
+};
+
+export const sameFilters = (a: DashboardFilters, b: DashboardFilters) =>
+  URL_PARAMS.every(({ key }) => a[key] === b[key]);
@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest';
+import Papa from 'papaparse';
+import { RadiologyRecord } from '../types';
+import { validateImport, rejectedRowsToCsv } from './importQuality';
+
+const HOUR = 60 * 60 * 1000;
+const START = new Date(2026, 0, 5, 8).getTime();
+
+const record = (overrides: Partial<RadiologyRecord> = {}) => ({
+  id_paciente: 'P1',
+  modalidad: 'CT',
+  realizado_por: 'PEREZ',
+  fecha_realizado_ts: START,
+  fecha_reporte_ts: START + HOUR,
+  ...overrides
+} as RadiologyRecord);
+
+describe('validateImport', () => {
+  const records = [
+    record(),
+    record({ id_paciente: ' ', modalidad: 'PET' }),
+    record({ fecha_reporte_ts: START - HOUR }),
+    record({ realizado_por: '' }),
+    record({ modalidad: 'us' }),
+    record()
+  ];
+  const raw = records.map((_, i) => ({ FILA: String(i + 1) }));
+  const { kept, report } = validateImport(
+    'ris.csv',
+    records,
+    raw,
+    [{ row: 5, field: 'fecha_realizado', value: '99/99/2026' }],
+    ['CT', 'US'],
+    [6]
+  );
+
+  it('conserva solo las filas sin motivos de rechazo', () => {
+    expect(kept).toEqual([records[0]]);
+    expect(report).toMatchObject({ fileName: 'ris.csv', rowsRead: 6, rowsKept: 1 });
+  });
+
+  it('acumula varios motivos por fila y los cuenta por separado', () => {
+    expect(report.rejected.map(r => [r.row, r.reasons])).toEqual([
+      [2, ['missing_id', 'disallowed_modality']],
+      [3, ['report_before_exam']],
+      [4, ['empty_specialist']],
+      [5, ['unparseable_date']],
+      [6, ['malformed_row']]
+    ]);
+    expect(report.byReason).toEqual({
+      malformed_row: 1,
+      missing_id: 1,
+      disallowed_modality: 1,
+      unparseable_date: 1,
+      report_before_exam: 1,
+      empty_specialist: 1
+    });
+  });
+
+  it('guarda la fila original de cada rechazo', () => {
+    expect(report.rejected[0].raw).toEqual({ FILA: '2' });
+  });
+});
+
+describe('rejectedRowsToCsv', () => {
+  it('antepone la fila y los motivos a las columnas originales', () => {
+    const { report } = validateImport('ris.csv', [record({ id_paciente: '', realizado_por: '' })], [{ ID: '', NOTA: 'a,b' }], [], ['CT']);
+    const parsed = Papa.parse<string[]>(rejectedRowsToCsv(report.rejected, ['ID', 'NOTA'])).data;
+    expect(parsed).toEqual([
+      ['FILA', 'MOTIVOS', 'ID', 'NOTA'],
+      ['1', 'Sin ID de paciente / Sin especialista', '', 'a,b']
+    ]);
+  });
+});
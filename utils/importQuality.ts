@@ -0,0 +1,78 @@
+import Papa from 'papaparse';
+import { RadiologyRecord, RejectReason, RejectedRow, ImportReport } from '../types';
+import { DateParseIssue } from './dateParser';
+
+export const REJECT_REASONS: { key: RejectReason; label: string }[] = [
+  { key: 'malformed_row', label: 'Fila mal formada (comillas o columnas)' },
+  { key: 'missing_id', label: 'Sin ID de paciente' },
+  { key: 'disallowed_modality', label: 'Modalidad no permitida' },
+  { key: 'unparseable_date', label: 'Fecha no reconocida' },
+  { key: 'report_before_exam', label: 'Reporte anterior al estudio' },
+  { key: 'empty_specialist', label: 'Sin especialista' }
+];
+
+export const rejectReasonLabel = (reason: RejectReason) =>
+  REJECT_REASONS.find(r => r.key === reason)?.label ?? reason;
+
+const reasonsFor = (record: RadiologyRecord, allowedModalities: string[], badDate: boolean, malformed: boolean): RejectReason[] => {
+  const reasons: RejectReason[] = [];
+  // Una fila mal separada tiene los valores en columnas equivocadas aunque pase las demás validaciones
+  if (malformed) reasons.push('malformed_row');
+  if (!record.id_paciente || record.id_paciente.trim() === '') reasons.push('missing_id');
+  if (!allowedModalities.includes((record.modalidad || '').trim().toUpperCase())) reasons.push('disallowed_modality');
+  if (badDate) reasons.push('unparseable_date');
+  if (
+    record.fecha_realizado_ts !== null &&
+    record.fecha_reporte_ts !== null &&
+    record.fecha_reporte_ts < record.fecha_realizado_ts
+  ) reasons.push('report_before_exam');
+  if (!record.realizado_por || record.realizado_por.trim() === '') reasons.push('empty_specialist');
+  return reasons;
+};
+
+/**
+ * Separa las filas válidas de las rechazadas. Una fila puede acumular varios
+ * motivos; `byReason` cuenta cada motivo por separado, así que su suma puede
+ * superar el número de filas descartadas.
+ */
+export const validateImport = (
+  fileName: string,
+  records: RadiologyRecord[],
+  rawRows: Record<string, string>[],
+  dateIssues: DateParseIssue[],
+  allowedModalities: string[],
+  malformedRows: number[] = []
+): { kept: RadiologyRecord[], report: ImportReport } => {
+  const badDateRows = new Set(dateIssues.map(i => i.row));
+  const badRows = new Set(malformedRows);
+  const byReason = Object.fromEntries(REJECT_REASONS.map(r => [r.key, 0])) as Record<RejectReason, number>;
+  const kept: RadiologyRecord[] = [];
+  const rejected: RejectedRow[] = [];
+
+  records.forEach((record, idx) => {
+    const row = idx + 1;
+    const reasons = reasonsFor(record, allowedModalities, badDateRows.has(row), badRows.has(row));
+    if (reasons.length === 0) {
+      kept.push(record);
+      return;
+    }
+    reasons.forEach(r => byReason[r]++);
+    rejected.push({ row, reasons, record, raw: rawRows[idx] });
+  });
+
+  return {
+    kept,
+    report: { fileName, rowsRead: records.length, rowsKept: kept.length, byReason, rejected }
+  };
+};
+
+// CSV con las columnas originales más la fila y los motivos, listo para devolver al RIS
+export const rejectedRowsToCsv = (rows: RejectedRow[], headers: string[]) =>
+  Papa.unparse({
+    fields: ['FILA', 'MOTIVOS', ...headers],
+    data: rows.map(r => [
+      r.row,
+      r.reasons.map(rejectReasonLabel).join(' / '),
+      ...headers.map(h => r.raw[h] ?? '')
+    ])
+  });
@@ -0,0 +1,90 @@
+import { describe, it, expect } from 'vitest';
+import * as XLSX from 'xlsx';
+import { ingestFile, describeFormat } from './ingestion';
+
+const HEADER = ['ID PACIENTE', 'NOMBRE PACIENTE', 'DESCRIPCION', 'MODALIDAD'];
+
+const textFile = (lines: string[], name = 'ris.csv') => new File([lines.join('\r\n')], name);
+
+describe('ingestFile', () => {
+  it('detecta el delimitador y salta las líneas previas al encabezado', async () => {
+    const result = await ingestFile(textFile([
+      'Reporte de producción',
+      'Generado 05/01/2026',
+      HEADER.join('|'),
+      '1|JUAN; PEREZ|TAC, CRANEO|CT',
+      '2|ANA LOPEZ|RX TORAX|CR'
+    ]));
+    expect(result.format).toEqual({ kind: 'delimited', delimiter: '|', encoding: 'utf-8' });
+    expect(result.headers).toEqual(HEADER);
+    expect(result.rows.map(r => r['NOMBRE PACIENTE'])).toEqual(['JUAN; PEREZ', 'ANA LOPEZ']);
+    expect(result.malformedRows).toEqual([]);
+  });
+
+  it('prefiere el delimitador que se repite igual en las filas de datos', async () => {
+    const result = await ingestFile(textFile([
+      HEADER.join(';'),
+      '1;JUAN PEREZ;TAC, CRANEO, SIMPLE;CT',
+      '2;ANA LOPEZ;RX TORAX;CR'
+    ]));
+    expect(result.format.delimiter).toBe(';');
+    expect(result.rows[0].DESCRIPCION).toBe('TAC, CRANEO, SIMPLE');
+  });
+
+  it('usa Latin-1 cuando el archivo no es UTF-8 válido', async () => {
+    const bytes = Uint8Array.from(`${HEADER.join(';')}\n1;MU\xd1OZ;TAC;CT`, c => c.charCodeAt(0));
+    const result = await ingestFile(new File([bytes], 'ris.txt'));
+    expect(result.format.encoding).toBe('windows-1252');
+    expect(result.rows[0]['NOMBRE PACIENTE']).toBe('MUÑOZ');
+  });
+
+  it('respeta el delimitador y la codificación elegidos', async () => {
+    const result = await ingestFile(textFile([HEADER.join(','), '1,JUAN,TAC,CT']), { delimiter: ';', encoding: 'utf-8' });
+    expect(result.headers).toEqual([HEADER.join(',')]);
+  });
+
+  it('lee columnas de ancho fijo cuando ningún delimitador separa el encabezado', async () => {
+    const result = await ingestFile(textFile([
+      'ID PACIENTE  DESCRIPCION       MODALIDAD',
+      '1            TAC DE CRANEO     CT',
+      '22           RX TORAX          CR'
+    ], 'ris.txt'));
+    expect(result.format).toEqual({ kind: 'fixed', encoding: 'utf-8' });
+    expect(result.headers).toEqual(['ID PACIENTE', 'DESCRIPCION', 'MODALIDAD']);
+    expect(result.rows[1]).toEqual({ 'ID PACIENTE': '22', DESCRIPCION: 'RX TORAX', MODALIDAD: 'CR' });
+  });
+
+  it('informa las filas con columnas de más o de menos y las comillas sin cerrar', async () => {
+    const result = await ingestFile(textFile([
+      HEADER.join(';'),
+      '1;JUAN;TAC;CT',
+      '2;ANA;RX',
+      '3;LUIS;RX;CR;EXTRA',
+      '4;"EVA;RX;CR',
+      '5;SOL;RX;CR'
+    ]));
+    expect(result.rows).toHaveLength(4);
+    expect(result.malformedRows).toEqual([2, 3, 4]);
+  });
+
+  it('lee la primera hoja de Excel que tiene encabezado', async () => {
+    const workbook = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet([['Notas']]), 'Portada');
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet([['Producción'], HEADER, [1, 'JUAN', 'TAC', 'CT'], []]), 'Datos');
+    const buffer = XLSX.write(workbook, { type: 'array', bookType: 'xlsx' });
+    const result = await ingestFile(new File([buffer], 'ris.xlsx'));
+    expect(result.format).toEqual({ kind: 'excel', sheet: 'Datos' });
+    expect(result.rows).toEqual([{ 'ID PACIENTE': '1', 'NOMBRE PACIENTE': 'JUAN', DESCRIPCION: 'TAC', MODALIDAD: 'CT' }]);
+  });
+
+  it('rechaza archivos sin fila de encabezado', async () => {
+    await expect(ingestFile(textFile(['a;b;c', '1;2;3']))).rejects.toThrow(/encabezado/);
+  });
+});
+
+describe('describeFormat', () => {
+  it('resume el formato detectado', () => {
+    expect(describeFormat({ kind: 'delimited', delimiter: ';', encoding: 'windows-1252' })).toBe('Punto y coma (;) · Latin-1');
+    expect(describeFormat({ kind: 'excel', sheet: 'Datos' })).toBe('Excel · hoja "Datos"');
+  });
+});
@@ -0,0 +1,179 @@
+import Papa from 'papaparse';
+import * as XLSX from 'xlsx';
+import { IngestOptions, IngestFormat, IngestResult, InputEncoding } from '../types';
+import { normalize } from './normalize';
+
+export const DEFAULT_INGEST_OPTIONS: IngestOptions = { delimiter: 'auto', encoding: 'auto' };
+
+export const DELIMITER_OPTIONS: { value: IngestOptions['delimiter']; label: string }[] = [
+  { value: 'auto', label: 'Detectar' },
+  { value: '|', label: 'Barra (|)' },
+  { value: ';', label: 'Punto y coma (;)' },
+  { value: ',', label: 'Coma (,)' },
+  { value: '\t', label: 'Tabulador' },
+  { value: 'fixed', label: 'Ancho fijo' }
+];
+
+export const ENCODING_OPTIONS: { value: InputEncoding; label: string }[] = [
+  { value: 'auto', label: 'Detectar' },
+  { value: 'utf-8', label: 'UTF-8' },
+  { value: 'windows-1252', label: 'Latin-1' }
+];
+
+export const ACCEPTED_EXTENSIONS = '.csv,.txt,.xlsx,.xls';
+
+const CANDIDATE_DELIMITERS = ['|', ';', ',', '\t'];
+
+// Heurística original: la fila de encabezado es la primera que menciona una columna conocida
+const isHeaderLine = (line: string) => {
+  const nLine = normalize(line);
+  return nLine.includes('ID PACIENTE') ||
+         nLine.includes('DESCRIPCION') ||
+         nLine.includes('MODALIDAD');
+};
+
+const HEADER_NOT_FOUND = 'No se encontró la fila de encabezado válida. Verifique el formato del archivo.';
+
+// UTF-8 estricto; si hay bytes inválidos el archivo viene de un sistema en Latin-1/Windows-1252
+const decode = (buffer: ArrayBuffer, encoding: InputEncoding) => {
+  if (encoding !== 'auto') return { text: new TextDecoder(encoding).decode(buffer), encoding };
+  try {
+    return { text: new TextDecoder('utf-8', { fatal: true }).decode(buffer), encoding: 'utf-8' };
+  } catch {
+    return { text: new TextDecoder('windows-1252').decode(buffer), encoding: 'windows-1252' };
+  }
+};
+
+/**
+ * Elige el delimitador que produce más columnas en el encabezado y el mismo
+ * número de columnas en las primeras filas de datos. Si ninguno separa al
+ * menos tres columnas se asume un archivo de ancho fijo.
+ */
+const detectDelimiter = (lines: string[]) => {
+  const [header, ...sample] = lines;
+  let best: string | null = null;
+  let bestCount = 2;
+
+  for (const d of CANDIDATE_DELIMITERS) {
+    const count = header.split(d).length;
+    if (count <= bestCount) continue;
+    const consistent = sample.filter(l => l.split(d).length === count).length;
+    if (sample.length > 0 && consistent < sample.length / 2) continue;
+    best = d;
+    bestCount = count;
+  }
+
+  return best;
+};
+
+// Columnas de ancho fijo: cada título del encabezado (separados por 2+ espacios) marca el inicio de una columna
+const parseFixedWidth = (lines: string[]) => {
+  const [header, ...body] = lines;
+  const starts: number[] = [];
+  const headers: string[] = [];
+  const re = /\S+(?: \S+)*/g;
+  let match: RegExpExecArray | null;
+  while ((match = re.exec(header))) {
+    starts.push(match.index);
+    headers.push(match[0]);
+  }
+
+  const rows = body
+    .filter(line => line.trim() !== '')
+    .map(line => {
+      const row: Record<string, string> = {};
+      headers.forEach((h, i) => {
+        row[h] = line.slice(starts[i], i + 1 < starts.length ? starts[i + 1] : undefined).trim();
+      });
+      return row;
+    });
+
+  return { headers, rows };
+};
+
+/**
+ * Filas que Papa no pudo separar bien. Los errores de comillas cuentan el
+ * encabezado en `row` y los de número de campos no; ambos se llevan a la
+ * numeración de filas de datos en base 1.
+ */
+const malformedRows = (errors: Papa.ParseError[], rowCount: number) => {
+  const rows = new Set<number>();
+  errors.forEach(e => {
+    if (e.row === undefined) return;
+    const index = e.type === 'Quotes' ? e.row - 1 : e.row;
+    rows.add(Math.min(Math.max(index, 0), rowCount - 1) + 1);
+  });
+  return Array.from(rows).filter(r => r > 0).sort((a, b) => a - b);
+};
+
+const parseText = (buffer: ArrayBuffer, options: IngestOptions): IngestResult => {
+  const { text, encoding } = decode(buffer, options.encoding);
+  const lines = text.split(/\r?\n/);
+  const headerIndex = lines.findIndex(isHeaderLine);
+  if (headerIndex === -1) throw new Error(HEADER_NOT_FOUND);
+
+  const content = lines.slice(headerIndex).filter(l => l.trim() !== '');
+  const delimiter = options.delimiter === 'auto' ? detectDelimiter(content.slice(0, 20)) : options.delimiter;
+
+  if (!delimiter || delimiter === 'fixed') {
+    return { ...parseFixedWidth(content), format: { kind: 'fixed', encoding } };
+  }
+
+  const results = Papa.parse<Record<string, string>>(content.join('\n'), {
+    header: true,
+    skipEmptyLines: true,
+    delimiter
+  });
+  return {
+    headers: results.meta.fields || [],
+    rows: results.data,
+    format: { kind: 'delimited', delimiter, encoding },
+    malformedRows: malformedRows(results.errors, results.data.length)
+  };
+};
+
+// Excel: primera hoja con fila de encabezado; las fechas llegan como seriales y las resuelve parseDate
+const parseWorkbook = (buffer: ArrayBuffer): IngestResult => {
+  const workbook = XLSX.read(buffer, { type: 'array' });
+
+  for (const sheet of workbook.SheetNames) {
+    const matrix = XLSX.utils.sheet_to_json<unknown[]>(workbook.Sheets[sheet], { header: 1, raw: true, defval: '' });
+    const headerIndex = matrix.findIndex(row => isHeaderLine(row.map(String).join(' ')));
+    if (headerIndex === -1) continue;
+
+    const headers = matrix[headerIndex].map(h => String(h).trim());
+    const rows = matrix
+      .slice(headerIndex + 1)
+      .filter(row => row.some(v => String(v).trim() !== ''))
+      .map(row => {
+        const record: Record<string, string> = {};
+        headers.forEach((h, i) => {
+          if (h) record[h] = row[i] === undefined || row[i] === null ? '' : String(row[i]);
+        });
+        return record;
+      });
+
+    return { headers: headers.filter(Boolean), rows, format: { kind: 'excel', sheet } };
+  }
+
+  throw new Error(HEADER_NOT_FOUND);
+};
+
+const isWorkbook = (file: File) => /\.xlsx?$/i.test(file.name);
+
+/**
+ * Lee un archivo del RIS (texto delimitado, ancho fijo o Excel) y devuelve
+ * las filas a partir de la fila de encabezado. Lanza Error con un mensaje legible.
+ */
+export const ingestFile = async (file: File, options: IngestOptions = DEFAULT_INGEST_OPTIONS): Promise<IngestResult> => {
+  const buffer = await file.arrayBuffer();
+  return isWorkbook(file) ? parseWorkbook(buffer) : parseText(buffer, options);
+};
+
+export const describeFormat = (format: IngestFormat) => {
+  if (format.kind === 'excel') return `Excel · hoja "${format.sheet}"`;
+  const encoding = ENCODING_OPTIONS.find(e => e.value === format.encoding)?.label ?? format.encoding;
+  if (format.kind === 'fixed') return `Ancho fijo · ${encoding}`;
+  const delimiter = DELIMITER_OPTIONS.find(d => d.value === format.delimiter)?.label ?? format.delimiter;
+  return `${delimiter} · ${encoding}`;
+};
@@ -0,0 +1,74 @@
+import { ModalityDefinition } from '../types';
+
+const STORAGE_KEY = 'medstats.modalities.v1';
+
+// Modalidades del servicio; la radiografía digital (DX) se cuenta como CR
+export const DEFAULT_MODALITIES: ModalityDefinition[] = [
+  { code: 'CT', name: 'Tomografía', included: true, aliases: [] },
+  { code: 'CR', name: 'Radiografía', included: true, aliases: ['DX'] },
+  { code: 'MG', name: 'Mamografía', included: true, aliases: [] },
+  { code: 'US', name: 'Ultrasonido', included: true, aliases: [] },
+  { code: 'MR', name: 'Resonancia Magnética', included: true, aliases: [] },
+  { code: 'RF', name: 'Fluoroscopia', included: true, aliases: [] },
+  { code: 'XA', name: 'Angiografía', included: true, aliases: [] }
+];
+
+const cleanCode = (code: string) => (code || '').trim().toUpperCase();
+
+// Código canónico de un valor del archivo: se resuelven los alias; los códigos desconocidos se devuelven tal cual
+export const resolveModality = (value: string, modalities: ModalityDefinition[]) => {
+  const code = cleanCode(value);
+  const match = modalities.find(m => m.code === code || m.aliases.includes(code));
+  return match ? match.code : code;
+};
+
+export const includedModalities = (modalities: ModalityDefinition[]) =>
+  modalities.filter(m => m.included).map(m => m.code);
+
+export const modalityName = (code: string, modalities: ModalityDefinition[]) =>
+  modalities.find(m => m.code === code)?.name || code;
+
+// Posición en el orden configurado; las modalidades no configuradas van al final
+export const modalityRank = (code: string, modalities: ModalityDefinition[]) => {
+  const idx = modalities.findIndex(m => m.code === code);
+  return idx === -1 ? modalities.length : idx;
+};
+
+// Devuelve el mensaje de error de la configuración o null si es válida
+export const validateModalities = (modalities: ModalityDefinition[]): string | null => {
+  const seen = new Map<string, string>();
+  for (const m of modalities) {
+    if (!m.code) return 'Hay una modalidad sin código';
+    for (const code of [m.code, ...m.aliases]) {
+      const owner = seen.get(code);
+      if (owner) return `El código ${code} está repetido (${owner} y ${m.code})`;
+      seen.set(code, m.code);
+    }
+  }
+  if (!modalities.some(m => m.included)) return 'Debe incluir al menos una modalidad';
+  return null;
+};
+
+const sanitize = (item: any): ModalityDefinition => ({
+  code: cleanCode(String(item?.code ?? '')),
+  name: String(item?.name ?? '').trim(),
+  included: item?.included !== false,
+  aliases: Array.isArray(item?.aliases) ? item.aliases.map((a: unknown) => cleanCode(String(a))).filter(Boolean) : []
+});
+
+export const loadModalities = (): ModalityDefinition[] => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return DEFAULT_MODALITIES;
+    const parsed = JSON.parse(raw);
+    const list = Array.isArray(parsed) ? parsed.map(sanitize) : [];
+    return list.length > 0 && validateModalities(list) === null ? list : DEFAULT_MODALITIES;
+  } catch (e) {
+    console.error('Error leyendo modalidades guardadas:', e);
+    return DEFAULT_MODALITIES;
+  }
+};
+
+export const saveModalities = (modalities: ModalityDefinition[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(modalities));
+};
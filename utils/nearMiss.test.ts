@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest';
+import { RadiologyRecord, ClassificationRule } from '../types';
+import { findNearMisses } from './nearMiss';
+
+const rule = (id: string, modality: string, pattern: string, matchType: ClassificationRule['matchType'] = 'contains'): ClassificationRule =>
+  ({ id, modality, matchType, pattern, subcategory: 'CONTRASTADOS' });
+
+const record = (modalidad: string, descripcion: string, classified = false) => ({
+  modalidad,
+  descripcion,
+  classification: classified ? { ruleId: 'x' } : null
+} as RadiologyRecord);
+
+const rules = [
+  rule('uro', 'CT', 'UROTAC'),
+  rule('angio', 'CT', 'ANGIOTAC CORONARIA'),
+  rule('kw', '*', 'CONTRASTE', 'keyword')
+];
+
+describe('findNearMisses', () => {
+  it('sugiere la entrada de lista más parecida y agrupa las descripciones repetidas', () => {
+    const misses = findNearMisses([
+      record('CT', 'URO TAC SIMPLE'),
+      record('ct', 'uro-tac  simple'),
+      record('CT', 'ANGIOTAC CORONARIAS')
+    ], rules);
+    expect(misses.map(m => [m.description, m.rule.id, m.count])).toEqual([
+      ['URO TAC SIMPLE', 'uro', 2],
+      ['ANGIOTAC CORONARIAS', 'angio', 1]
+    ]);
+    expect(misses[0].score).toBe(1);
+    expect(misses[1].score).toBeGreaterThan(0.85);
+  });
+
+  it('ignora los estudios ya clasificados, otras modalidades y las reglas de cualquier modalidad', () => {
+    expect(findNearMisses([
+      record('CT', 'URO TAC', true),
+      record('US', 'URO TAC'),
+      record('CR', 'CONTRASTES')
+    ], rules)).toEqual([]);
+  });
+
+  it('descarta descripciones por debajo del umbral', () => {
+    expect(findNearMisses([record('CT', 'TAC DE CRANEO SIMPLE')], rules)).toEqual([]);
+    expect(findNearMisses([record('CT', 'ANGIOTAC CORONARIAS')], rules, 0.99)).toEqual([]);
+  });
+});
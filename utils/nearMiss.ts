@@ -0,0 +1,74 @@
+import { RadiologyRecord, ClassificationRule, NearMiss } from '../types';
+import { normalize, levenshtein } from './normalize';
+import { validateRule } from './classificationRules';
+
+export const DEFAULT_NEAR_MISS_THRESHOLD = 0.85;
+
+// Sin espacios: "CERVICALCON" y "CERVICAL CON" cuentan como iguales
+const compact = (s: string) => s.replace(/\s+/g, '');
+
+/**
+ * Mejor similitud (0-1) entre la entrada y algún tramo de la descripción con
+ * aproximadamente el mismo número de palabras. Los tramos con longitudes muy
+ * distintas se descartan antes de calcular la distancia.
+ */
+const bestWindowSimilarity = (description: string, pattern: string, threshold: number) => {
+  const target = compact(pattern);
+  const tokens = description.split(/\s+/).filter(Boolean);
+  const size = pattern.split(/\s+/).filter(Boolean).length;
+  let best = 0;
+
+  for (let n = Math.max(1, size - 1); n <= Math.min(tokens.length, size + 1); n++) {
+    for (let start = 0; start + n <= tokens.length; start++) {
+      const window = tokens.slice(start, start + n).join('');
+      const longest = Math.max(window.length, target.length);
+      if (1 - Math.abs(window.length - target.length) / longest < threshold) continue;
+      best = Math.max(best, 1 - levenshtein(window, target) / longest);
+    }
+  }
+  return best;
+};
+
+/**
+ * Descripciones que no coincidieron con ninguna regla pero se parecen a una
+ * entrada de lista (contiene/exacto) de su modalidad. Se agrupan por
+ * modalidad + descripción normalizada y se ordenan por similitud.
+ */
+export const findNearMisses = (
+  data: RadiologyRecord[],
+  rules: ClassificationRule[],
+  threshold: number = DEFAULT_NEAR_MISS_THRESHOLD
+): NearMiss[] => {
+  const listRules = rules.filter(r =>
+    r.modality !== '*' && (r.matchType === 'contains' || r.matchType === 'exact') && validateRule(r) === null
+  );
+  const modalities = new Set(listRules.map(r => r.modality));
+
+  const groups = new Map<string, { modality: string; normalized: string; description: string; count: number }>();
+  data.forEach(d => {
+    if (d.classification) return;
+    const modality = (d.modalidad || '').toUpperCase().trim();
+    if (!modalities.has(modality)) return;
+    const normalized = normalize(d.descripcion || '');
+    if (!normalized) return;
+    const key = `${modality}|${normalized}`;
+    const group = groups.get(key);
+    if (group) group.count++;
+    else groups.set(key, { modality, normalized, description: d.descripcion.trim(), count: 1 });
+  });
+
+  const result: NearMiss[] = [];
+  groups.forEach(group => {
+    let best: NearMiss | null = null;
+    for (const rule of listRules) {
+      if (rule.modality !== group.modality) continue;
+      const score = bestWindowSimilarity(group.normalized, normalize(rule.pattern), threshold);
+      if (score >= threshold && (!best || score > best.score)) {
+        best = { modality: group.modality, description: group.description, count: group.count, rule, score };
+      }
+    }
+    if (best) result.push(best);
+  });
+
+  return result.sort((a, b) => b.score - a.score || b.count - a.count);
+};
@@ -0,0 +1,23 @@
+// Helper to normalize strings for comparison (removes accents, punctuation, collapses spaces)
+export const normalize = (str: string) => {
+  return (str || '')
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "") // Remove accents
+    .toUpperCase()
+    .replace(/[().,;:-]/g, ' ')     // Replace punctuation with space
+    .replace(/\s+/g, ' ')           // Collapse multiple spaces
+    .trim();
+};
+
+// Distancia de edición clásica con dos filas
+export const levenshtein = (a: string, b: string) => {
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const curr = [i];
+    for (let j = 1; j <= b.length; j++) {
+      curr[j] = Math.min(prev[j] + 1, curr[j - 1] + 1, prev[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    prev = curr;
+  }
+  return prev[b.length];
+};
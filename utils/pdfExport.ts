@@ -0,0 +1,221 @@
+import { jsPDF } from 'jspdf';
+import { autoTable, RowInput, Styles } from 'jspdf-autotable';
+import { RadiologyRecord, DashboardFilters, ReportOptions, ReportSignature } from '../types';
+import { formatHours } from './turnaround';
+import { filterFileLabel } from './filters';
+import { buildReportModel, specialistFilterLabel, specialistCaption, activeFilterLabels, DEFAULT_REPORT_OPTIONS } from './reportModel';
+import { STANDARD_SUBCATEGORY, subcategoryTag } from './classificationRules';
+import { formatScore } from './weights';
+import { privacyLabel, privacyFileSuffix } from './privacy';
+
+// Colores corporativos en RGB para jsPDF
+const BRAND: [number, number, number] = [2, 165, 141];
+const DARK: [number, number, number] = [37, 37, 37];
+const CONTRAST: [number, number, number] = [255, 77, 99];
+const MUTED: [number, number, number] = [102, 102, 102];
+
+const MARGIN = 14; // mm
+
+// Resaltado de celdas: contraste en rojo, cualquier otra subcategoría no estándar en verde
+const highlightFor = (subcategory: string | null) => {
+  if (!subcategory || subcategory === STANDARD_SUBCATEGORY) return null;
+  return subcategory === 'CONTRASTADOS'
+    ? { fillColor: [255, 240, 240], textColor: CONTRAST, fontStyle: 'bold' }
+    : { fillColor: [240, 255, 244], textColor: BRAND, fontStyle: 'bold' };
+};
+
+// Posición vertical tras la última tabla dibujada por autoTable
+const lastY = (doc: jsPDF) => (doc as jsPDF & { lastAutoTable?: { finalY: number } }).lastAutoTable?.finalY ?? MARGIN;
+
+const sectionTitle = (doc: jsPDF, text: string, y: number) => {
+  const width = doc.internal.pageSize.getWidth() - MARGIN * 2;
+  doc.setFillColor(...DARK);
+  doc.rect(MARGIN, y, width, 8, 'F');
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(10);
+  doc.setTextColor(255, 255, 255);
+  doc.text(text, MARGIN + 3, y + 5.5);
+  return y + 11;
+};
+
+const headerBox = (doc: jsPDF, lines: [string, string][], y: number) => {
+  const width = doc.internal.pageSize.getWidth() - MARGIN * 2;
+  const height = lines.length * 5.5 + 4;
+  doc.setFillColor(250, 250, 250);
+  doc.setDrawColor(204, 204, 204);
+  doc.rect(MARGIN, y, width, height, 'FD');
+  doc.setFontSize(9);
+  lines.forEach(([name, value], i) => {
+    const lineY = y + 6 + i * 5.5;
+    doc.setFont('helvetica', 'bold');
+    doc.setTextColor(...DARK);
+    doc.text(`${name}:`, MARGIN + 3, lineY);
+    doc.setFont('helvetica', i === 0 ? 'bold' : 'normal');
+    doc.setTextColor(...(i === 0 ? BRAND : DARK));
+    doc.text(value, MARGIN + 48, lineY);
+  });
+  return y + height + 6;
+};
+
+const signatureBlock = (doc: jsPDF, signature: ReportSignature, y: number) => {
+  const pageHeight = doc.internal.pageSize.getHeight();
+  if (y + 40 > pageHeight - MARGIN) {
+    doc.addPage();
+    y = MARGIN;
+  }
+  const center = doc.internal.pageSize.getWidth() / 2;
+  const lineY = y + 25;
+  doc.setDrawColor(...DARK);
+  doc.line(center - 40, lineY, center + 40, lineY);
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(10);
+  doc.setTextColor(...DARK);
+  doc.text(signature.name, center, lineY + 5, { align: 'center' });
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(8);
+  doc.setTextColor(...MUTED);
+  doc.text(signature.title, center, lineY + 10, { align: 'center' });
+};
+
+// Pie en todas las páginas: marca de tiempo de generación y numeración
+const stampFooters = (doc: jsPDF, generatedAt: Date) => {
+  const total = doc.getNumberOfPages();
+  for (let i = 1; i <= total; i++) {
+    doc.setPage(i);
+    const width = doc.internal.pageSize.getWidth();
+    const height = doc.internal.pageSize.getHeight();
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(7);
+    doc.setTextColor(...MUTED);
+    doc.text(`Generado: ${generatedAt.toLocaleString()}  ·  MedStats Pro Intelligence - FortBA®`, MARGIN, height - 7);
+    doc.text(`Página ${i} de ${total}`, width - MARGIN, height - 7, { align: 'right' });
+  }
+};
+
+const groupBySpecialist = (records: RadiologyRecord[]) =>
+  records.reduce((acc, r) => {
+    const spec = (r.realizado_por || 'N/A').trim();
+    (acc[spec] = acc[spec] || []).push(r);
+    return acc;
+  }, {} as Record<string, RadiologyRecord[]>);
+
+/**
+ * PDF del reporte de productividad generado en el navegador: encabezado,
+ * cuadro resumen por modalidad y el detalle con un salto de página por especialista.
+ */
+export const exportToPdf = (
+  data: RadiologyRecord[],
+  filters: DashboardFilters,
+  options: ReportOptions = DEFAULT_REPORT_OPTIONS
+) => {
+  const model = buildReportModel(data, filters, options);
+  const { records, dateRange, columns, specStats, regionStats, turnaround } = model;
+
+  const doc = new jsPDF({ orientation: 'portrait', unit: 'mm', format: 'letter' });
+  const tableStyles = {
+    theme: 'grid' as const,
+    styles: { font: 'helvetica', fontSize: 7.5, cellPadding: 1.5, textColor: DARK, lineColor: [0, 0, 0] as [number, number, number], lineWidth: 0.1 },
+    headStyles: { fillColor: [242, 242, 242] as [number, number, number], textColor: DARK, fontStyle: 'bold' as const, halign: 'center' as const },
+    margin: { left: MARGIN, right: MARGIN, bottom: 14 }
+  };
+
+  // Título y caja de encabezado
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(16);
+  doc.setTextColor(...BRAND);
+  doc.text('REPORTE DE PRODUCTIVIDAD RADIOLÓGICA', doc.internal.pageSize.getWidth() / 2, 20, { align: 'center' });
+  doc.setDrawColor(...BRAND);
+  doc.setLineWidth(0.6);
+  doc.line(MARGIN, 23, doc.internal.pageSize.getWidth() - MARGIN, 23);
+  doc.setLineWidth(0.2);
+
+  const headerLines: [string, string][] = [
+    ['PERIODO ANALIZADO', `${dateRange.min} - ${dateRange.max}`],
+    ['FILTRO ESPECIALISTA', specialistFilterLabel(filters)],
+    ...activeFilterLabels(filters, options.anonymized),
+    ['DATOS DE PACIENTES', privacyLabel(options.anonymized)],
+    ['FECHA GENERACIÓN', model.generatedAt.toLocaleString()],
+    ['TOTAL ESTUDIOS', String(records.length)]
+  ];
+  let y = headerBox(doc, headerLines, 28);
+
+  // 1. Cuadro resumen
+  y = sectionTitle(doc, '1. CUADRO RESUMEN DE PRODUCTIVIDAD POR MODALIDAD', y);
+  autoTable(doc, {
+    ...tableStyles,
+    startY: y,
+    head: [['ESPECIALISTA', 'TOTAL', 'RVU', ...columns.map(c => c.label.toUpperCase())]],
+    body: specStats.map(s => [s.name, s.total, formatScore(s.weighted), ...columns.map(c => s.counts[c.key])]) as RowInput[],
+    columnStyles: { 0: { halign: 'left', fontStyle: 'bold', cellWidth: 55 }, 1: { fontStyle: 'bold' }, 2: { fontStyle: 'bold', textColor: BRAND } },
+    bodyStyles: { halign: 'center' },
+    didParseCell: (hook) => {
+      if (hook.section !== 'body' || hook.column.index < 3) return;
+      const highlight = highlightFor(columns[hook.column.index - 3].subcategory);
+      if (highlight) Object.assign(hook.cell.styles, highlight);
+    }
+  });
+
+  // Mismo cuadro por región anatómica
+  y = sectionTitle(doc, 'ESTUDIOS POR REGIÓN ANATÓMICA', lastY(doc) + 6);
+  autoTable(doc, {
+    ...tableStyles,
+    startY: y,
+    head: [['REGIÓN', 'TOTAL', 'RVU', ...columns.map(c => c.label.toUpperCase())]],
+    body: regionStats.map(s => [s.name, s.total, formatScore(s.weighted), ...columns.map(c => s.counts[c.key])]) as RowInput[],
+    columnStyles: { 0: { halign: 'left', fontStyle: 'bold', cellWidth: 55 }, 1: { fontStyle: 'bold' }, 2: { fontStyle: 'bold', textColor: BRAND } },
+    bodyStyles: { halign: 'center' }
+  });
+
+  // Tiempos de reporte por especialista
+  y = sectionTitle(doc, `TIEMPOS DE REPORTE (SLA ${options.slaHours} H)`, lastY(doc) + 6);
+  autoTable(doc, {
+    ...tableStyles,
+    startY: y,
+    head: [['ESPECIALISTA', 'MEDIDOS', 'MEDIANA', 'P90', 'MÁXIMO', 'FUERA SLA']],
+    body: [
+      ...turnaround.bySpecialist.map(r => [r.key, r.count, formatHours(r.median), formatHours(r.p90), formatHours(r.max), r.slaBreaches]),
+      ['GLOBAL', turnaround.overall.count, formatHours(turnaround.overall.median), formatHours(turnaround.overall.p90), formatHours(turnaround.overall.max), turnaround.overall.slaBreaches]
+    ] as RowInput[],
+    columnStyles: { 0: { halign: 'left', fontStyle: 'bold', cellWidth: 55 } },
+    bodyStyles: { halign: 'center' }
+  });
+
+  // 2. Detalle: una página (horizontal) por especialista; en modo privacidad sin columnas de paciente
+  const detailColumns: { head: string; value: (p: RadiologyRecord) => string; style?: Partial<Styles> }[] = [
+    { head: 'ESTADO REPORTE', value: p => p.estado_reporte || 'N/A', style: { halign: 'center', cellWidth: 24 } },
+    { head: 'FECHA REALIZADO', value: p => p.fecha_realizado || 'N/A', style: { halign: 'center', cellWidth: 28 } },
+    { head: 'FECHA REPORTE', value: p => p.fecha_reporte || 'N/A', style: { halign: 'center', cellWidth: 28 } },
+    ...(options.anonymized ? [] : [
+      { head: 'ID PACIENTE', value: (p: RadiologyRecord) => p.id_paciente || 'N/A', style: { halign: 'center' as const, cellWidth: 24 } },
+      { head: 'NOMBRE PACIENTE', value: (p: RadiologyRecord) => p.nombre_paciente || 'N/A', style: { fontStyle: 'bold' as const, cellWidth: 45 } }
+    ]),
+    { head: 'DESCRIPCIÓN', value: p => p.descripcion || 'N/A' },
+    { head: 'REGIÓN', value: p => p.bodyRegion, style: { halign: 'center', cellWidth: 26 } },
+    { head: 'MODALIDAD', value: p => `${p.modalidad || 'N/A'}${subcategoryTag(p.subcategory)}`, style: { halign: 'center', cellWidth: 30 } }
+  ];
+  const modalityColumn = detailColumns.length - 1;
+
+  Object.entries(groupBySpecialist(records)).forEach(([spec, rows]) => {
+    doc.addPage('letter', 'landscape');
+    const detailY = sectionTitle(doc, `2. RELACIÓN DETALLADA DE ${options.anonymized ? 'ESTUDIOS' : 'PACIENTES'} - ${specialistCaption(spec, options).toUpperCase()} (${rows.length})`, MARGIN);
+    autoTable(doc, {
+      ...tableStyles,
+      startY: detailY,
+      head: [detailColumns.map(c => c.head)],
+      body: rows.map(p => detailColumns.map(c => c.value(p))),
+      columnStyles: Object.fromEntries(detailColumns.map((c, i) => [i, c.style || {}])),
+      didParseCell: (hook) => {
+        if (hook.section !== 'body' || hook.column.index !== modalityColumn) return;
+        const highlight = highlightFor(rows[hook.row.index].subcategory);
+        if (highlight) Object.assign(hook.cell.styles, highlight);
+      }
+    });
+  });
+
+  if (options.signature && options.signature.name.trim()) {
+    signatureBlock(doc, options.signature, lastY(doc) + 6);
+  }
+
+  stampFooters(doc, model.generatedAt);
+  doc.save(`Reporte_MedStats_${filterFileLabel(filters)}${privacyFileSuffix(options.anonymized)}_${model.generatedAt.getTime()}.pdf`);
+};
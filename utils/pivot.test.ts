@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest';
+import { RadiologyRecord } from '../types';
+import { buildPivot, pivotToRows, pivotToCsv, pivotFileName, sanitizePivotConfig, DEFAULT_PIVOT_CONFIG, PIVOT_TOTAL } from './pivot';
+
+const HOUR = 60 * 60 * 1000;
+// 5 de enero de 2026 fue lunes
+const MONDAY = new Date(2026, 0, 5, 8).getTime();
+
+const record = (modalidad: string, day: number | null, weight = 1, reportHours: number | null = null) => ({
+  modalidad,
+  realizado_por: 'PEREZ',
+  weight,
+  fecha_realizado_ts: day === null ? null : MONDAY + day * 24 * HOUR,
+  fecha_reporte_ts: day === null || reportHours === null ? null : MONDAY + day * 24 * HOUR + reportHours * HOUR
+} as RadiologyRecord);
+
+const data = [
+  record('CT', 0, 2),
+  record('ct', 0, 1.5),
+  record('US', 1),
+  record('CR', 6),
+  record('US', null)
+];
+
+describe('buildPivot', () => {
+  it('cruza las dos dimensiones con totales por fila, columna y general', () => {
+    const result = buildPivot(data, { rows: 'modality', columns: 'weekday', measure: 'count' });
+    expect(result.rowKeys).toEqual(['CR', 'CT', 'US']);
+    expect(result.columnKeys).toEqual(['LUNES', 'MARTES', 'DOMINGO', 'SIN FECHA']);
+    expect(result.cells.CT).toEqual({ LUNES: 2 });
+    expect(result.rowTotals).toEqual({ CT: 2, US: 2, CR: 1 });
+    expect(result.columnTotals).toEqual({ LUNES: 2, MARTES: 1, DOMINGO: 1, 'SIN FECHA': 1 });
+    expect(result.total).toBe(5);
+    expect(result.max).toBe(2);
+  });
+
+  it('suma el peso RVU con la medida ponderada', () => {
+    const result = buildPivot(data, { rows: 'modality', columns: 'none', measure: 'weighted' });
+    expect(result.columnKeys).toEqual([PIVOT_TOTAL]);
+    expect(result.cells.CT[PIVOT_TOTAL]).toBe(3.5);
+    expect(result.total).toBe(6.5);
+  });
+
+  it('agrupa el tiempo de reporte en tramos, los no medidos al final', () => {
+    const result = buildPivot(
+      [record('CT', 0, 1, 0.5), record('CT', 0, 1, 30), record('CT', 0, 1, 4), record('CT', 0)],
+      { rows: 'none', columns: 'turnaround', measure: 'count' }
+    );
+    expect(result.columnKeys).toEqual(['< 1 h', '4-12 h', '24-48 h', 'SIN MEDIR']);
+  });
+});
+
+describe('exportación', () => {
+  const config = { rows: 'modality', columns: 'none', measure: 'weighted' } as const;
+  const result = buildPivot([record('CT', 0, 1 / 3), record('CT', 1, 1 / 3)], config);
+
+  it('agrega encabezado y fila de totales, con el peso redondeado', () => {
+    expect(pivotToRows(result, config)).toEqual([
+      ['Modalidad', PIVOT_TOTAL, 'Total'],
+      ['CT', 0.67, 0.67],
+      ['Total', 0.67, 0.67]
+    ]);
+    expect(pivotToCsv(result, config)).toBe('\ufeffModalidad,TOTAL,Total\r\nCT,0.67,0.67\r\nTotal,0.67,0.67');
+  });
+
+  it('nombra la descarga con el filtro y la marca de anonimizado', () => {
+    const filters = { specialist: 'PEREZ JUAN' } as Parameters<typeof pivotFileName>[0];
+    expect(pivotFileName(filters, true, 'csv')).toMatch(/^Pivote_PEREZ_JUAN_Anonimizado_\d+\.csv$/);
+    expect(pivotFileName(filters, false, 'xlsx')).toMatch(/^Pivote_PEREZ_JUAN_\d+\.xlsx$/);
+  });
+});
+
+describe('sanitizePivotConfig', () => {
+  it('vuelve al valor por defecto en lo que no reconoce', () => {
+    expect(sanitizePivotConfig({ rows: 'region', columns: 'bogus' as any })).toEqual({ ...DEFAULT_PIVOT_CONFIG, rows: 'region' });
+    expect(sanitizePivotConfig(undefined)).toEqual(DEFAULT_PIVOT_CONFIG);
+  });
+});
@@ -0,0 +1,140 @@
+import Papa from 'papaparse';
+import { RadiologyRecord, PivotConfig, PivotDimension, PivotMeasure, PivotResult, DashboardFilters } from '../types';
+import { getTurnaroundHours } from './turnaround';
+import { compareRegions } from './regions';
+import { stageLabel } from './reportStatus';
+import { filterFileLabel } from './filters';
+import { privacyFileSuffix } from './privacy';
+
+export const DEFAULT_PIVOT_CONFIG: PivotConfig = { rows: 'modality', columns: 'weekday', measure: 'count' };
+
+// Etiqueta de la fila/columna única cuando la dimensión es 'none'
+export const PIVOT_TOTAL = 'TOTAL';
+const NO_DATE = 'SIN FECHA';
+
+const WEEKDAYS = ['LUNES', 'MARTES', 'MIÉRCOLES', 'JUEVES', 'VIERNES', 'SÁBADO', 'DOMINGO'];
+
+// Tramos de tiempo de reporte en horas (max null = sin límite)
+const TURNAROUND_BUCKETS: { label: string; max: number | null }[] = [
+  { label: '< 1 h', max: 1 },
+  { label: '1-4 h', max: 4 },
+  { label: '4-12 h', max: 12 },
+  { label: '12-24 h', max: 24 },
+  { label: '24-48 h', max: 48 },
+  { label: '> 48 h', max: null }
+];
+const NOT_MEASURED = 'SIN MEDIR';
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+const fromRealizado = (record: RadiologyRecord, format: (d: Date) => string) =>
+  record.fecha_realizado_ts === null ? NO_DATE : format(new Date(record.fecha_realizado_ts));
+
+const turnaroundBucket = (record: RadiologyRecord) => {
+  const hours = getTurnaroundHours(record);
+  if (hours === null) return NOT_MEASURED;
+  return TURNAROUND_BUCKETS.find(b => b.max !== null && hours < b.max)?.label ?? TURNAROUND_BUCKETS[TURNAROUND_BUCKETS.length - 1].label;
+};
+
+// Orden fijo por posición en una lista; lo que no está en ella va al final
+const byList = (list: string[]) => (a: string, b: string) => {
+  const rank = (v: string) => (list.includes(v) ? list.indexOf(v) : list.length);
+  return rank(a) - rank(b) || a.localeCompare(b);
+};
+
+// Alfabético con los valores "SIN ..." al final
+const alphabetical = (a: string, b: string) => {
+  const missing = (v: string) => (v.startsWith('SIN ') ? 1 : 0);
+  return missing(a) - missing(b) || a.localeCompare(b, 'es', { numeric: true });
+};
+
+export const PIVOT_DIMENSIONS: {
+  key: PivotDimension;
+  label: string;
+  value: (record: RadiologyRecord) => string;
+  compare: (a: string, b: string) => number;
+}[] = [
+  { key: 'none', label: 'Sin desglose', value: () => PIVOT_TOTAL, compare: alphabetical },
+  { key: 'specialist', label: 'Especialista', value: r => (r.realizado_por || 'SIN ASIGNAR').trim(), compare: alphabetical },
+  { key: 'modality', label: 'Modalidad', value: r => (r.modalidad || 'N/A').trim().toUpperCase(), compare: alphabetical },
+  { key: 'subcategory', label: 'Subcategoría', value: r => r.subcategory, compare: alphabetical },
+  { key: 'region', label: 'Región', value: r => r.bodyRegion, compare: compareRegions },
+  { key: 'reportStatus', label: 'Estado de reporte', value: r => r.reportStatus, compare: alphabetical },
+  { key: 'reportStage', label: 'Etapa de reporte', value: r => stageLabel(r.reportStage).toUpperCase(), compare: byList(['FIRMADO', 'PRELIMINAR', 'PENDIENTE']) },
+  { key: 'weekday', label: 'Día de la semana', value: r => fromRealizado(r, d => WEEKDAYS[(d.getDay() + 6) % 7]), compare: byList(WEEKDAYS) },
+  { key: 'month', label: 'Mes', value: r => fromRealizado(r, d => `${d.getFullYear()}-${pad(d.getMonth() + 1)}`), compare: alphabetical },
+  { key: 'hour', label: 'Hora de realización', value: r => fromRealizado(r, d => `${pad(d.getHours())}:00`), compare: alphabetical },
+  { key: 'turnaround', label: 'Tiempo de reporte', value: turnaroundBucket, compare: byList([...TURNAROUND_BUCKETS.map(b => b.label), NOT_MEASURED]) }
+];
+
+export const PIVOT_MEASURES: { key: PivotMeasure; label: string }[] = [
+  { key: 'count', label: 'Estudios' },
+  { key: 'weighted', label: 'RVU ponderado' }
+];
+
+const dimension = (key: PivotDimension) => PIVOT_DIMENSIONS.find(d => d.key === key) || PIVOT_DIMENSIONS[0];
+
+export const pivotDimensionLabel = (key: PivotDimension) => dimension(key).label;
+export const pivotMeasureLabel = (key: PivotMeasure) => PIVOT_MEASURES.find(m => m.key === key)?.label || key;
+
+export const pivotLabel = (config: PivotConfig) =>
+  `${pivotMeasureLabel(config.measure)} por ${dimension(config.rows).label} × ${dimension(config.columns).label}`;
+
+// Tabla cruzada de los registros; las filas y columnas solo incluyen valores presentes
+export const buildPivot = (data: RadiologyRecord[], config: PivotConfig): PivotResult => {
+  const rowDim = dimension(config.rows);
+  const colDim = dimension(config.columns);
+  const cells: Record<string, Record<string, number>> = {};
+  const rowTotals: Record<string, number> = {};
+  const columnTotals: Record<string, number> = {};
+  let total = 0;
+
+  data.forEach(record => {
+    const row = rowDim.value(record);
+    const col = colDim.value(record);
+    const amount = config.measure === 'weighted' ? record.weight : 1;
+    if (!cells[row]) cells[row] = {};
+    cells[row][col] = (cells[row][col] || 0) + amount;
+    rowTotals[row] = (rowTotals[row] || 0) + amount;
+    columnTotals[col] = (columnTotals[col] || 0) + amount;
+    total += amount;
+  });
+
+  const max = Object.values(cells).reduce((acc, row) => Math.max(acc, ...Object.values(row)), 0);
+  return {
+    rowKeys: Object.keys(rowTotals).sort(rowDim.compare),
+    columnKeys: Object.keys(columnTotals).sort(colDim.compare),
+    cells,
+    rowTotals,
+    columnTotals,
+    total,
+    max
+  };
+};
+
+// Celdas de la grilla con encabezado y totales, compartidas por la exportación a Excel y CSV
+export const pivotToRows = (result: PivotResult, config: PivotConfig): (string | number)[][] => {
+  const round = (v: number) => (config.measure === 'weighted' ? Math.round(v * 100) / 100 : v);
+  return [
+    [dimension(config.rows).label, ...result.columnKeys, 'Total'],
+    ...result.rowKeys.map(row => [
+      row,
+      ...result.columnKeys.map(col => round(result.cells[row][col] || 0)),
+      round(result.rowTotals[row])
+    ]),
+    ['Total', ...result.columnKeys.map(col => round(result.columnTotals[col])), round(result.total)]
+  ];
+};
+
+export const pivotToCsv = (result: PivotResult, config: PivotConfig) =>
+  '\ufeff' + Papa.unparse(pivotToRows(result, config));
+
+// Mismo nombre para la descarga Excel y CSV, con el filtro y la marca de anonimizado
+export const pivotFileName = (filters: DashboardFilters, anonymized: boolean | undefined, extension: 'xlsx' | 'csv') =>
+  `Pivote_${filterFileLabel(filters)}${privacyFileSuffix(anonymized)}_${new Date().getTime()}.${extension}`;
+
+export const sanitizePivotConfig = (config: Partial<PivotConfig> | undefined): PivotConfig => ({
+  rows: PIVOT_DIMENSIONS.some(d => d.key === config?.rows) ? config.rows : DEFAULT_PIVOT_CONFIG.rows,
+  columns: PIVOT_DIMENSIONS.some(d => d.key === config?.columns) ? config.columns : DEFAULT_PIVOT_CONFIG.columns,
+  measure: PIVOT_MEASURES.some(m => m.key === config?.measure) ? config.measure : DEFAULT_PIVOT_CONFIG.measure
+});
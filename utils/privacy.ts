@@ -0,0 +1,64 @@
+import { RadiologyRecord, PrivacySettings, ColumnMapping, MappableField } from '../types';
+import { normalize } from './normalize';
+
+export const newPrivacySettings = (): PrivacySettings => {
+  const bytes = new Uint8Array(16);
+  crypto.getRandomValues(bytes);
+  return { enabled: false, salt: Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('') };
+};
+
+// Hash de 53 bits (cyrb53): síncrono y suficiente para seudónimos, no para seguridad criptográfica
+const hash53 = (text: string) => {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text.charCodeAt(i);
+    h1 = Math.imul(h1 ^ ch, 2654435761);
+    h2 = Math.imul(h2 ^ ch, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return 4294967296 * (2097151 & h2) + (h1 >>> 0);
+};
+
+// Mismo ID y misma sal dan siempre el mismo seudónimo
+export const pseudonymizeId = (id: string, salt: string) => {
+  const clean = (id || '').trim();
+  if (!clean) return '';
+  return `P-${hash53(`${salt}:${clean}`).toString(36).toUpperCase().padStart(11, '0').slice(-8)}`;
+};
+
+// Partículas que no aportan inicial (ej. "PEREZ DE LA CRUZ")
+const NAME_PARTICLES = new Set(['DE', 'DEL', 'LA', 'LAS', 'LOS', 'Y']);
+
+export const maskName = (name: string) => {
+  const words = normalize(name).split(' ').filter(w => /^[A-Z]/.test(w) && !NAME_PARTICLES.has(w));
+  return words.map(w => `${w[0]}.`).join('');
+};
+
+export const anonymizeRecord = (record: RadiologyRecord, salt: string): RadiologyRecord => ({
+  ...record,
+  id_paciente: pseudonymizeId(record.id_paciente, salt),
+  nombre_paciente: maskName(record.nombre_paciente)
+});
+
+/**
+ * Columnas del archivo original que pueden mostrarse o descargarse en modo
+ * privacidad: solo las asignadas a campos del estudio. Las que no se asignaron
+ * (teléfono, dirección, CURP...) pueden traer datos del paciente y se omiten.
+ */
+export const privacySafeHeaders = (headers: string[], mapping: ColumnMapping) => {
+  const patientFields: MappableField[] = ['id_paciente', 'nombre_paciente'];
+  const safe = new Set(
+    (Object.keys(mapping) as MappableField[])
+      .filter(field => !patientFields.includes(field))
+      .map(field => mapping[field])
+  );
+  return headers.filter(h => safe.has(h));
+};
+
+// Constancia en cada reporte de si salió con datos de pacientes
+export const privacyLabel = (anonymized?: boolean) =>
+  anonymized ? 'ANONIMIZADOS (iniciales e ID seudónimo, sin columnas de paciente)' : 'IDENTIFICABLES';
+
+export const privacyFileSuffix = (anonymized?: boolean) => (anonymized ? '_Anonimizado' : '');
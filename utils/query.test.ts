@@ -0,0 +1,159 @@
+import { describe, it, expect } from 'vitest';
+import { RadiologyRecord } from '../types';
+import { parseQuery, compileQuery, queryMentionsPatient } from './query';
+
+const record = (overrides: Partial<RadiologyRecord> = {}): RadiologyRecord => ({
+  id_paciente: 'P001',
+  nombre_paciente: 'Juan Pérez',
+  descripcion: 'TAC DE ABDOMEN TOTAL',
+  region: '',
+  fecha_realizado: '',
+  modalidad: 'CT',
+  realizado_por: 'GOMEZ ANA',
+  estado_reporte: 'firmado',
+  fecha_reporte: '',
+  fecha_realizado_ts: new Date(2026, 0, 10, 8).getTime(),
+  fecha_reporte_ts: new Date(2026, 0, 11, 20).getTime(),
+  subcategory: 'CONTRASTADOS',
+  classification: null,
+  weight: 2,
+  reportStatus: 'FIRMADO',
+  reportStage: 'final',
+  specialistOriginal: 'DR. GOMEZ ANA',
+  bodyRegion: 'ABDOMEN',
+  regionInferred: true,
+  source: 's1',
+  ...overrides
+});
+
+const ct = record();
+const mr = record({
+  id_paciente: 'P002',
+  nombre_paciente: 'María López',
+  descripcion: 'RM DE CEREBRO SIMPLE',
+  modalidad: 'MR',
+  subcategory: 'SIMPLES',
+  bodyRegion: 'CABEZA',
+  fecha_reporte_ts: new Date(2026, 0, 10, 9).getTime(),
+  estado_reporte: 'preliminar',
+  reportStatus: 'PRELIMINAR',
+  reportStage: 'preliminary',
+  weight: 1
+});
+
+const matches = (query: string) => [ct, mr].filter(compileQuery(query).test).map(r => r.modalidad);
+
+describe('parseQuery', () => {
+  it('combina términos seguidos con AND y agrupa con paréntesis', () => {
+    expect(parseQuery('mod:CT (sub:X OR -desc:y)').node).toEqual({
+      type: 'and',
+      children: [
+        { type: 'term', field: 'mod', op: ':', values: ['CT'], regex: null },
+        {
+          type: 'or',
+          children: [
+            { type: 'term', field: 'sub', op: ':', values: ['X'], regex: null },
+            { type: 'not', child: { type: 'term', field: 'desc', op: ':', values: ['y'], regex: null } }
+          ]
+        }
+      ]
+    });
+  });
+
+  it('mantiene juntas las comillas y separa las listas por comas', () => {
+    expect(parseQuery('desc:"abdomen total"').node).toMatchObject({ values: ['abdomen total'] });
+    expect(parseQuery('mod:CT,MR').node).toMatchObject({ values: ['CT', 'MR'] });
+  });
+
+  it('tolera lo que queda a medio escribir', () => {
+    expect(parseQuery('(mod:CT').error).toBeNull();
+    expect(parseQuery('desc:"abd').error).toBeNull();
+    expect(parseQuery('mod:CT OR').error).toBeNull();
+    expect(parseQuery('mod:CT NOT').node).toMatchObject({ field: 'mod' });
+  });
+
+  it('informa campos, valores y paréntesis inválidos', () => {
+    expect(parseQuery('foo:bar').error).toBe('Campo desconocido "foo"');
+    expect(parseQuery('tat:24').error).toMatch(/requiere un comparador/);
+    expect(parseQuery('mod>2').error).toMatch(/no admite comparaciones/);
+    expect(parseQuery('desc:/(/').error).toMatch(/Expresión regular inválida/);
+    expect(parseQuery('fecha:xx').error).toBe('Fecha inválida "xx"');
+    expect(parseQuery('rvu>abc').error).toMatch(/Número inválido/);
+    expect(parseQuery('mod:CT)').error).toBe('Paréntesis ")" sin abrir');
+  });
+});
+
+describe('compileQuery', () => {
+  it('deja pasar todo con una consulta vacía y nada con una inválida', () => {
+    expect(matches('')).toEqual(['CT', 'MR']);
+    expect(matches('foo:bar')).toEqual([]);
+  });
+
+  it('busca texto suelto en paciente y descripción sin tildes ni mayúsculas', () => {
+    expect(matches('perez')).toEqual(['CT']);
+    expect(matches('p002')).toEqual(['MR']);
+    expect(matches('cerebro')).toEqual(['MR']);
+  });
+
+  it('compara modalidad, subcategoría y región completas', () => {
+    expect(matches('mod:ct')).toEqual(['CT']);
+    expect(matches('mod:C')).toEqual([]);
+    expect(matches('mod:CT,MR')).toEqual(['CT', 'MR']);
+    expect(matches('mod:CT sub:CONTRASTADOS desc:"abdomen"')).toEqual(['CT']);
+    expect(matches('region:cabeza')).toEqual(['MR']);
+  });
+
+  it('acepta estado canónico, estado original y etapa', () => {
+    expect(matches('estado:PRELIMINAR')).toEqual(['MR']);
+    expect(matches('estado:firmado')).toEqual(['CT']);
+    expect(matches('etapa:preliminar')).toEqual(['MR']);
+    expect(matches('etapa:final')).toEqual(['CT']);
+  });
+
+  it('combina OR, NOT y paréntesis', () => {
+    expect(matches('mod:MR OR tat>24')).toEqual(['CT', 'MR']);
+    expect(matches('-mod:CT')).toEqual(['MR']);
+    expect(matches('NOT (mod:CT OR mod:MR)')).toEqual([]);
+    expect(matches('(mod:CT OR mod:MR) -desc:cerebro')).toEqual(['CT']);
+  });
+
+  it('evalúa expresiones regulares sobre el texto original', () => {
+    expect(matches('desc:/^rm\\s+de/')).toEqual(['MR']);
+    expect(matches('esp:/^dr\\./')).toEqual(['CT', 'MR']);
+  });
+
+  it('solo admite los modificadores i, m, s y u', () => {
+    expect(matches('desc:/abdomen/m')).toEqual(['CT']);
+    expect(parseQuery('desc:/abdomen/y').error).toMatch(/no admitido "y"/);
+    expect(parseQuery('desc:/abdomen/gi').error).toMatch(/no admitido "g"/);
+    expect(matches('desc:/abdomen/y')).toEqual([]);
+  });
+
+  it('compara horas de reporte y peso RVU', () => {
+    expect(matches('tat>24')).toEqual(['CT']);
+    expect(matches('tat:>24')).toEqual(['CT']);
+    expect(matches('tat<=1')).toEqual(['MR']);
+    expect(matches('rvu>=2')).toEqual(['CT']);
+  });
+
+  it('toma el día completo en los rangos y comparaciones de fecha', () => {
+    expect(matches('fecha:2026-01-10')).toEqual(['CT', 'MR']);
+    expect(matches('fecha:2026-01-01..2026-01-09')).toEqual([]);
+    expect(matches('fecha:2026-01-10..')).toEqual(['CT', 'MR']);
+    expect(matches('fecha>2026-01-10')).toEqual([]);
+    expect(matches('fecha<=2026-01-10')).toEqual(['CT', 'MR']);
+  });
+});
+
+describe('queryMentionsPatient', () => {
+  it('detecta texto suelto y paciente:, también dentro de grupos', () => {
+    expect(queryMentionsPatient('mod:CT perez')).toBe(true);
+    expect(queryMentionsPatient('mod:CT (sub:X OR -paciente:P001)')).toBe(true);
+    expect(queryMentionsPatient('mod:CT desc:"abdomen" tat>24')).toBe(false);
+    expect(queryMentionsPatient('')).toBe(false);
+  });
+
+  it('trata una consulta inválida como si pudiera llevar datos del paciente', () => {
+    expect(queryMentionsPatient('foo:bar')).toBe(true);
+  });
+});
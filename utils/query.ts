@@ -0,0 +1,319 @@
+import { RadiologyRecord, QueryField, QueryNode, QueryOperator } from '../types';
+import { normalize } from './normalize';
+import { parseDate, fromInputDate } from './dateParser';
+import { getTurnaroundHours } from './turnaround';
+import { stageLabel } from './reportStatus';
+
+/**
+ * Búsqueda avanzada del tablero. Una consulta es una lista de términos:
+ *
+ *   mod:CT,MR sub:CONTRASTADOS desc:"abdomen" (tat>24 OR estado:PRELIMINAR) -esp:perez
+ *
+ * Los términos seguidos se combinan con AND (implícito o explícito), OR une
+ * alternativas, NOT o "-" niega y los paréntesis agrupan. Un texto sin campo
+ * busca en el nombre e ID del paciente y en la descripción, como la búsqueda
+ * rápida de siempre. Todo se compara sin tildes ni mayúsculas.
+ */
+
+// Nombres aceptados para cada campo (en minúsculas y sin tildes)
+const FIELD_NAMES: Record<string, QueryField> = {
+  desc: 'desc', descripcion: 'desc',
+  mod: 'mod', modalidad: 'mod',
+  sub: 'sub', subcategoria: 'sub',
+  region: 'region',
+  estado: 'estado',
+  etapa: 'etapa',
+  esp: 'esp', especialista: 'esp',
+  paciente: 'paciente', id: 'paciente',
+  fecha: 'fecha',
+  tat: 'tat', tiempo: 'tat',
+  rvu: 'rvu', peso: 'rvu'
+};
+
+// Ayuda que muestra el tablero junto al buscador
+export const QUERY_HELP: { syntax: string; label: string }[] = [
+  { syntax: 'desc:"abdomen total"', label: 'Descripción contiene (admite /regex/)' },
+  { syntax: 'mod:CT,MR', label: 'Modalidad en la lista' },
+  { syntax: 'sub:CONTRASTADOS', label: 'Subcategoría' },
+  { syntax: 'region:TORAX', label: 'Región anatómica' },
+  { syntax: 'estado:PRELIMINAR', label: 'Estado de reporte (etapa: final, preliminar, pendiente)' },
+  { syntax: 'esp:perez', label: 'Especialista contiene' },
+  { syntax: 'fecha:2026-01-01..2026-01-31', label: 'Fecha realizado (también fecha>=2026-01-15)' },
+  { syntax: 'tat>24', label: 'Horas de reporte (>, >=, <, <=)' },
+  { syntax: 'rvu>=2', label: 'Peso RVU del estudio' },
+  { syntax: '(mod:CT OR mod:MR) -desc:control', label: 'OR, negación con - o NOT y paréntesis' }
+];
+
+// Campos de texto: los demás son numéricos o de fecha y aceptan comparadores
+const TEXT_FIELDS: QueryField[] = ['text', 'desc', 'mod', 'sub', 'region', 'estado', 'etapa', 'esp', 'paciente'];
+
+type Token = { kind: 'open' | 'close' | 'and' | 'or' | 'not' | 'term'; text: string };
+
+const tokenize = (query: string): Token[] => {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < query.length) {
+    const ch = query[i];
+    if (/\s/.test(ch)) { i++; continue; }
+    if (ch === '(' || ch === ')') {
+      tokens.push({ kind: ch === '(' ? 'open' : 'close', text: ch });
+      i++;
+      continue;
+    }
+    if (ch === '-' && i + 1 < query.length && !/[\s()]/.test(query[i + 1])) {
+      tokens.push({ kind: 'not', text: ch });
+      i++;
+      continue;
+    }
+    // El término llega hasta un espacio o paréntesis que no esté entre comillas ni dentro de una /regex/
+    let text = '';
+    let quoted = false;
+    let regex = false;
+    while (i < query.length) {
+      const c = query[i];
+      if (!quoted && !regex && (/\s/.test(c) || c === '(' || c === ')')) break;
+      if (regex && c === '\\' && i + 1 < query.length) {
+        text += c + query[i + 1];
+        i += 2;
+        continue;
+      }
+      if (c === '"' && !regex) quoted = !quoted;
+      else if (c === '/' && !quoted && (regex || /(^|[:<>=])$/.test(text))) regex = !regex;
+      text += c;
+      i++;
+    }
+    const keyword = text === 'OR' ? 'or' : text === 'AND' ? 'and' : text === 'NOT' ? 'not' : 'term';
+    tokens.push({ kind: keyword, text });
+  }
+  return tokens;
+};
+
+const unquote = (value: string) => value.replace(/^"/, '').replace(/"$/, '');
+
+const parseTerm = (text: string): QueryNode => {
+  const match = /^([A-Za-zÁÉÍÓÚáéíóúÑñ_]+)(:|>=|<=|>|<)([\s\S]*)$/.exec(text);
+  if (!match) return { type: 'term', field: 'text', op: ':', values: [unquote(text)], regex: null };
+
+  const name = normalize(match[1]).toLowerCase();
+  const field = FIELD_NAMES[name];
+  if (!field) throw new Error(`Campo desconocido "${match[1]}"`);
+  let op = match[2] as QueryOperator;
+  let raw = match[3];
+  // "tat:>24" equivale a "tat>24"
+  const inner = op === ':' ? /^(>=|<=|>|<)([\s\S]*)$/.exec(raw) : null;
+  if (inner) {
+    op = inner[1] as QueryOperator;
+    raw = inner[2];
+  }
+  if (!unquote(raw).trim()) throw new Error(`Falta el valor de ${match[1]}`);
+
+  if (TEXT_FIELDS.includes(field)) {
+    if (op !== ':') throw new Error(`${match[1]} no admite comparaciones (${op})`);
+    const pattern = /^\/([\s\S]*)\/([a-z]*)$/.exec(raw);
+    if (pattern) {
+      // g e y guardan lastIndex entre llamadas y la regex se reutiliza entre registros: solo i, m, s y u
+      const invalid = pattern[2].replace(/[imsu]/g, '');
+      if (invalid) throw new Error(`Modificador de expresión regular no admitido "${invalid}" en ${match[1]}`);
+      try {
+        const flags = pattern[2].includes('i') ? pattern[2] : `${pattern[2]}i`;
+        return { type: 'term', field, op, values: [], regex: new RegExp(pattern[1], flags) };
+      } catch {
+        throw new Error(`Expresión regular inválida en ${match[1]}`);
+      }
+    }
+    const values = raw.startsWith('"') ? [unquote(raw)] : raw.split(',').map(v => v.trim()).filter(Boolean);
+    return { type: 'term', field, op, values, regex: null };
+  }
+
+  if (field === 'fecha') {
+    // fecha:DESDE..HASTA (un lado puede ir vacío), fecha:DÍA o fecha>=DÍA
+    const values = op === ':' && raw.includes('..') ? raw.split('..') : [raw];
+    values.filter(Boolean).forEach(v => {
+      if (parseDate(v) === null) throw new Error(`Fecha inválida "${v}"`);
+    });
+    return { type: 'term', field, op, values, regex: null };
+  }
+
+  if (op === ':') throw new Error(`${match[1]} requiere un comparador (ej. ${match[1]}>24)`);
+  if (!Number.isFinite(Number(raw))) throw new Error(`Número inválido "${raw}" en ${match[1]}`);
+  return { type: 'term', field, op, values: [raw], regex: null };
+};
+
+// Nodo con un solo hijo se reduce al hijo; sin hijos, a nada
+const group = (type: 'and' | 'or', children: (QueryNode | null)[]): QueryNode | null => {
+  const present = children.filter((c): c is QueryNode => c !== null);
+  if (present.length === 0) return null;
+  return present.length === 1 ? present[0] : { type, children: present };
+};
+
+/**
+ * Interpreta la consulta. Es tolerante con lo que suele quedar a medio
+ * escribir (comillas o paréntesis sin cerrar, un OR al final) para que el
+ * tablero no se vacíe mientras se teclea.
+ */
+export const parseQuery = (query: string): { node: QueryNode | null; error: string | null } => {
+  const tokens = tokenize(query);
+  let pos = 0;
+
+  const parseOr = (): QueryNode | null => {
+    const children = [parseAnd()];
+    while (tokens[pos]?.kind === 'or') {
+      pos++;
+      children.push(parseAnd());
+    }
+    return group('or', children);
+  };
+
+  const parseAnd = (): QueryNode | null => {
+    const children: (QueryNode | null)[] = [];
+    while (pos < tokens.length && tokens[pos].kind !== 'or' && tokens[pos].kind !== 'close') {
+      if (tokens[pos].kind === 'and') {
+        pos++;
+        continue;
+      }
+      children.push(parseUnary());
+    }
+    return group('and', children);
+  };
+
+  const parseUnary = (): QueryNode | null => {
+    const token = tokens[pos];
+    // Un NOT sin término detrás ("-" final, "NOT )") no niega nada
+    if (!token || token.kind === 'close' || token.kind === 'or') return null;
+    pos++;
+    if (token.kind === 'and') return parseUnary();
+    if (token.kind === 'not') {
+      const child = parseUnary();
+      return child ? { type: 'not', child } : null;
+    }
+    if (token.kind === 'open') {
+      const node = parseOr();
+      if (tokens[pos]?.kind === 'close') pos++;
+      return node;
+    }
+    return parseTerm(token.text);
+  };
+
+  try {
+    const node = parseOr();
+    if (pos < tokens.length) throw new Error('Paréntesis ")" sin abrir');
+    return { node, error: null };
+  } catch (e) {
+    return { node: null, error: (e as Error).message };
+  }
+};
+
+// Si la consulta puede llevar datos del paciente (texto suelto o paciente:); una inválida cuenta como tal
+export const queryMentionsPatient = (query: string) => {
+  const { node, error } = parseQuery(query);
+  if (error) return true;
+  const visit = (n: QueryNode | null): boolean => {
+    if (!n) return false;
+    if (n.type === 'term') return n.field === 'text' || n.field === 'paciente';
+    if (n.type === 'not') return visit(n.child);
+    return n.children.some(visit);
+  };
+  return visit(node);
+};
+
+type Predicate = (record: RadiologyRecord) => boolean;
+
+const compare = (value: number | null, op: QueryOperator, target: number) => {
+  if (value === null) return false;
+  switch (op) {
+    case '>': return value > target;
+    case '>=': return value >= target;
+    case '<': return value < target;
+    case '<=': return value <= target;
+    default: return value === target;
+  }
+};
+
+const TEXT_SOURCES: Partial<Record<QueryField, (r: RadiologyRecord) => string[]>> = {
+  text: r => [r.nombre_paciente, r.id_paciente, r.descripcion],
+  desc: r => [r.descripcion],
+  esp: r => [r.realizado_por, r.specialistOriginal],
+  paciente: r => [r.nombre_paciente, r.id_paciente]
+};
+
+// Campos que se comparan completos (mod:CT no incluye CTA)
+const EXACT_SOURCES: Partial<Record<QueryField, (r: RadiologyRecord) => string[]>> = {
+  mod: r => [r.modalidad],
+  sub: r => [r.subcategory],
+  region: r => [r.bodyRegion],
+  estado: r => [r.reportStatus, r.estado_reporte],
+  etapa: r => [r.reportStage, stageLabel(r.reportStage)]
+};
+
+const compileTerm = (node: Extract<QueryNode, { type: 'term' }>): Predicate => {
+  const { field, op, values, regex } = node;
+  const wanted = values.map(normalize);
+
+  const contains = TEXT_SOURCES[field];
+  if (contains) {
+    if (regex) return r => contains(r).some(v => regex.test(v || ''));
+    return r => {
+      const texts = contains(r).map(normalize);
+      return wanted.some(w => texts.some(t => t.includes(w)));
+    };
+  }
+
+  const exact = EXACT_SOURCES[field];
+  if (exact) {
+    if (regex) return r => exact(r).some(v => regex.test(v || ''));
+    return r => exact(r).some(v => wanted.includes(normalize(v)));
+  }
+
+  if (field === 'fecha') {
+    if (op === ':') {
+      const [from, to] = values.length === 1 ? [values[0], values[0]] : values;
+      const start = from ? fromInputDate(from) : null;
+      const end = to ? fromInputDate(to, true) : null;
+      return r => r.fecha_realizado_ts !== null &&
+        (start === null || r.fecha_realizado_ts >= start) &&
+        (end === null || r.fecha_realizado_ts <= end);
+    }
+    // Con > y <= el día indicado cuenta completo
+    const target = fromInputDate(values[0], op === '>' || op === '<=');
+    return r => compare(r.fecha_realizado_ts, op, target);
+  }
+
+  const target = Number(values[0]);
+  if (field === 'tat') return r => compare(getTurnaroundHours(r), op, target);
+  return r => compare(r.weight, op, target);
+};
+
+const compileNode = (node: QueryNode): Predicate => {
+  switch (node.type) {
+    case 'and': {
+      const parts = node.children.map(compileNode);
+      return r => parts.every(p => p(r));
+    }
+    case 'or': {
+      const parts = node.children.map(compileNode);
+      return r => parts.some(p => p(r));
+    }
+    case 'not': {
+      const inner = compileNode(node.child);
+      return r => !inner(r);
+    }
+    default:
+      return compileTerm(node);
+  }
+};
+
+// applyFilters se llama varias veces por render con la misma consulta
+let lastCompiled: { query: string; test: Predicate; error: string | null } | null = null;
+
+/**
+ * Predicado de la consulta. Una consulta vacía deja pasar todo y una con
+ * errores no deja pasar nada: así un reporte nunca sale con más estudios de
+ * los que la consulta pretendía.
+ */
+export const compileQuery = (query: string): { test: Predicate; error: string | null } => {
+  if (lastCompiled && lastCompiled.query === query) return lastCompiled;
+  const { node, error } = parseQuery(query);
+  const test: Predicate = error ? () => false : node ? compileNode(node) : () => true;
+  lastCompiled = { query, test, error };
+  return lastCompiled;
+};
@@ -0,0 +1,41 @@
+import { describe, it, expect } from 'vitest';
+import { inferRegion } from './regions';
+
+describe('inferRegion', () => {
+  it('reconoce términos como palabras completas, con plural', () => {
+    expect(inferRegion('RX DE MANO')).toBe('MIEMBRO SUPERIOR');
+    expect(inferRegion('RX DE AMBAS MANOS')).toBe('MIEMBRO SUPERIOR');
+    expect(inferRegion('RX PIES COMPARATIVOS')).toBe('MIEMBRO INFERIOR');
+  });
+
+  it('no confunde palabras que solo empiezan como un término', () => {
+    expect(inferRegion('BIOPSIA DE PIEL')).toBeNull();
+    expect(inferRegion('MANOMETRIA ESOFAGICA')).toBeNull();
+  });
+
+  it('acepta cualquier terminación en las raíces', () => {
+    expect(inferRegion('RM CEREBRAL')).toBe('CABEZA');
+    expect(inferRegion('USG TIROIDEO')).toBe('CUELLO');
+    expect(inferRegion('UROTAC')).toBe('ABDOMEN');
+  });
+
+  it('ignora tildes y mayúsculas', () => {
+    expect(inferRegion('tac de tórax')).toBe('TORAX');
+    expect(inferRegion('USG Riñón')).toBe('ABDOMEN');
+  });
+
+  it('se queda con la primera región mencionada', () => {
+    expect(inferRegion('TAC DE TORAX Y ABDOMEN')).toBe('TORAX');
+    expect(inferRegion('TAC DE ABDOMEN Y TORAX')).toBe('ABDOMEN');
+  });
+
+  it('prefiere el término más largo en la misma posición', () => {
+    expect(inferRegion('USG CUELLO UTERINO')).toBe('PELVIS');
+    expect(inferRegion('USG DE CUELLO')).toBe('CUELLO');
+  });
+
+  it('devuelve null si no hay región', () => {
+    expect(inferRegion('')).toBeNull();
+    expect(inferRegion('DENSITOMETRIA')).toBeNull();
+  });
+});
@@ -0,0 +1,102 @@
+import { RadiologyRecord, ModalityDefinition, ModalityMatrixRow } from '../types';
+import { normalize } from './normalize';
+import { modalityRank } from './modalityConfig';
+
+// Valor cuando ni la columna ni la descripción permiten ubicar la región
+export const NO_REGION = 'SIN REGIÓN';
+
+/**
+ * Región anatómica y los términos que la identifican, ya normalizados (sin tildes).
+ * Cada término es una palabra completa (admite plural: MANO/MANOS); los que
+ * terminan en "*" son raíces y cubren cualquier palabra que empiece así
+ * (CEREBR* cubre CEREBRO y CEREBRAL). Las raíces cortas dan falsos positivos
+ * (PIE en PIEL, MANO en MANOMETRIA), por eso se listan las palabras.
+ */
+export const REGION_TERMS: { region: string; terms: string[] }[] = [
+  { region: 'CABEZA', terms: ['CRANEO', 'CRANEAL', 'CEREBR*', 'ENCEFAL*', 'CABEZA', 'SENOS PARANASALES', 'ORBITA*', 'MACIZO FACIAL', 'SILLA TURCA', 'OIDO', 'PENASCO', 'CARA', 'MAXILAR', 'MANDIBULA'] },
+  { region: 'CUELLO', terms: ['CUELLO', 'TIROIDE*', 'LARINGE', 'PAROTIDA', 'CAROTID*'] },
+  { region: 'COLUMNA', terms: ['COLUMNA', 'CERVICAL', 'DORSAL', 'LUMBAR', 'LUMBOSACR*', 'SACRO', 'COXIS', 'VERTEBR*'] },
+  { region: 'MAMA', terms: ['MAMA', 'MAMARI*', 'MAMOGRAF*'] },
+  { region: 'TORAX', terms: ['TORAX', 'TORACIC*', 'PULMON', 'PULMONAR', 'PARRILLA COSTAL', 'COSTILLA', 'ESTERNON', 'CORAZON', 'CARDIAC*', 'CORONARI*'] },
+  { region: 'ABDOMEN', terms: ['ABDOMEN', 'ABDOMINAL', 'HIGADO', 'HEPATIC*', 'VESICULA', 'VIAS BILIARES', 'RINON', 'RENAL', 'PANCREA*', 'BAZO', 'URO*'] },
+  { region: 'PELVIS', terms: ['PELVI*', 'CADERA', 'VEJIGA', 'PROSTATA', 'CUELLO UTERINO', 'UTER*', 'OVARI*', 'OBSTETRIC*', 'TRANSVAGINAL', 'ENDOVAGINAL', 'TESTICUL*', 'ESCROT*'] },
+  { region: 'MIEMBRO SUPERIOR', terms: ['HOMBRO', 'CLAVICULA', 'ESCAPULA', 'HUMERO', 'BRAZO', 'CODO', 'ANTEBRAZO', 'MUNECA', 'MANO', 'CUBITO'] },
+  { region: 'MIEMBRO INFERIOR', terms: ['FEMUR', 'MUSLO', 'RODILLA', 'PIERNA', 'TIBIA', 'PERONE', 'TOBILLO', 'PIE', 'CALCANEO'] }
+];
+
+const escapeRegex = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const MATCHERS = REGION_TERMS.flatMap(({ region, terms }) =>
+  terms.map(term => ({
+    region,
+    pattern: term.endsWith('*')
+      ? new RegExp(`(^| )${escapeRegex(term.slice(0, -1))}`)
+      : new RegExp(`(^| )${escapeRegex(term)}(S|ES)?(?= |$)`)
+  }))
+);
+
+/**
+ * Región mencionada en un texto. Si hay varias (ej. "TAC DE TORAX Y ABDOMEN")
+ * gana la que aparece primero, que en los RIS suele ser la principal; en la
+ * misma posición gana el término más largo ("CUELLO UTERINO" sobre "CUELLO").
+ */
+export const inferRegion = (text: string): string | null => {
+  const value = normalize(text);
+  let best: { region: string; index: number; length: number } | null = null;
+  for (const { region, pattern } of MATCHERS) {
+    const match = pattern.exec(value);
+    if (!match) continue;
+    if (best === null || match.index < best.index || (match.index === best.index && match[0].length > best.length)) {
+      best = { region, index: match.index, length: match[0].length };
+    }
+  }
+  return best ? best.region : null;
+};
+
+/**
+ * Región del registro: la columna REGIÓN, llevada al nombre canónico si lo
+ * reconoce; si viene vacía, la que se deduce de la descripción.
+ */
+export const resolveRegion = (record: RadiologyRecord): { bodyRegion: string; regionInferred: boolean } => {
+  const column = normalize(record.region || '');
+  if (column) return { bodyRegion: inferRegion(column) || column, regionInferred: false };
+  const inferred = inferRegion(record.descripcion || '');
+  return inferred ? { bodyRegion: inferred, regionInferred: true } : { bodyRegion: NO_REGION, regionInferred: false };
+};
+
+export const applyRegions = (records: RadiologyRecord[]) =>
+  records.map(record => ({ ...record, ...resolveRegion(record) }));
+
+// Posición en el orden anatómico de REGION_TERMS; las demás después y SIN REGIÓN al final
+export const regionRank = (region: string) => {
+  if (region === NO_REGION) return REGION_TERMS.length + 1;
+  const idx = REGION_TERMS.findIndex(r => r.region === region);
+  return idx === -1 ? REGION_TERMS.length : idx;
+};
+
+export const compareRegions = (a: string, b: string) => regionRank(a) - regionRank(b) || a.localeCompare(b);
+
+// Regiones presentes en los datos, en orden anatómico
+export const regionOrder = (data: RadiologyRecord[]) =>
+  Array.from(new Set(data.map(r => r.bodyRegion))).sort(compareRegions);
+
+/**
+ * Estudios y puntaje RVU por región y modalidad, para planear el tiempo de
+ * equipo por zona del cuerpo. Las modalidades van en el orden configurado.
+ */
+export const getRegionByModality = (data: RadiologyRecord[], modalities: ModalityDefinition[]) => {
+  const modalityCodes = Array.from(new Set(data.map(r => (r.modalidad || 'N/A').trim().toUpperCase())))
+    .sort((a, b) => modalityRank(a, modalities) - modalityRank(b, modalities));
+  const rows: Record<string, ModalityMatrixRow> = {};
+  data.forEach(record => {
+    const key = record.bodyRegion;
+    if (!rows[key]) rows[key] = { name: key, total: 0, weighted: 0, counts: Object.fromEntries(modalityCodes.map(code => [code, 0])) };
+    rows[key].total++;
+    rows[key].weighted += record.weight;
+    rows[key].counts[(record.modalidad || 'N/A').trim().toUpperCase()]++;
+  });
+  return {
+    modalityCodes,
+    rows: Object.values(rows).sort((a, b) => compareRegions(a.name, b.name))
+  };
+};
@@ -0,0 +1,78 @@
+import { RadiologyRecord, DashboardFilters, ReportOptions, ModalityMatrixRow, MatrixColumn, TurnaroundSummary } from '../types';
+import { getModalityMatrix, getMatrixColumns } from './dataProcessor';
+import { getTurnaroundSummary, DEFAULT_SLA_HOURS } from './turnaround';
+import { DEFAULT_RULES } from './classificationRules';
+import { DEFAULT_MODALITIES } from './modalityConfig';
+import { applyFilters, getDateRange } from './filters';
+import { compareRegions } from './regions';
+import { compileDirectory, roleLabel } from './specialists';
+import { queryMentionsPatient } from './query';
+
+export const DEFAULT_REPORT_OPTIONS: ReportOptions = {
+  slaHours: DEFAULT_SLA_HOURS,
+  rules: DEFAULT_RULES,
+  modalities: DEFAULT_MODALITIES
+};
+
+// Datos comunes a los reportes Word y PDF
+export interface ReportModel {
+  filters: DashboardFilters;
+  options: ReportOptions;
+  records: RadiologyRecord[];          // Filtrados y ordenados por especialista y fecha de reporte
+  dateRange: { min: string, max: string };
+  columns: MatrixColumn[];            // Columnas del cuadro resumen según las reglas y modalidades activas
+  specStats: ModalityMatrixRow[];
+  regionStats: ModalityMatrixRow[];   // Mismo cuadro agrupado por región anatómica
+  turnaround: TurnaroundSummary;
+  generatedAt: Date;
+}
+
+export const buildReportModel = (
+  data: RadiologyRecord[],
+  filters: DashboardFilters,
+  options: ReportOptions
+): ReportModel => {
+  // Mismos filtros que el tablero: el periodo impreso corresponde a las filas del reporte
+  const filtered = applyFilters(data, filters);
+
+  const records = [...filtered].sort((a, b) => {
+    const specComp = (a.realizado_por || '').localeCompare(b.realizado_por || '');
+    if (specComp !== 0) return specComp;
+    return (a.fecha_reporte_ts ?? Infinity) - (b.fecha_reporte_ts ?? Infinity);
+  });
+
+  const columns = getMatrixColumns(options.rules, options.modalities);
+
+  return {
+    filters,
+    options,
+    records,
+    dateRange: getDateRange(filtered),
+    columns,
+    specStats: getModalityMatrix(filtered, columns),
+    regionStats: getModalityMatrix(filtered, columns, r => r.bodyRegion).sort((a, b) => compareRegions(a.name, b.name)),
+    turnaround: getTurnaroundSummary(filtered, options.slaHours),
+    generatedAt: new Date()
+  };
+};
+
+export const specialistFilterLabel = (filters: DashboardFilters) =>
+  filters.specialist === 'All' ? 'GLOBAL' : filters.specialist;
+
+// Nombre con rol y cédula del directorio, para encabezados por especialista
+export const specialistCaption = (name: string, options: ReportOptions) => {
+  const profile = compileDirectory(options.specialists || [])(name);
+  if (!profile) return name;
+  return [name, roleLabel(profile.role), profile.license && `CÉD. ${profile.license}`].filter(Boolean).join(' · ');
+};
+
+// Filtros opcionales que se imprimen en el encabezado de los reportes cuando están activos
+export const activeFilterLabels = (filters: DashboardFilters, anonymized: boolean = false): [string, string][] => [
+  ...(filters.modality !== 'All' ? [['FILTRO MODALIDAD', filters.modality] as [string, string]] : []),
+  ...(filters.subcategory !== 'All' ? [['FILTRO SUBCATEGORÍA', filters.subcategory] as [string, string]] : []),
+  ...(filters.region !== 'All' ? [['FILTRO REGIÓN', filters.region] as [string, string]] : []),
+  // Un reporte anonimizado no imprime nombres ni IDs que se hayan tecleado en la búsqueda
+  ...(filters.searchTerm
+    ? [['BÚSQUEDA', anonymized && queryMentionsPatient(filters.searchTerm) ? 'APLICADA (OCULTA EN MODO PRIVACIDAD)' : filters.searchTerm] as [string, string]]
+    : [])
+];
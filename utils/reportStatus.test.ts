@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'vitest';
+import { RadiologyRecord, ReportStage } from '../types';
+import { compileStatuses, applyStatuses, statusOrder, getUnmappedStatuses, getBacklog, DEFAULT_STATUSES, NO_STATUS } from './reportStatus';
+
+const DAY = 24 * 60 * 60 * 1000;
+const AS_OF = new Date(2026, 0, 20, 12).getTime();
+
+const resolve = compileStatuses(DEFAULT_STATUSES);
+
+const record = (estado_reporte: string, fecha_reporte_ts: number | null = null) =>
+  ({ estado_reporte, fecha_reporte_ts } as RadiologyRecord);
+
+const pending = (realizado_por: string, reportStage: ReportStage, ageDays: number | null) => ({
+  realizado_por,
+  reportStage,
+  fecha_realizado_ts: ageDays === null ? null : AS_OF - ageDays * DAY - 1000
+} as RadiologyRecord);
+
+describe('compileStatuses', () => {
+  it('lleva códigos y alias al estado canónico sin tildes ni mayúsculas', () => {
+    expect(resolve(record('Firmado'))).toEqual({ reportStatus: 'FIRMADO', reportStage: 'final' });
+    expect(resolve(record('validado'))).toEqual({ reportStatus: 'FIRMADO', reportStage: 'final' });
+    expect(resolve(record('Sin  Informar'))).toEqual({ reportStatus: 'PENDIENTE', reportStage: 'pending' });
+    expect(resolve(record('borrador'))).toEqual({ reportStatus: 'PRELIMINAR', reportStage: 'preliminary' });
+  });
+
+  it('cuenta como pendientes los estados sin configurar', () => {
+    expect(resolve(record('Cancelado', Date.now()))).toEqual({ reportStatus: 'CANCELADO', reportStage: 'pending' });
+  });
+
+  it('sin estado deduce la etapa de la fecha de reporte', () => {
+    expect(resolve(record('', Date.now()))).toEqual({ reportStatus: NO_STATUS, reportStage: 'final' });
+    expect(resolve(record(''))).toEqual({ reportStatus: NO_STATUS, reportStage: 'pending' });
+  });
+
+  it('el primer estado que declara un alias se queda con él', () => {
+    const resolveDup = compileStatuses([
+      { code: 'FIRMADO', stage: 'final', aliases: ['OK'] },
+      { code: 'REVISAR', stage: 'pending', aliases: ['OK'] }
+    ]);
+    expect(resolveDup(record('ok')).reportStatus).toBe('FIRMADO');
+  });
+});
+
+describe('estados fuera del vocabulario', () => {
+  const data = applyStatuses([record('FIRMADO'), record('CANCELADO'), record('cancelado'), record('ADDENDUM'), record('')], resolve);
+
+  it('van después del vocabulario, con SIN ESTADO al final', () => {
+    expect(statusOrder(data, DEFAULT_STATUSES)).toEqual(['FIRMADO', 'PRELIMINAR', 'PENDIENTE', 'ADDENDUM', 'CANCELADO', NO_STATUS]);
+  });
+
+  it('se listan para configurarlos, los más frecuentes primero', () => {
+    expect(getUnmappedStatuses(data, DEFAULT_STATUSES)).toEqual([{ value: 'CANCELADO', count: 2 }, { value: 'ADDENDUM', count: 1 }]);
+  });
+});
+
+describe('getBacklog', () => {
+  const backlog = getBacklog([
+    pending('PEREZ', 'final', 30),
+    pending('PEREZ', 'pending', 0),
+    pending('PEREZ', 'preliminary', 5),
+    pending('GOMEZ', 'pending', 20),
+    pending('GOMEZ', 'pending', null)
+  ], AS_OF);
+
+  it('deja fuera los firmados y ordena del más antiguo al más reciente', () => {
+    expect(backlog.items.map(i => i.ageDays)).toEqual([20, 5, 0, null]);
+    expect(backlog.undated).toBe(1);
+  });
+
+  it('reparte por tramo de antigüedad', () => {
+    expect(backlog.buckets).toEqual([1, 0, 1, 0, 1]);
+  });
+
+  it('resume por especialista con preliminares, pendientes y el más antiguo', () => {
+    expect(backlog.bySpecialist).toEqual([
+      { key: 'GOMEZ', total: 2, preliminary: 0, pending: 2, buckets: [0, 0, 0, 0, 1], oldestDays: 20 },
+      { key: 'PEREZ', total: 2, preliminary: 1, pending: 1, buckets: [1, 0, 1, 0, 0], oldestDays: 5 }
+    ]);
+  });
+});
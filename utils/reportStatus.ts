@@ -0,0 +1,185 @@
+import {
+  RadiologyRecord,
+  ReportStage,
+  ReportStatusDefinition,
+  StatusBreakdownRow,
+  BacklogItem,
+  BacklogRow,
+  BacklogSummary
+} from '../types';
+import { normalize } from './normalize';
+
+const STORAGE_KEY = 'medstats.statuses.v1';
+
+// Valor mostrado cuando el archivo no trae estado
+export const NO_STATUS = 'SIN ESTADO';
+
+export const REPORT_STAGES: { key: ReportStage; label: string }[] = [
+  { key: 'final', label: 'Firmado' },
+  { key: 'preliminary', label: 'Preliminar' },
+  { key: 'pending', label: 'Pendiente' }
+];
+
+export const stageLabel = (stage: ReportStage) => REPORT_STAGES.find(s => s.key === stage)?.label || stage;
+
+// Variantes habituales de los RIS que hemos recibido; se comparan normalizadas (sin tildes ni puntuación)
+export const DEFAULT_STATUSES: ReportStatusDefinition[] = [
+  { code: 'FIRMADO', stage: 'final', aliases: ['FINAL', 'FINALIZADO', 'SIGNED', 'VALIDADO', 'APROBADO', 'INFORMADO', 'REPORTADO'] },
+  { code: 'PRELIMINAR', stage: 'preliminary', aliases: ['PRELIMINARY', 'PRELIM', 'BORRADOR', 'DRAFT', 'DICTADO', 'TRANSCRITO'] },
+  { code: 'PENDIENTE', stage: 'pending', aliases: ['PENDING', 'SIN INFORMAR', 'POR INFORMAR', 'SIN REPORTE', 'NUEVO', 'ASIGNADO'] }
+];
+
+/**
+ * Resuelve el estado canónico y la etapa de un registro. Los estados que no
+ * están en el vocabulario se conservan normalizados y cuentan como pendientes
+ * (un "CANCELADO" o "ADDENDUM PENDIENTE" no debe pasar por firmado) hasta que
+ * se configuren. Sin estado, la etapa se deduce de FECHA REPORTE: con fecha
+ * cuenta como firmado, sin ella como pendiente.
+ */
+export const compileStatuses = (statuses: ReportStatusDefinition[]) => {
+  const byValue = new Map<string, ReportStatusDefinition>();
+  statuses.forEach(def => {
+    [def.code, ...def.aliases].forEach(value => {
+      const key = normalize(value);
+      if (key && !byValue.has(key)) byValue.set(key, def);
+    });
+  });
+
+  return (record: RadiologyRecord): { reportStatus: string; reportStage: ReportStage } => {
+    const value = normalize(record.estado_reporte || '');
+    const def = byValue.get(value);
+    if (def) return { reportStatus: def.code, reportStage: def.stage };
+    if (value) return { reportStatus: value, reportStage: 'pending' };
+    return { reportStatus: NO_STATUS, reportStage: record.fecha_reporte_ts !== null ? 'final' : 'pending' };
+  };
+};
+
+export const applyStatuses = (records: RadiologyRecord[], resolve: ReturnType<typeof compileStatuses>) =>
+  records.map(record => ({ ...record, ...resolve(record) }));
+
+// Estados del vocabulario en su orden, seguidos de los valores sin configurar presentes en los datos
+export const statusOrder = (data: RadiologyRecord[], statuses: ReportStatusDefinition[]) => {
+  const codes = statuses.map(s => s.code);
+  const extra = Array.from(new Set(data.map(r => r.reportStatus)))
+    .filter(code => !codes.includes(code))
+    .sort((a, b) => (a === NO_STATUS ? 1 : b === NO_STATUS ? -1 : a.localeCompare(b)));
+  return [...codes, ...extra];
+};
+
+// Valores del archivo que no coinciden con ningún estado ni alias, para sugerirlos en el editor
+export const getUnmappedStatuses = (data: RadiologyRecord[], statuses: ReportStatusDefinition[]) => {
+  const codes = new Set(statuses.map(s => s.code));
+  const counts = new Map<string, number>();
+  data.forEach(r => {
+    if (codes.has(r.reportStatus) || r.reportStatus === NO_STATUS) return;
+    counts.set(r.reportStatus, (counts.get(r.reportStatus) || 0) + 1);
+  });
+  return Array.from(counts, ([value, count]) => ({ value, count })).sort((a, b) => b.count - a.count);
+};
+
+export const getStatusBreakdown = (
+  data: RadiologyRecord[],
+  order: string[],
+  keyOf: (record: RadiologyRecord) => string
+): StatusBreakdownRow[] => {
+  const rows: Record<string, StatusBreakdownRow> = {};
+  data.forEach(record => {
+    const key = keyOf(record);
+    if (!rows[key]) rows[key] = { key, total: 0, counts: Object.fromEntries(order.map(code => [code, 0])) };
+    rows[key].total++;
+    rows[key].counts[record.reportStatus] = (rows[key].counts[record.reportStatus] || 0) + 1;
+  });
+  return Object.values(rows).sort((a, b) => b.total - a.total);
+};
+
+// Tramos de antigüedad del backlog en días cumplidos desde la realización (max null = sin límite)
+export const AGE_BUCKETS: { label: string; max: number | null }[] = [
+  { label: '0-1 d', max: 1 },
+  { label: '2-3 d', max: 3 },
+  { label: '4-7 d', max: 7 },
+  { label: '8-14 d', max: 14 },
+  { label: '+14 d', max: null }
+];
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+const bucketIndex = (ageDays: number) => {
+  const idx = AGE_BUCKETS.findIndex(b => b.max !== null && ageDays <= b.max);
+  return idx === -1 ? AGE_BUCKETS.length - 1 : idx;
+};
+
+/**
+ * Trabajo pendiente: estudios en etapa preliminar o pendiente con su antigüedad
+ * a la fecha de corte. Los que no tienen fecha de realización se cuentan aparte.
+ */
+export const getBacklog = (data: RadiologyRecord[], asOf: number = Date.now()): BacklogSummary => {
+  const items: BacklogItem[] = data
+    .filter(r => r.reportStage !== 'final')
+    .map(record => ({
+      record,
+      ageDays: record.fecha_realizado_ts === null ? null : Math.max(0, Math.floor((asOf - record.fecha_realizado_ts) / MS_PER_DAY))
+    }))
+    .sort((a, b) => (a.ageDays === null ? 1 : b.ageDays === null ? -1 : b.ageDays - a.ageDays));
+
+  const buckets = AGE_BUCKETS.map(() => 0);
+  const rows: Record<string, BacklogRow> = {};
+  items.forEach(({ record, ageDays }) => {
+    const key = (record.realizado_por || 'SIN ASIGNAR').trim();
+    if (!rows[key]) {
+      rows[key] = { key, total: 0, preliminary: 0, pending: 0, buckets: AGE_BUCKETS.map(() => 0), oldestDays: null };
+    }
+    const row = rows[key];
+    row.total++;
+    if (record.reportStage === 'preliminary') row.preliminary++;
+    else row.pending++;
+    if (ageDays === null) return;
+    buckets[bucketIndex(ageDays)]++;
+    row.buckets[bucketIndex(ageDays)]++;
+    row.oldestDays = Math.max(row.oldestDays ?? 0, ageDays);
+  });
+
+  return {
+    asOf,
+    items,
+    buckets,
+    bySpecialist: Object.values(rows).sort((a, b) => b.total - a.total),
+    undated: items.filter(i => i.ageDays === null).length
+  };
+};
+
+// Devuelve el mensaje de error del vocabulario o null si es válido
+export const validateStatuses = (statuses: ReportStatusDefinition[]): string | null => {
+  const seen = new Map<string, string>();
+  for (const s of statuses) {
+    if (!s.code) return 'Hay un estado sin nombre';
+    for (const value of [s.code, ...s.aliases]) {
+      const owner = seen.get(value);
+      if (owner) return `El valor ${value} está repetido (${owner} y ${s.code})`;
+      seen.set(value, s.code);
+    }
+  }
+  return null;
+};
+
+const sanitize = (item: any): ReportStatusDefinition => ({
+  code: normalize(String(item?.code ?? '')),
+  stage: REPORT_STAGES.some(s => s.key === item?.stage) ? item.stage : 'pending',
+  aliases: Array.isArray(item?.aliases) ? item.aliases.map((a: unknown) => normalize(String(a))).filter(Boolean) : []
+});
+
+export const loadStatuses = (): ReportStatusDefinition[] => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return DEFAULT_STATUSES;
+    const parsed = JSON.parse(raw);
+    const list = Array.isArray(parsed) ? parsed.map(sanitize) : [];
+    return list.length > 0 && validateStatuses(list) === null ? list : DEFAULT_STATUSES;
+  } catch (e) {
+    console.error('Error leyendo estados de reporte guardados:', e);
+    return DEFAULT_STATUSES;
+  }
+};
+
+export const saveStatuses = (statuses: ReportStatusDefinition[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(statuses));
+};
@@ -0,0 +1,38 @@
+import { SavedFilter } from '../types';
+import { DEFAULT_FILTERS } from './filters';
+
+const STORAGE_KEY = 'medstats.savedFilters.v1';
+
+export const newSavedFilterId = () => `flt_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 7)}`;
+
+// Los filtros guardados antes de que existiera algún campo lo toman del valor por defecto
+const sanitize = (item: any): SavedFilter | null => {
+  const name = String(item?.name ?? '').trim();
+  if (!name || typeof item?.filters !== 'object' || item.filters === null) return null;
+  const filters = { ...DEFAULT_FILTERS };
+  (Object.keys(DEFAULT_FILTERS) as (keyof typeof DEFAULT_FILTERS)[]).forEach(key => {
+    if (typeof item.filters[key] === 'string') filters[key] = item.filters[key];
+  });
+  return {
+    id: String(item?.id || newSavedFilterId()),
+    name,
+    filters,
+    createdAt: Number(item?.createdAt) || Date.now()
+  };
+};
+
+export const loadSavedFilters = (): SavedFilter[] => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return [];
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed) ? parsed.map(sanitize).filter((f): f is SavedFilter => f !== null) : [];
+  } catch (e) {
+    console.error('Error leyendo filtros guardados:', e);
+    return [];
+  }
+};
+
+export const saveSavedFilters = (list: SavedFilter[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(list));
+};
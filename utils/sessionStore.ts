@@ -0,0 +1,91 @@
+import { SessionState, SnapshotMeta } from '../types';
+
+// Todo queda en el IndexedDB del navegador: los datos de pacientes nunca salen del equipo
+const DB_NAME = 'medstats';
+const DB_VERSION = 1;
+const SESSION_STORE = 'session';
+const SNAPSHOT_META_STORE = 'snapshots';
+const SNAPSHOT_DATA_STORE = 'snapshotData';
+const CURRENT_KEY = 'current';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = () => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB no está disponible en este navegador'));
+        return;
+      }
+      const req = indexedDB.open(DB_NAME, DB_VERSION);
+      req.onupgradeneeded = () => {
+        const db = req.result;
+        if (!db.objectStoreNames.contains(SESSION_STORE)) db.createObjectStore(SESSION_STORE);
+        if (!db.objectStoreNames.contains(SNAPSHOT_META_STORE)) db.createObjectStore(SNAPSHOT_META_STORE, { keyPath: 'id' });
+        if (!db.objectStoreNames.contains(SNAPSHOT_DATA_STORE)) db.createObjectStore(SNAPSHOT_DATA_STORE);
+      };
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => reject(req.error);
+    });
+    // Si falla, el siguiente intento vuelve a abrir la base
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+// Ejecuta operaciones en una transacción y resuelve con el resultado de la última petición al completarse
+const run = async <T>(
+  stores: string[],
+  mode: IDBTransactionMode,
+  work: (tx: IDBTransaction) => IDBRequest | void
+): Promise<T> => {
+  const db = await openDb();
+  return new Promise<T>((resolve, reject) => {
+    const tx = db.transaction(stores, mode);
+    const req = work(tx);
+    tx.oncomplete = () => resolve((req ? req.result : undefined) as T);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+export const loadSession = () =>
+  run<SessionState | undefined>([SESSION_STORE], 'readonly', tx => tx.objectStore(SESSION_STORE).get(CURRENT_KEY))
+    .then(state => (state && state.version === 1 ? state : null));
+
+export const saveSession = (state: SessionState) =>
+  run<void>([SESSION_STORE], 'readwrite', tx => { tx.objectStore(SESSION_STORE).put(state, CURRENT_KEY); });
+
+export const clearSession = () =>
+  run<void>([SESSION_STORE], 'readwrite', tx => { tx.objectStore(SESSION_STORE).delete(CURRENT_KEY); });
+
+export const listSnapshots = () =>
+  run<SnapshotMeta[]>([SNAPSHOT_META_STORE], 'readonly', tx => tx.objectStore(SNAPSHOT_META_STORE).getAll())
+    .then(list => list.sort((a, b) => b.createdAt - a.createdAt));
+
+export const saveSnapshot = (name: string, state: SessionState) => {
+  const meta: SnapshotMeta = {
+    id: `snap_${Date.now().toString(36)}`,
+    name,
+    createdAt: Date.now(),
+    studyCount: state.sources.reduce((sum, s) => sum + s.records.length, 0),
+    fileNames: state.sources.map(s => s.fileName)
+  };
+  return run<void>([SNAPSHOT_META_STORE, SNAPSHOT_DATA_STORE], 'readwrite', tx => {
+    tx.objectStore(SNAPSHOT_META_STORE).put(meta);
+    tx.objectStore(SNAPSHOT_DATA_STORE).put(state, meta.id);
+  }).then(() => meta);
+};
+
+export const loadSnapshot = (id: string) =>
+  run<SessionState | undefined>([SNAPSHOT_DATA_STORE], 'readonly', tx => tx.objectStore(SNAPSHOT_DATA_STORE).get(id))
+    .then(state => {
+      if (!state) throw new Error('El snapshot ya no existe');
+      return state;
+    });
+
+export const deleteSnapshot = (id: string) =>
+  run<void>([SNAPSHOT_META_STORE, SNAPSHOT_DATA_STORE], 'readwrite', tx => {
+    tx.objectStore(SNAPSHOT_META_STORE).delete(id);
+    tx.objectStore(SNAPSHOT_DATA_STORE).delete(id);
+  });
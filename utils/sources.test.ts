@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest';
+import { RadiologyRecord, DataSource } from '../types';
+import { mergeSources, duplicateKey, sourceName } from './sources';
+
+const START = new Date(2026, 0, 5, 8).getTime();
+
+const record = (source: string, overrides: Partial<RadiologyRecord> = {}) => ({
+  id_paciente: 'P1',
+  descripcion: 'TAC DE CRANEO',
+  fecha_realizado: '05/01/2026 08:00',
+  fecha_realizado_ts: START,
+  fecha_reporte_ts: null,
+  realizado_por: 'PEREZ JUAN',
+  estado_reporte: '',
+  source,
+  ...overrides
+} as RadiologyRecord);
+
+const source = (id: string, records: RadiologyRecord[]) => ({ id, fileName: `${id}.csv`, records } as DataSource);
+
+describe('duplicateKey', () => {
+  it('compara paciente, descripción, fecha y especialista sin tildes ni mayúsculas', () => {
+    expect(duplicateKey(record('a'))).toBe(duplicateKey(record('b', { descripcion: 'tac de cráneo', realizado_por: ' Perez  Juan ' })));
+    expect(duplicateKey(record('a'))).not.toBe(duplicateKey(record('a', { fecha_realizado_ts: START + 1 })));
+  });
+
+  it('usa el texto de la fecha cuando no se pudo interpretar', () => {
+    const undated = (fecha_realizado: string) => record('a', { fecha_realizado, fecha_realizado_ts: null });
+    expect(duplicateKey(undated('ayer'))).toBe(duplicateKey(undated('AYER')));
+    expect(duplicateKey(undated('ayer'))).not.toBe(duplicateKey(undated('hoy')));
+  });
+});
+
+describe('mergeSources', () => {
+  const first = record('a');
+  const reported = record('b', { fecha_reporte_ts: START + 3600000, estado_reporte: 'FIRMADO' });
+  const other = record('b', { id_paciente: 'P2' });
+  const sources = [source('a', [first]), source('b', [reported, other])];
+
+  it('conserva el primero, el último o el más completo según la política', () => {
+    expect(mergeSources(sources, 'first').records).toEqual([first, other]);
+    expect(mergeSources(sources, 'last').records).toEqual([reported, other]);
+    expect(mergeSources(sources, 'most_complete').records).toEqual([reported, other]);
+  });
+
+  it('informa los grupos repetidos con la copia conservada', () => {
+    const { duplicates } = mergeSources(sources, 'first');
+    expect(duplicates).toHaveLength(1);
+    expect(duplicates[0].copies).toEqual([first, reported]);
+    expect(duplicates[0].kept).toEqual([first]);
+  });
+
+  it('con keep_all no descarta nada pero informa los grupos', () => {
+    const { records, duplicates } = mergeSources(sources, 'keep_all');
+    expect(records).toEqual([first, reported, other]);
+    expect(duplicates[0].kept).toEqual([first, reported]);
+  });
+
+  it('detecta repetidos dentro de un mismo archivo', () => {
+    expect(mergeSources([source('a', [first, record('a')])], 'first').records).toEqual([first]);
+  });
+});
+
+describe('sourceName', () => {
+  it('devuelve el nombre del archivo o el id si ya no está', () => {
+    expect(sourceName([source('a', [])], 'a')).toBe('a.csv');
+    expect(sourceName([], 'a')).toBe('a');
+  });
+});
@@ -0,0 +1,64 @@
+import { RadiologyRecord, DataSource, DuplicatePolicy, DuplicateGroup } from '../types';
+import { normalize } from './normalize';
+
+export const DUPLICATE_POLICIES: { value: DuplicatePolicy; label: string }[] = [
+  { value: 'first', label: 'Conservar el primero cargado' },
+  { value: 'last', label: 'Conservar el último cargado' },
+  { value: 'most_complete', label: 'Conservar el más completo' },
+  { value: 'keep_all', label: 'Conservar todos' }
+];
+
+export const DEFAULT_DUPLICATE_POLICY: DuplicatePolicy = 'first';
+
+export const newSourceId = () => `src_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 7)}`;
+
+// Mismo estudio: paciente, descripción, fecha de realización y especialista
+export const duplicateKey = (record: RadiologyRecord) => [
+  normalize(record.id_paciente || ''),
+  normalize(record.descripcion || ''),
+  record.fecha_realizado_ts ?? normalize(record.fecha_realizado || ''),
+  normalize(record.realizado_por || '')
+].join('|');
+
+// Campos con valor; a igualdad gana el que ya tiene fecha de reporte
+const completeness = (record: RadiologyRecord) =>
+  Object.values(record).filter(v => v !== null && v !== '').length + (record.fecha_reporte_ts !== null ? 1 : 0);
+
+const pick = (group: RadiologyRecord[], policy: DuplicatePolicy) => {
+  if (policy === 'last') return group[group.length - 1];
+  if (policy === 'most_complete') {
+    return group.reduce((best, r) => (completeness(r) > completeness(best) ? r : best), group[0]);
+  }
+  return group[0];
+};
+
+/**
+ * Une los registros de todos los archivos en orden de carga y resuelve los
+ * estudios repetidos (también dentro de un mismo archivo) según la política.
+ * Con 'keep_all' los grupos se informan pero no se descarta nada.
+ */
+export const mergeSources = (
+  sources: DataSource[],
+  policy: DuplicatePolicy
+): { records: RadiologyRecord[], duplicates: DuplicateGroup[] } => {
+  const groups = new Map<string, RadiologyRecord[]>();
+  sources.forEach(source => source.records.forEach(record => {
+    const key = duplicateKey(record);
+    const group = groups.get(key);
+    if (group) group.push(record);
+    else groups.set(key, [record]);
+  }));
+
+  const records: RadiologyRecord[] = [];
+  const duplicates: DuplicateGroup[] = [];
+  groups.forEach((group, key) => {
+    const kept = group.length === 1 || policy === 'keep_all' ? group : [pick(group, policy)];
+    records.push(...kept);
+    if (group.length > 1) duplicates.push({ key, copies: group, kept });
+  });
+
+  return { records, duplicates };
+};
+
+export const sourceName = (sources: DataSource[], id: string) =>
+  sources.find(s => s.id === id)?.fileName || id;
@@ -0,0 +1,83 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { RadiologyRecord, SpecialistProfile } from '../types';
+import {
+  specialistKey,
+  canonicalName,
+  compileDirectory,
+  applyDirectory,
+  suggestSpecialistGroups,
+  acceptSuggestion,
+  validateDirectory,
+  loadDirectory
+} from './specialists';
+
+const profile = (id: string, name: string, aliases: string[] = []): SpecialistProfile =>
+  ({ id, name, aliases, license: '', role: null });
+
+const records = (name: string, count: number) =>
+  Array.from({ length: count }, () => ({ realizado_por: name, specialistOriginal: name } as RadiologyRecord));
+
+describe('specialistKey', () => {
+  it('ignora títulos, tildes, mayúsculas y el orden de las palabras', () => {
+    expect(specialistKey('DR. PÉREZ JUAN')).toBe(specialistKey('juan  perez'));
+    expect(canonicalName('Dra. María López')).toBe('MARIA LOPEZ');
+  });
+});
+
+describe('applyDirectory', () => {
+  it('usa el nombre de la ficha y conserva el original', () => {
+    const lookup = compileDirectory([profile('1', 'JUAN PEREZ', ['PEREZ J.'])]);
+    const [byAlias, byName, unknown] = applyDirectory([
+      { realizado_por: ' perez j. ' } as RadiologyRecord,
+      { realizado_por: 'Dr. Juan Pérez' } as RadiologyRecord,
+      { realizado_por: 'ANA LOPEZ' } as RadiologyRecord
+    ], lookup);
+    expect(byAlias).toMatchObject({ realizado_por: 'JUAN PEREZ', specialistOriginal: 'perez j.' });
+    expect(byName.realizado_por).toBe('JUAN PEREZ');
+    expect(unknown).toMatchObject({ realizado_por: 'ANA LOPEZ', specialistOriginal: 'ANA LOPEZ' });
+  });
+});
+
+describe('suggestSpecialistGroups', () => {
+  it('agrupa variantes del mismo nombre, la más frecuente primero', () => {
+    const data = [...records('PEREZ JUAN', 3), ...records('DR. JUAN PEREZ', 5), ...records('PERES JUAN', 1), ...records('ANA LOPEZ', 4)];
+    expect(suggestSpecialistGroups(data, [])).toEqual([{
+      names: [{ name: 'DR. JUAN PEREZ', count: 5 }, { name: 'PEREZ JUAN', count: 3 }, { name: 'PERES JUAN', count: 1 }],
+      profileId: null
+    }]);
+  });
+
+  it('propone sumar a la ficha existente y no mezcla fichas distintas', () => {
+    const profiles = [profile('1', 'JUAN PEREZ'), profile('2', 'JUAN PERES')];
+    const data = [...records('JUAN PEREZ', 2), ...records('JUAN PERES', 2), ...records('PEREZ JUAN.', 1)];
+    expect(suggestSpecialistGroups(data, profiles)).toEqual([]);
+
+    const suggestions = suggestSpecialistGroups([...records('JUAN PEREZ', 2), ...records('JUAN PEREZZ', 1)], [profile('1', 'JUAN PEREZ')]);
+    expect(suggestions).toEqual([{ names: [{ name: 'JUAN PEREZ', count: 2 }, { name: 'JUAN PEREZZ', count: 1 }], profileId: '1' }]);
+    expect(acceptSuggestion([profile('1', 'JUAN PEREZ')], suggestions[0])[0].aliases).toEqual(['JUAN PEREZZ']);
+  });
+
+  it('crea una ficha nueva con el nombre más frecuente', () => {
+    const [created] = acceptSuggestion([], { names: [{ name: 'Dr. Juan Pérez', count: 2 }, { name: 'PEREZ JUAN', count: 1 }], profileId: null });
+    expect(created).toMatchObject({ name: 'JUAN PEREZ', aliases: ['Dr. Juan Pérez', 'PEREZ JUAN'] });
+  });
+});
+
+describe('validateDirectory', () => {
+  it('rechaza fichas sin nombre y variantes repetidas entre fichas', () => {
+    expect(validateDirectory([profile('1', 'JUAN PEREZ', ['PEREZ JUAN'])])).toBeNull();
+    expect(validateDirectory([profile('1', 'DR.')])).toBe('Hay una ficha sin nombre');
+    expect(validateDirectory([profile('1', 'JUAN PEREZ'), profile('2', 'ANA', ['Perez Juan'])])).toMatch(/dos fichas/);
+  });
+});
+
+describe('loadDirectory', () => {
+  afterEach(() => vi.unstubAllGlobals());
+
+  const stored = (value: unknown) => vi.stubGlobal('localStorage', { getItem: () => JSON.stringify(value) });
+
+  it('quita solo los alias que ya pertenecen a otra ficha', () => {
+    stored([profile('1', 'JUAN PEREZ', ['J PEREZ']), profile('2', 'ANA LOPEZ', ['PEREZ J', 'LOPEZ A']), { id: '3', name: ' ' }]);
+    expect(loadDirectory()).toEqual([profile('1', 'JUAN PEREZ', ['J PEREZ']), profile('2', 'ANA LOPEZ', ['LOPEZ A'])]);
+  });
+});
@@ -0,0 +1,188 @@
+import { RadiologyRecord, SpecialistProfile, SpecialistRole, SpecialistSuggestion } from '../types';
+import { normalize, levenshtein } from './normalize';
+
+const STORAGE_KEY = 'medstats.specialists.v1';
+
+export const DEFAULT_SUGGESTION_THRESHOLD = 0.85;
+
+export const SPECIALIST_ROLES: { key: SpecialistRole; label: string }[] = [
+  { key: 'adscrito', label: 'Radiólogo Adscrito' },
+  { key: 'residente', label: 'Médico Residente' },
+  { key: 'externo', label: 'Radiólogo Externo' }
+];
+
+export const roleLabel = (role: SpecialistRole | null) => SPECIALIST_ROLES.find(r => r.key === role)?.label || '';
+
+export const newSpecialistId = () => `sp_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 7)}`;
+
+// Títulos que algunos RIS anteponen al nombre y no lo distinguen
+const TITLES = new Set(['DR', 'DRA', 'DOCTOR', 'DOCTORA', 'LIC', 'LICDA', 'MD', 'MC']);
+const PARTICLES = new Set(['DE', 'DEL', 'LA', 'LAS', 'LOS', 'Y']);
+
+const nameTokens = (name: string) => normalize(name).split(' ').filter(t => t && !TITLES.has(t));
+
+/**
+ * Clave de comparación: sin tildes, títulos ni mayúsculas y con las palabras
+ * ordenadas, así "DR. PEREZ JUAN", "Perez  Juan" y "JUAN PÉREZ" coinciden.
+ */
+export const specialistKey = (name: string) => nameTokens(name).sort().join(' ');
+
+// Nombre propuesto para una ficha nueva: sin títulos ni tildes, en el orden original
+export const canonicalName = (name: string) => nameTokens(name).join(' ');
+
+export const specialistInitials = (name: string) =>
+  nameTokens(name).filter(t => !PARTICLES.has(t) && t.length > 2).map(t => t[0]).join('').substring(0, 2);
+
+// Ficha a la que pertenece un nombre del archivo (por su nombre canónico o alguno de sus alias)
+export const compileDirectory = (profiles: SpecialistProfile[]) => {
+  const byKey = new Map<string, SpecialistProfile>();
+  profiles.forEach(profile => {
+    [profile.name, ...profile.aliases].forEach(value => {
+      const key = specialistKey(value);
+      if (key && !byKey.has(key)) byKey.set(key, profile);
+    });
+  });
+  return (name: string): SpecialistProfile | null => byKey.get(specialistKey(name)) || null;
+};
+
+/**
+ * Reemplaza REALIZADO POR por el nombre canónico del directorio (filtros,
+ * resúmenes y reportes lo usan sin más cambios) y conserva el original.
+ */
+export const applyDirectory = (records: RadiologyRecord[], lookup: ReturnType<typeof compileDirectory>) =>
+  records.map(record => {
+    const original = (record.realizado_por || '').trim();
+    const profile = original ? lookup(original) : null;
+    return { ...record, specialistOriginal: original, realizado_por: profile ? profile.name : original };
+  });
+
+const similarity = (a: string, b: string) => {
+  const x = a.replace(/\s+/g, '');
+  const y = b.replace(/\s+/g, '');
+  const longest = Math.max(x.length, y.length);
+  return longest === 0 ? 1 : 1 - levenshtein(x, y) / longest;
+};
+
+/**
+ * Grupos de nombres del archivo que parecen la misma persona (misma clave o
+ * clave muy parecida) y que el directorio aún no une. Si alguno ya tiene ficha
+ * se propone sumar los demás a esa ficha.
+ */
+export const suggestSpecialistGroups = (
+  data: RadiologyRecord[],
+  profiles: SpecialistProfile[],
+  threshold: number = DEFAULT_SUGGESTION_THRESHOLD
+): SpecialistSuggestion[] => {
+  const counts = new Map<string, number>();
+  data.forEach(r => {
+    if (r.specialistOriginal) counts.set(r.specialistOriginal, (counts.get(r.specialistOriginal) || 0) + 1);
+  });
+  const lookup = compileDirectory(profiles);
+  const names = Array.from(counts.keys()).map(name => ({ name, key: specialistKey(name), profileId: lookup(name)?.id ?? null }));
+
+  // Unión por pares; la longitud descarta rápido los que no pueden alcanzar el umbral
+  const parent = names.map((_, i) => i);
+  const find = (i: number): number => (parent[i] === i ? i : (parent[i] = find(parent[i])));
+  for (let i = 0; i < names.length; i++) {
+    for (let j = i + 1; j < names.length; j++) {
+      const a = names[i].key;
+      const b = names[j].key;
+      if (1 - Math.abs(a.length - b.length) / Math.max(a.length, b.length, 1) < threshold) continue;
+      if (a === b || similarity(a, b) >= threshold) parent[find(j)] = find(i);
+    }
+  }
+
+  const clusters = new Map<number, typeof names>();
+  names.forEach((n, i) => {
+    const root = find(i);
+    clusters.set(root, [...(clusters.get(root) || []), n]);
+  });
+
+  const suggestions: SpecialistSuggestion[] = [];
+  clusters.forEach(cluster => {
+    const sorted = [...cluster].sort((a, b) => (counts.get(b.name) || 0) - (counts.get(a.name) || 0));
+    const profileId = sorted.find(n => n.profileId)?.profileId ?? null;
+    // Los nombres que ya pertenecen a otra ficha se dejan fuera: unir fichas es una decisión manual
+    const members = sorted.filter(n => n.profileId === null || n.profileId === profileId);
+    if (members.length < 2 || !members.some(n => n.profileId === null)) return;
+    suggestions.push({ names: members.map(n => ({ name: n.name, count: counts.get(n.name) || 0 })), profileId });
+  });
+  return suggestions.sort((a, b) => b.names.length - a.names.length);
+};
+
+// Aplica una sugerencia: suma los nombres a la ficha existente o crea una nueva
+export const acceptSuggestion = (profiles: SpecialistProfile[], suggestion: SpecialistSuggestion): SpecialistProfile[] => {
+  const names = suggestion.names.map(n => n.name);
+  if (suggestion.profileId) {
+    return profiles.map(p => (p.id === suggestion.profileId
+      ? { ...p, aliases: Array.from(new Set([...p.aliases, ...names.filter(n => n !== p.name)])) }
+      : p));
+  }
+  const name = canonicalName(names[0]);
+  return [...profiles, { id: newSpecialistId(), name, aliases: names.filter(n => n !== name), license: '', role: null }];
+};
+
+// Devuelve el mensaje de error del directorio o null si es válido
+export const validateDirectory = (profiles: SpecialistProfile[]): string | null => {
+  const seen = new Map<string, string>();
+  for (const p of profiles) {
+    if (!specialistKey(p.name)) return 'Hay una ficha sin nombre';
+    // Las variantes de una misma ficha pueden compartir clave; entre fichas distintas no
+    const keys = new Set([p.name, ...p.aliases].map(specialistKey).filter(Boolean));
+    for (const key of keys) {
+      const owner = seen.get(key);
+      if (owner) return `"${key}" corresponde a dos fichas (${owner} y ${p.name})`;
+      seen.set(key, p.name);
+    }
+  }
+  return null;
+};
+
+const sanitize = (item: any): SpecialistProfile => ({
+  id: String(item?.id || newSpecialistId()),
+  name: String(item?.name ?? '').trim(),
+  aliases: Array.isArray(item?.aliases) ? item.aliases.map((a: unknown) => String(a).trim()).filter(Boolean) : [],
+  license: String(item?.license ?? '').trim(),
+  role: SPECIALIST_ROLES.some(r => r.key === item?.role) ? item.role : null
+});
+
+/**
+ * Quita los alias que ya pertenecen a otra ficha anterior, sin descartar el
+ * resto del directorio. Si lo que choca es el nombre, la ficha se conserva y
+ * el editor muestra el error para resolverlo a mano.
+ */
+const dropConflictingAliases = (profiles: SpecialistProfile[]): SpecialistProfile[] => {
+  const owner = new Map<string, string>();
+  profiles.forEach(p => {
+    const key = specialistKey(p.name);
+    if (key && !owner.has(key)) owner.set(key, p.id);
+  });
+  return profiles.map(p => {
+    const aliases = p.aliases.filter(alias => {
+      const key = specialistKey(alias);
+      if (!key) return true;
+      const current = owner.get(key);
+      if (current && current !== p.id) return false;
+      owner.set(key, p.id);
+      return true;
+    });
+    return aliases.length === p.aliases.length ? p : { ...p, aliases };
+  });
+};
+
+export const loadDirectory = (): SpecialistProfile[] => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return [];
+    const parsed = JSON.parse(raw);
+    const list = Array.isArray(parsed) ? parsed.map(sanitize).filter(p => specialistKey(p.name)) : [];
+    return dropConflictingAliases(list);
+  } catch (e) {
+    console.error('Error leyendo directorio de especialistas:', e);
+    return [];
+  }
+};
+
+export const saveDirectory = (profiles: SpecialistProfile[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(profiles));
+};
@@ -0,0 +1,44 @@
+import { RadiologyRecord, StudySort, StudySortKey, VolumeBucket } from '../types';
+import { getTurnaroundHours } from './turnaround';
+
+export const STUDY_PAGE_SIZE = 25;
+
+// Más recientes primero, como se revisan en las reuniones de seguimiento
+export const DEFAULT_STUDY_SORT: StudySort = { key: 'fecha_realizado_ts', direction: 'desc' };
+
+const sortValue = (record: RadiologyRecord, key: StudySortKey): string | number | null => {
+  if (key === 'turnaround') return getTurnaroundHours(record);
+  const value = record[key];
+  if (typeof value === 'number') return value;
+  return value ? String(value).trim() : null;
+};
+
+// Ordena sin modificar la lista original; los valores vacíos quedan al final en ambos sentidos
+export const sortStudies = (records: RadiologyRecord[], sort: StudySort): RadiologyRecord[] => {
+  const factor = sort.direction === 'asc' ? 1 : -1;
+  return [...records].sort((a, b) => {
+    const va = sortValue(a, sort.key);
+    const vb = sortValue(b, sort.key);
+    if (va === null || vb === null) return va === vb ? 0 : va === null ? 1 : -1;
+    const diff = typeof va === 'number' && typeof vb === 'number'
+      ? va - vb
+      : String(va).localeCompare(String(vb), 'es', { numeric: true });
+    return diff * factor;
+  });
+};
+
+// Un clic en la misma columna invierte el sentido; en una nueva empieza ascendente (fechas, descendente)
+export const toggleStudySort = (current: StudySort, key: StudySortKey): StudySort => {
+  if (current.key === key) return { key, direction: current.direction === 'asc' ? 'desc' : 'asc' };
+  return { key, direction: key === 'fecha_realizado_ts' || key === 'fecha_reporte_ts' ? 'desc' : 'asc' };
+};
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// Agrupación diaria hasta dos meses de actividad; con más, semanal para que la gráfica siga legible
+export const volumeBucketFor = (records: RadiologyRecord[]): VolumeBucket => {
+  const timestamps = records.map(r => r.fecha_realizado_ts).filter((ts): ts is number => ts !== null);
+  if (timestamps.length === 0) return 'day';
+  const span = timestamps.reduce((a, b) => Math.max(a, b)) - timestamps.reduce((a, b) => Math.min(a, b));
+  return span > 62 * MS_PER_DAY ? 'week' : 'day';
+};
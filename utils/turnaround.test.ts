@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import { RadiologyRecord } from '../types';
+import { getTurnaroundHours, getTurnaroundSummary, formatHours } from './turnaround';
+
+const HOUR = 60 * 60 * 1000;
+const START = new Date(2026, 0, 5, 8).getTime();
+
+const record = (realizado_por: string, modalidad: string, hours: number | null) => ({
+  realizado_por,
+  modalidad,
+  subcategory: 'STANDARD',
+  fecha_realizado_ts: START,
+  fecha_reporte_ts: hours === null ? null : START + hours * HOUR
+} as RadiologyRecord);
+
+describe('getTurnaroundHours', () => {
+  it('mide las horas entre la realización y el reporte', () => {
+    expect(getTurnaroundHours(record('A', 'CT', 6.5))).toBe(6.5);
+  });
+
+  it('no mide estudios sin reporte o con el reporte antes del estudio', () => {
+    expect(getTurnaroundHours(record('A', 'CT', null))).toBeNull();
+    expect(getTurnaroundHours(record('A', 'CT', -1))).toBeNull();
+  });
+});
+
+describe('getTurnaroundSummary', () => {
+  const data = [
+    record('PEREZ', 'CT', 2),
+    record('PEREZ', 'CT', 4),
+    record('PEREZ', 'us', 30),
+    record('GOMEZ', 'CT', 50),
+    record('GOMEZ', 'CT', null)
+  ];
+  const summary = getTurnaroundSummary(data, 24);
+
+  it('calcula mediana, p90 y máximo de los estudios medidos', () => {
+    expect(summary.overall).toEqual({ key: 'GLOBAL', count: 4, median: 17, p90: 50, max: 50, slaBreaches: 2 });
+    expect(summary.unmeasured).toBe(1);
+  });
+
+  it('agrupa por especialista y modalidad, la mediana más alta primero', () => {
+    expect(summary.bySpecialist.map(s => [s.key, s.median])).toEqual([['GOMEZ', 50], ['PEREZ', 4]]);
+    expect(summary.byModality.map(s => s.key)).toEqual(['US', 'CT']);
+  });
+
+  it('lista los estudios fuera del SLA, el más demorado primero', () => {
+    expect(summary.breaches.map(b => b.hours)).toEqual([50, 30]);
+    expect(getTurnaroundSummary(data, 48).overall.slaBreaches).toBe(1);
+  });
+});
+
+describe('formatHours', () => {
+  it('pasa a días a partir de 24 horas', () => {
+    expect(formatHours(3.25)).toBe('3.3 h');
+    expect(formatHours(52)).toBe('2d 4.0 h');
+  });
+});
@@ -0,0 +1,80 @@
+import { RadiologyRecord, TurnaroundStats, TurnaroundSummary, TurnaroundBreach } from '../types';
+
+// SLA por defecto (horas) entre FECHA REALIZADO y FECHA REPORTE
+export const DEFAULT_SLA_HOURS = 24;
+
+const MS_PER_HOUR = 1000 * 60 * 60;
+
+// Horas entre la realización y el reporte; null si alguna fecha falta o el orden es inválido
+export const getTurnaroundHours = (record: RadiologyRecord): number | null => {
+  const start = record.fecha_realizado_ts;
+  const end = record.fecha_reporte_ts;
+  if (start === null || end === null || end < start) return null;
+  return (end - start) / MS_PER_HOUR;
+};
+
+// Percentil por rango más cercano sobre una lista ya ordenada
+const percentile = (sorted: number[], p: number) => {
+  if (sorted.length === 0) return 0;
+  const rank = Math.ceil((p / 100) * sorted.length) - 1;
+  return sorted[Math.min(Math.max(rank, 0), sorted.length - 1)];
+};
+
+const median = (sorted: number[]) => {
+  if (sorted.length === 0) return 0;
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+};
+
+const buildStats = (key: string, hours: number[], slaHours: number): TurnaroundStats => {
+  const sorted = [...hours].sort((a, b) => a - b);
+  return {
+    key,
+    count: sorted.length,
+    median: median(sorted),
+    p90: percentile(sorted, 90),
+    max: sorted.length > 0 ? sorted[sorted.length - 1] : 0,
+    slaBreaches: sorted.filter(h => h > slaHours).length
+  };
+};
+
+const groupStats = (
+  measured: TurnaroundBreach[],
+  keyOf: (r: RadiologyRecord) => string,
+  slaHours: number
+): TurnaroundStats[] => {
+  const groups = measured.reduce((acc, { record, hours }) => {
+    const key = keyOf(record);
+    (acc[key] = acc[key] || []).push(hours);
+    return acc;
+  }, {} as Record<string, number[]>);
+
+  return Object.entries(groups)
+    .map(([key, hours]) => buildStats(key, hours, slaHours))
+    .sort((a, b) => b.median - a.median);
+};
+
+export const getTurnaroundSummary = (data: RadiologyRecord[], slaHours: number = DEFAULT_SLA_HOURS): TurnaroundSummary => {
+  const measured: TurnaroundBreach[] = [];
+  data.forEach(record => {
+    const hours = getTurnaroundHours(record);
+    if (hours !== null) measured.push({ record, hours });
+  });
+
+  return {
+    slaHours,
+    overall: buildStats('GLOBAL', measured.map(m => m.hours), slaHours),
+    bySpecialist: groupStats(measured, r => (r.realizado_por || 'SIN ASIGNAR').trim(), slaHours),
+    byModality: groupStats(measured, r => (r.modalidad || 'N/A').trim().toUpperCase(), slaHours),
+    bySubcategory: groupStats(measured, r => r.subcategory, slaHours),
+    breaches: measured.filter(m => m.hours > slaHours).sort((a, b) => b.hours - a.hours),
+    unmeasured: data.length - measured.length
+  };
+};
+
+// Formato legible de horas para tablas y reportes: "3.5 h" o "2d 4.0 h"
+export const formatHours = (hours: number) => {
+  if (hours < 24) return `${hours.toFixed(1)} h`;
+  const days = Math.floor(hours / 24);
+  return `${days}d ${(hours - days * 24).toFixed(1)} h`;
+};
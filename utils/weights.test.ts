@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import { RadiologyRecord, WeightRule } from '../types';
+import { compileWeights, sanitizeWeightRule, parseWeightsCsv } from './weights';
+
+const record = (modalidad: string, descripcion: string, subcategory: string) =>
+  ({ modalidad, descripcion, subcategory } as RadiologyRecord);
+
+const rule = (description: string, modality: string, subcategory: string, weight: number): WeightRule =>
+  sanitizeWeightRule({ description, modality, subcategory, weight });
+
+describe('compileWeights', () => {
+  it('distingue filas con la misma descripción y distinta subcategoría', () => {
+    const weigh = compileWeights({
+      defaultWeight: 1,
+      rules: [rule('TAC ABDOMEN', 'CT', 'SIMPLE', 1.5), rule('TAC ABDOMEN', 'CT', 'CONTRASTADOS', 3)]
+    });
+    expect(weigh(record('CT', 'TAC ABDOMEN', 'CONTRASTADOS'))).toBe(3);
+    expect(weigh(record('CT', 'TAC ABDOMEN', 'SIMPLE'))).toBe(1.5);
+    // Sin fila para la subcategoría del estudio, ninguna de las dos aplica
+    expect(weigh(record('CT', 'TAC ABDOMEN', 'STANDARD'))).toBe(1);
+  });
+
+  it('usa la fila más específica', () => {
+    const weigh = compileWeights({
+      defaultWeight: 1,
+      rules: [
+        rule('', '', 'CONTRASTADOS', 2),
+        rule('', 'CT', '', 4),
+        rule('', 'CT', 'CONTRASTADOS', 5),
+        rule('TAC ABDOMEN', '', '', 6),
+        rule('TAC ABDOMEN', 'CT', '', 7),
+        rule('TAC ABDOMEN', 'CT', 'CONTRASTADOS', 8)
+      ]
+    });
+    expect(weigh(record('CT', 'TAC ABDOMEN', 'CONTRASTADOS'))).toBe(8);
+    expect(weigh(record('CT', 'TAC ABDOMEN', 'SIMPLE'))).toBe(7);
+    expect(weigh(record('MR', 'TAC ABDOMEN', 'SIMPLE'))).toBe(6);
+    expect(weigh(record('CT', 'TAC TORAX', 'CONTRASTADOS'))).toBe(5);
+    expect(weigh(record('CT', 'TAC TORAX', 'SIMPLE'))).toBe(4);
+    expect(weigh(record('US', 'USG', 'CONTRASTADOS'))).toBe(2);
+    expect(weigh(record('US', 'USG', 'SIMPLE'))).toBe(1);
+  });
+
+  it('compara la descripción normalizada y gana la primera fila repetida', () => {
+    const weigh = compileWeights({
+      defaultWeight: 1,
+      rules: [rule('Tác  abdomen', 'ct', '', 2), rule('TAC ABDOMEN', 'CT', '', 9)]
+    });
+    expect(weigh(record('CT', 'TAC ABDÓMEN', 'SIMPLE'))).toBe(2);
+  });
+});
+
+describe('parseWeightsCsv', () => {
+  it('lee las cuatro columnas con decimales con coma', () => {
+    const rules = parseWeightsCsv('DESCRIPCION;MODALIDAD;SUBCATEGORIA;PESO\nTAC ABDOMEN;CT;CONTRASTADOS;"3,5"\n');
+    expect(rules).toEqual([{ description: 'TAC ABDOMEN', modality: 'CT', subcategory: 'CONTRASTADOS', weight: 3.5 }]);
+  });
+});
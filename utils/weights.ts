@@ -0,0 +1,144 @@
+import Papa from 'papaparse';
+import { RadiologyRecord, WeightRule, WeightTable } from '../types';
+import { normalize } from './normalize';
+
+const STORAGE_KEY = 'medstats.weights.v1';
+
+// Sin filas todos los estudios pesan 1: el puntaje coincide con el conteo
+export const DEFAULT_WEIGHT_TABLE: WeightTable = { defaultWeight: 1, rules: [] };
+
+const ANY = '*';
+
+export const validateWeightRule = (rule: WeightRule): string | null => {
+  if (!Number.isFinite(rule.weight) || rule.weight < 0) return 'El peso debe ser un número mayor o igual a 0';
+  if (!rule.description && rule.modality === ANY && rule.subcategory === ANY) {
+    return 'Indique descripción, modalidad o subcategoría';
+  }
+  return null;
+};
+
+const cleanCode = (value: string) => (value || '').trim().toUpperCase() || ANY;
+
+export const sanitizeWeightRule = (item: Partial<WeightRule>): WeightRule => ({
+  description: normalize(String(item.description ?? '')),
+  modality: cleanCode(String(item.modality ?? '')),
+  subcategory: cleanCode(String(item.subcategory ?? '')),
+  weight: Number(item.weight)
+});
+
+/**
+ * Devuelve el peso de un registro. Gana la fila más específica:
+ * descripción (de su modalidad antes que '*' y, dentro de cada una, de su
+ * subcategoría antes que '*'), luego modalidad + subcategoría, solo
+ * modalidad, solo subcategoría y por último el peso por defecto.
+ */
+export const compileWeights = (table: WeightTable) => {
+  const byKey = new Map<string, number>();
+  // La primera fila con la misma clave gana, igual que en las reglas de clasificación
+  table.rules.forEach(rule => {
+    const key = rule.description
+      ? `D|${rule.modality}|${rule.description}|${rule.subcategory}`
+      : `F|${rule.modality}|${rule.subcategory}`;
+    if (!byKey.has(key)) byKey.set(key, rule.weight);
+  });
+
+  return (record: RadiologyRecord): number => {
+    const mod = (record.modalidad || '').toUpperCase().trim();
+    const desc = normalize(record.descripcion || '');
+    const sub = record.subcategory;
+    const candidates = [
+      `D|${mod}|${desc}|${sub}`,
+      `D|${mod}|${desc}|${ANY}`,
+      `D|${ANY}|${desc}|${sub}`,
+      `D|${ANY}|${desc}|${ANY}`,
+      `F|${mod}|${sub}`,
+      `F|${mod}|${ANY}`,
+      `F|${ANY}|${sub}`
+    ];
+    for (const key of candidates) {
+      const weight = byKey.get(key);
+      if (weight !== undefined) return weight;
+    }
+    return table.defaultWeight;
+  };
+};
+
+export const applyWeights = (records: RadiologyRecord[], weigh: (record: RadiologyRecord) => number) =>
+  records.map(record => ({ ...record, weight: weigh(record) }));
+
+// Puntaje con hasta dos decimales
+export const formatScore = (score: number) =>
+  score.toLocaleString(undefined, { maximumFractionDigits: 2 });
+
+// Encabezados aceptados en el CSV (se comparan normalizados)
+const CSV_COLUMNS: Record<keyof WeightRule, string[]> = {
+  description: ['DESCRIPCION', 'DESCRIPTION', 'PROCEDIMIENTO', 'ESTUDIO'],
+  modality: ['MODALIDAD', 'MODALITY'],
+  subcategory: ['SUBCATEGORIA', 'SUBCATEGORY'],
+  weight: ['PESO', 'RVU', 'WEIGHT', 'VALOR']
+};
+
+// Acepta decimales con coma (1,5) además de punto
+const parseWeight = (value: string) => {
+  const cleaned = (value || '').trim().replace(',', '.');
+  return cleaned === '' ? NaN : Number(cleaned);
+};
+
+/**
+ * Lee la tabla de pesos desde CSV con columnas descripción, modalidad,
+ * subcategoría y peso (solo peso es obligatoria; las vacías valen '*').
+ * Lanza Error con la fila del problema.
+ */
+export const parseWeightsCsv = (text: string): WeightRule[] => {
+  const results = Papa.parse<Record<string, string>>(text.replace(/^\ufeff/, ''), {
+    header: true,
+    skipEmptyLines: 'greedy',
+    transformHeader: header => normalize(header)
+  });
+  const headers = results.meta.fields || [];
+  const column = (field: keyof WeightRule) => headers.find(h => CSV_COLUMNS[field].includes(h));
+  const weightColumn = column('weight');
+  if (!weightColumn) throw new Error('El archivo no tiene una columna PESO o RVU');
+  const descColumn = column('description');
+  const modColumn = column('modality');
+  const subColumn = column('subcategory');
+
+  return results.data.map((row, idx) => {
+    const rule = sanitizeWeightRule({
+      description: descColumn ? row[descColumn] : '',
+      modality: modColumn ? row[modColumn] : '',
+      subcategory: subColumn ? row[subColumn] : '',
+      weight: parseWeight(row[weightColumn])
+    });
+    const error = validateWeightRule(rule);
+    if (error) throw new Error(`Fila ${idx + 2}: ${error}`);
+    return rule;
+  });
+};
+
+export const weightsToCsv = (rules: WeightRule[]) =>
+  '\ufeff' + Papa.unparse({
+    fields: ['DESCRIPCION', 'MODALIDAD', 'SUBCATEGORIA', 'PESO'],
+    data: rules.map(r => [r.description, r.modality, r.subcategory, r.weight])
+  });
+
+export const loadWeights = (): WeightTable => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return DEFAULT_WEIGHT_TABLE;
+    const parsed = JSON.parse(raw);
+    const rules = Array.isArray(parsed?.rules) ? parsed.rules.map(sanitizeWeightRule) : [];
+    const defaultWeight = Number(parsed?.defaultWeight);
+    return {
+      defaultWeight: Number.isFinite(defaultWeight) && defaultWeight >= 0 ? defaultWeight : DEFAULT_WEIGHT_TABLE.defaultWeight,
+      rules: rules.filter((r: WeightRule) => validateWeightRule(r) === null)
+    };
+  } catch (e) {
+    console.error('Error leyendo tabla de pesos guardada:', e);
+    return DEFAULT_WEIGHT_TABLE;
+  }
+};
+
+export const saveWeights = (table: WeightTable) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(table));
+};
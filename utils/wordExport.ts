@@ -1,160 +1,321 @@
 
-import { RadiologyRecord } from '../types';
-
-export const exportToWord = (data: RadiologyRecord[], filterSpecialist: string, dateRange: { min: string, max: string }) => {
-  const filtered = filterSpecialist === 'All' 
-    ? data 
-    : data.filter(d => d.realizado_por === filterSpecialist);
-
-  // Group 1: Complex Summary by Specialist and Modality Columns
-  const specStats: Record<string, any> = {};
-  filtered.forEach(record => {
-    const spec = (record.realizado_por || 'N/A').trim();
-    if (!specStats[spec]) {
-      specStats[spec] = {
-        name: spec,
-        total: 0,
-        ct_std: 0,
-        ct_cont: 0,
-        cr_std: 0,
-        cr_esp: 0,
-        mg: 0,
-        us: 0,
-        otros: 0
-      };
-    }
-    
-    const stats = specStats[spec];
-    stats.total++;
-    
-    const mod = (record.modalidad || '').toUpperCase().trim();
-    const sub = record.subcategory;
-
-    if (mod === 'CT') {
-      if (sub === 'CONTRASTADOS') stats.ct_cont++;
-      else stats.ct_std++;
-    } else if (mod === 'CR') {
-      if (sub === 'ESPECIALES') stats.cr_esp++;
-      else stats.cr_std++;
-    } else if (mod === 'MG') {
-      stats.mg++;
-    } else if (mod === 'US') {
-      stats.us++;
-    } else {
-      stats.otros++;
+import {
+  AlignmentType,
+  BorderStyle,
+  Document,
+  Footer,
+  Packer,
+  PageNumber,
+  PageOrientation,
+  Paragraph,
+  ShadingType,
+  Table,
+  TableCell,
+  TableRow,
+  TextRun,
+  WidthType
+} from 'docx';
+import { RadiologyRecord, TurnaroundStats, DashboardFilters, ReportOptions, PeriodComparison, ModalityMatrixRow } from '../types';
+import { formatHours } from './turnaround';
+import { filterFileLabel } from './filters';
+import { buildReportModel, specialistFilterLabel, activeFilterLabels, DEFAULT_REPORT_OPTIONS } from './reportModel';
+import { STANDARD_SUBCATEGORY, subcategoryTag } from './classificationRules';
+import { downloadBlob } from './download';
+import { comparisonRows, formatDelta } from './comparison';
+import { formatScore } from './weights';
+import { privacyLabel, privacyFileSuffix } from './privacy';
+
+const DOCX_MIME = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+
+const BRAND = '02A58D';
+const DARK = '252525';
+const CONTRAST = 'FF4D63';
+const FONT = 'Arial';
+
+// Medidas en twips (1/20 pt). Carta con márgenes de 1.27 cm
+const PAGE_WIDTH = 12240;
+const PAGE_HEIGHT = 15840;
+const MARGIN = 720;
+const PORTRAIT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+const LANDSCAPE_WIDTH = PAGE_HEIGHT - MARGIN * 2;
+
+type CellTone = 'header' | 'contrast' | 'special' | 'normal';
+
+const TONES: Record<CellTone, { fill?: string; color: string; bold: boolean }> = {
+  header: { fill: 'F2F2F2', color: DARK, bold: true },
+  contrast: { fill: 'FFF0F0', color: CONTRAST, bold: true },
+  special: { fill: 'F0FFF4', color: BRAND, bold: true },
+  normal: { color: DARK, bold: false }
+};
+
+// Contraste en rojo, cualquier otra subcategoría no estándar en verde
+const toneFor = (subcategory: string | null): CellTone => {
+  if (!subcategory || subcategory === STANDARD_SUBCATEGORY) return 'normal';
+  return subcategory === 'CONTRASTADOS' ? 'contrast' : 'special';
+};
+
+const BORDER = { style: BorderStyle.SINGLE, size: 4, color: '000000' };
+
+// El contenido va como texto en XML generado por docx, que escapa "<", "&", etc.
+const cell = (
+  text: string | number,
+  width: number,
+  options: { tone?: CellTone; align?: 'left' | 'center'; bold?: boolean } = {}
+) => {
+  const tone = TONES[options.tone || 'normal'];
+  return new TableCell({
+    width: { size: width, type: WidthType.DXA },
+    borders: { top: BORDER, bottom: BORDER, left: BORDER, right: BORDER },
+    shading: tone.fill ? { type: ShadingType.CLEAR, color: 'auto', fill: tone.fill } : undefined,
+    margins: { top: 40, bottom: 40, left: 60, right: 60 },
+    children: [
+      new Paragraph({
+        alignment: options.align === 'left' ? AlignmentType.LEFT : AlignmentType.CENTER,
+        children: [
+          new TextRun({
+            text: String(text),
+            font: FONT,
+            size: 15,
+            color: tone.color,
+            bold: options.bold ?? tone.bold
+          })
+        ]
+      })
+    ]
+  });
+};
+
+// Tabla con fila de encabezado repetida en cada página; las filas se construyen con los anchos ya calculados
+const table = (
+  totalWidth: number,
+  columns: { label: string; pct: number }[],
+  buildRows: (widths: number[]) => TableCell[][]
+) => {
+  const widths = columns.map(c => Math.round((c.pct / 100) * totalWidth));
+  return new Table({
+    width: { size: totalWidth, type: WidthType.DXA },
+    columnWidths: widths,
+    rows: [
+      new TableRow({
+        tableHeader: true,
+        cantSplit: true,
+        children: columns.map((c, i) => cell(c.label.toUpperCase(), widths[i], { tone: 'header' }))
+      }),
+      ...buildRows(widths).map(children => new TableRow({ cantSplit: true, children }))
+    ]
+  });
+};
+
+const heading = (text: string) => new Paragraph({
+  spacing: { before: 320, after: 120 },
+  shading: { type: ShadingType.CLEAR, color: 'auto', fill: DARK },
+  children: [new TextRun({ text, font: FONT, size: 24, bold: true, color: 'FFFFFF' })]
+});
+
+const label = (name: string, value: string, valueColor: string = DARK) => new Paragraph({
+  spacing: { after: 60 },
+  children: [
+    new TextRun({ text: `${name}: `, font: FONT, size: 18, bold: true, color: DARK }),
+    new TextRun({ text: value, font: FONT, size: 18, bold: valueColor !== DARK, color: valueColor })
+  ]
+});
+
+const footer = () => new Footer({
+  children: [
+    new Paragraph({
+      alignment: AlignmentType.CENTER,
+      children: [
+        new TextRun({ text: `© ${new Date().getFullYear()} MedStats Pro Intelligence — Generado por FortBA®   ·   Página `, font: FONT, size: 14, color: '666666' }),
+        new TextRun({ children: [PageNumber.CURRENT], font: FONT, size: 14, color: '666666' }),
+        new TextRun({ text: ' de ', font: FONT, size: 14, color: '666666' }),
+        new TextRun({ children: [PageNumber.TOTAL_PAGES], font: FONT, size: 14, color: '666666' })
+      ]
+    })
+  ]
+});
+
+const turnaroundTable = (title: string, rows: TurnaroundStats[]) => table(
+  PORTRAIT_WIDTH,
+  [
+    { label: title, pct: 30 },
+    { label: 'Medidos', pct: 14 },
+    { label: 'Mediana', pct: 14 },
+    { label: 'P90', pct: 14 },
+    { label: 'Máximo', pct: 14 },
+    { label: 'Fuera SLA', pct: 14 }
+  ],
+  w => rows.map(r => [
+    cell(r.key, w[0], { align: 'left', bold: true }),
+    cell(r.count, w[1]),
+    cell(formatHours(r.median), w[2]),
+    cell(formatHours(r.p90), w[3]),
+    cell(formatHours(r.max), w[4]),
+    cell(r.slaBreaches, w[5], { tone: r.slaBreaches > 0 ? 'contrast' : 'normal' })
+  ])
+);
+
+const spacer = () => new Paragraph({ spacing: { after: 120 }, children: [] });
+
+// Verde si sube, rojo si baja
+const deltaTone = (diff: number): CellTone => (diff > 0 ? 'special' : diff < 0 ? 'contrast' : 'normal');
+
+const comparisonTable = (rows: ReturnType<typeof comparisonRows>) => table(
+  PORTRAIT_WIDTH,
+  [
+    { label: 'Ámbito', pct: 28 },
+    { label: 'Concepto', pct: 20 },
+    { label: 'Actual', pct: 14 },
+    { label: 'Referencia', pct: 14 },
+    { label: 'Variación', pct: 24 }
+  ],
+  w => rows.map(r => [
+    cell(r.scope, w[0], { align: 'left', bold: r.concept === 'Total' }),
+    cell(r.concept, w[1], { align: 'left', bold: r.concept === 'Total' }),
+    cell(r.delta.current, w[2]),
+    cell(r.delta.previous, w[3]),
+    cell(formatDelta(r.delta), w[4], { tone: deltaTone(r.delta.diff) })
+  ])
+);
+
+const comparisonSection = (comparison: PeriodComparison) => [
+  heading('4. COMPARATIVO DE PERIODOS'),
+  label('PERIODO ACTUAL', comparison.currentLabel, BRAND),
+  label('PERIODO DE REFERENCIA', comparison.previousLabel),
+  label('VARIACIÓN TOTAL', formatDelta(comparison.total)),
+  comparisonTable(comparisonRows(comparison, 'global')),
+  spacer(),
+  comparisonTable(comparisonRows(comparison, 'specialist').filter(r => r.concept === 'Total' || r.delta.current > 0 || r.delta.previous > 0))
+];
+
+const signatureBlock = (signature: NonNullable<ReportOptions['signature']>) => [
+  new Paragraph({ spacing: { before: 1200 }, alignment: AlignmentType.CENTER, children: [
+    new TextRun({ text: '______________________________________', font: FONT, size: 18, color: DARK })
+  ] }),
+  new Paragraph({ alignment: AlignmentType.CENTER, children: [
+    new TextRun({ text: signature.name, font: FONT, size: 20, bold: true, color: DARK })
+  ] }),
+  new Paragraph({ alignment: AlignmentType.CENTER, children: [
+    new TextRun({ text: signature.title, font: FONT, size: 16, color: '666666' })
+  ] })
+];
+
+export const exportToWord = async (
+  data: RadiologyRecord[],
+  filters: DashboardFilters,
+  options: ReportOptions = DEFAULT_REPORT_OPTIONS
+) => {
+  const model = buildReportModel(data, filters, options);
+  const { records, dateRange, columns, specStats, regionStats, turnaround } = model;
+  const { slaHours, signature } = options;
+
+  const matrixTable = (firstColumn: string, rows: ModalityMatrixRow[]) => table(
+    PORTRAIT_WIDTH,
+    [
+      { label: firstColumn, pct: 30 },
+      { label: 'Total', pct: 9 },
+      { label: 'RVU', pct: 9 },
+      ...columns.map(c => ({ label: c.label, pct: 52 / columns.length }))
+    ],
+    w => rows.map(s => [
+      cell(s.name, w[0], { align: 'left', bold: true }),
+      cell(s.total, w[1], { bold: true }),
+      cell(formatScore(s.weighted), w[2], { tone: 'special' }),
+      ...columns.map((c, i) => cell(s.counts[c.key], w[i + 3], { tone: toneFor(c.subcategory) }))
+    ])
+  );
+
+  // En modo privacidad se omiten las columnas de paciente y la descripción ocupa su espacio
+  const detailColumns: { label: string; pct: number; cell: (p: RadiologyRecord, width: number) => TableCell }[] = [
+    { label: 'Realizado por', pct: 15, cell: (p, w) => cell(p.realizado_por || 'N/A', w, { align: 'left' }) },
+    { label: 'Estado reporte', pct: 10, cell: (p, w) => cell(p.estado_reporte || 'N/A', w) },
+    { label: 'Fecha reporte', pct: 10, cell: (p, w) => cell(p.fecha_reporte || 'N/A', w) },
+    ...(options.anonymized ? [] : [
+      { label: 'ID paciente', pct: 10, cell: (p: RadiologyRecord, w: number) => cell(p.id_paciente || 'N/A', w) },
+      { label: 'Nombre paciente', pct: 18, cell: (p: RadiologyRecord, w: number) => cell(p.nombre_paciente || 'N/A', w, { align: 'left', bold: true }) }
+    ]),
+    { label: 'Descripción', pct: options.anonymized ? 45 : 17, cell: (p, w) => cell(p.descripcion || 'N/A', w, { align: 'left' }) },
+    { label: 'Región', pct: 10, cell: (p, w) => cell(p.bodyRegion, w) },
+    { label: 'Modalidad', pct: 10, cell: (p, w) => cell(`${p.modalidad || 'N/A'}${subcategoryTag(p.subcategory)}`, w, { tone: toneFor(p.subcategory) }) }
+  ];
+  const detailTable = table(
+    LANDSCAPE_WIDTH,
+    detailColumns,
+    w => records.map(p => detailColumns.map((c, i) => c.cell(p, w[i])))
+  );
+
+  const page = (orientation: (typeof PageOrientation)[keyof typeof PageOrientation]) => ({
+    page: {
+      size: { width: PAGE_WIDTH, height: PAGE_HEIGHT, orientation },
+      margin: { top: MARGIN, bottom: MARGIN, left: MARGIN, right: MARGIN }
     }
   });
 
-  // Sort patients for the detailed list
-  const sortedPatients = [...filtered].sort((a, b) => {
-    const specComp = (a.realizado_por || '').localeCompare(b.realizado_por || '');
-    if (specComp !== 0) return specComp;
-    return (a.fecha_reporte || '').localeCompare(b.fecha_reporte || '');
+  const doc = new Document({
+    creator: 'MedStats PRO',
+    title: 'Reporte de Productividad Radiológica',
+    description: `Datos de pacientes: ${privacyLabel(options.anonymized)}`,
+    sections: [
+      {
+        properties: page(PageOrientation.PORTRAIT),
+        footers: { default: footer() },
+        children: [
+          new Paragraph({
+            alignment: AlignmentType.CENTER,
+            spacing: { after: 200 },
+            border: { bottom: { style: BorderStyle.SINGLE, size: 12, color: BRAND, space: 4 } },
+            children: [new TextRun({ text: 'REPORTE DE PRODUCTIVIDAD RADIOLÓGICA', font: FONT, size: 32, bold: true, color: BRAND })]
+          }),
+          label('PERIODO ANALIZADO', `${dateRange.min} — ${dateRange.max}`, BRAND),
+          label('FILTRO ESPECIALISTA', specialistFilterLabel(filters)),
+          ...activeFilterLabels(filters, options.anonymized).map(([name, value]) => label(name, value)),
+          label('DATOS DE PACIENTES', privacyLabel(options.anonymized), options.anonymized ? BRAND : DARK),
+          label('FECHA GENERACIÓN', model.generatedAt.toLocaleString()),
+          label('TOTAL ESTUDIOS', String(records.length)),
+          heading('1. CUADRO RESUMEN DE PRODUCTIVIDAD POR MODALIDAD'),
+          matrixTable('Especialista', specStats),
+          heading('1.1 ESTUDIOS POR REGIÓN ANATÓMICA'),
+          matrixTable('Región', regionStats)
+        ]
+      },
+      {
+        properties: page(PageOrientation.LANDSCAPE),
+        footers: { default: footer() },
+        children: [
+          heading(options.anonymized ? '2. RELACIÓN DETALLADA DE ESTUDIOS' : '2. RELACIÓN DETALLADA DE PACIENTES'),
+          detailTable
+        ]
+      },
+      {
+        properties: page(PageOrientation.PORTRAIT),
+        footers: { default: footer() },
+        children: [
+          heading(`3. TIEMPOS DE REPORTE (SLA ${slaHours} H)`),
+          label('MEDIANA GLOBAL', formatHours(turnaround.overall.median)),
+          label('P90', formatHours(turnaround.overall.p90)),
+          label('MÁXIMO', formatHours(turnaround.overall.max)),
+          label(
+            'ESTUDIOS FUERA DE SLA',
+            `${turnaround.overall.slaBreaches} de ${turnaround.overall.count} medidos${turnaround.unmeasured > 0 ? ` (${turnaround.unmeasured} sin fechas válidas)` : ''}`
+          ),
+          turnaroundTable('Especialista', turnaround.bySpecialist),
+          spacer(),
+          turnaroundTable('Modalidad', turnaround.byModality),
+          spacer(),
+          turnaroundTable('Subcategoría', turnaround.bySubcategory),
+          ...(!options.comparison && signature && signature.name.trim() ? signatureBlock(signature) : [])
+        ]
+      },
+      ...(options.comparison ? [{
+        properties: page(PageOrientation.PORTRAIT),
+        footers: { default: footer() },
+        children: [
+          ...comparisonSection(options.comparison),
+          ...(signature && signature.name.trim() ? signatureBlock(signature) : [])
+        ]
+      }] : [])
+    ]
   });
 
-  // Build HTML for Word
-  let html = `
-    <html xmlns:o='urn:schemas-microsoft-com:office:office' xmlns:w='urn:schemas-microsoft-com:office:word' xmlns='http://www.w3.org/TR/REC-html40'>
-    <head><meta charset='utf-8'><title>Reporte Estadístico Consolidado</title>
-    <style>
-      body { font-family: 'Arial', sans-serif; line-height: 1.2; color: #252525; }
-      h1 { color: #02a58d; text-align: center; font-size: 16pt; margin-bottom: 5px; text-transform: uppercase; border-bottom: 2px solid #02a58d; }
-      h2 { color: #ffffff; background-color: #252525; padding: 5px 10px; margin-top: 20px; font-size: 12pt; border-radius: 4px; }
-      table { width: 100%; border-collapse: collapse; margin-top: 10px; margin-bottom: 15px; table-layout: fixed; }
-      th, td { border: 1px solid #000; padding: 4px; text-align: center; font-size: 7.5pt; word-wrap: break-word; }
-      th { background-color: #f2f2f2; font-weight: bold; text-transform: uppercase; }
-      .text-left { text-align: left; }
-      .footer { margin-top: 30px; font-size: 7pt; color: #666; text-align: center; }
-      .highlight-contrast { background-color: #fff0f0; color: #ff4d63; font-weight: bold; }
-      .highlight-special { background-color: #f0fff4; color: #02a58d; font-weight: bold; }
-      .header-box { padding: 10px; background-color: #fafafa; border: 1px solid #ccc; font-size: 9pt; }
-      .period-badge { color: #02a58d; font-weight: bold; }
-    </style>
-    </head>
-    <body>
-      <h1>REPORTE DE PRODUCTIVIDAD RADIOLÓGICA</h1>
-      
-      <div class="header-box">
-        <p><strong>PERIODO ANALIZADO:</strong> <span class="period-badge">${dateRange.min} — ${dateRange.max}</span></p>
-        <p><strong>FILTRO ESPECIALISTA:</strong> ${filterSpecialist === 'All' ? 'GLOBAL' : filterSpecialist}</p>
-        <p><strong>FECHA GENERACIÓN:</strong> ${new Date().toLocaleString()}</p>
-        <p><strong>TOTAL ESTUDIOS:</strong> ${filtered.length}</p>
-      </div>
-
-      <h2>1. CUADRO RESUMEN DE PRODUCTIVIDAD POR MODALIDAD</h2>
-      <table>
-        <thead>
-          <tr>
-            <th style="width: 25%;">Especialista</th>
-            <th style="width: 8%;">Total</th>
-            <th style="width: 8%;">CT Std</th>
-            <th style="width: 8%;">CT Cont</th>
-            <th style="width: 8%;">CR Std</th>
-            <th style="width: 8%;">CR Esp</th>
-            <th style="width: 8%;">MG</th>
-            <th style="width: 8%;">US</th>
-            <th style="width: 8%;">Otros</th>
-          </tr>
-        </thead>
-        <tbody>
-          ${Object.values(specStats).map(s => `
-            <tr>
-              <td class="text-left"><strong>${s.name}</strong></td>
-              <td><strong>${s.total}</strong></td>
-              <td>${s.ct_std}</td>
-              <td class="highlight-contrast">${s.ct_cont}</td>
-              <td>${s.cr_std}</td>
-              <td class="highlight-special">${s.cr_esp}</td>
-              <td>${s.mg}</td>
-              <td>${s.us}</td>
-              <td>${s.otros}</td>
-            </tr>
-          `).join('')}
-        </tbody>
-      </table>
-
-      <h2>2. RELACIÓN DETALLADA DE PACIENTES</h2>
-      <table>
-        <thead>
-          <tr>
-            <th style="width: 15%;">REALIZADO POR</th>
-            <th style="width: 10%;">ESTADO REPORTE</th>
-            <th style="width: 10%;">FECHA REPORTE</th>
-            <th style="width: 10%;">ID PACIENTE</th>
-            <th style="width: 18%;">NOMBRE PACIENTE</th>
-            <th style="width: 27%;">DESCRIPCIÓN</th>
-            <th style="width: 10%;">MODALIDAD</th>
-          </tr>
-        </thead>
-        <tbody>
-          ${sortedPatients.map(p => `
-            <tr>
-              <td class="text-left">${p.realizado_por || 'N/A'}</td>
-              <td>${p.estado_reporte || 'N/A'}</td>
-              <td>${p.fecha_reporte || 'N/A'}</td>
-              <td>${p.id_paciente || 'N/A'}</td>
-              <td class="text-left"><strong>${p.nombre_paciente || 'N/A'}</strong></td>
-              <td class="text-left">${p.descripcion || 'N/A'}</td>
-              <td class="${p.subcategory === 'CONTRASTADOS' ? 'highlight-contrast' : p.subcategory === 'ESPECIALES' ? 'highlight-special' : ''}">
-                ${p.modalidad || 'N/A'} ${p.subcategory === 'CONTRASTADOS' ? '(CONTRASTE)' : p.subcategory === 'ESPECIALES' ? '(ESPECIAL)' : ''}
-              </td>
-            </tr>
-          `).join('')}
-        </tbody>
-      </table>
-
-      <div class="footer">
-        © ${new Date().getFullYear()} MedStats Pro Intelligence — Generado por FortBA®
-      </div>
-    </body>
-    </html>
-  `;
-
-  const blob = new Blob(['\ufeff', html], { type: 'application/msword' });
-  const link = document.createElement('a');
-  link.href = URL.createObjectURL(blob);
-  link.download = `Reporte_MedStats_${filterSpecialist.replace(/\s/g, '_')}_${new Date().getTime()}.doc`;
-  document.body.appendChild(link);
-  link.click();
-  document.body.removeChild(link);
+  const blob = await Packer.toBlob(doc);
+  downloadBlob(new Blob([blob], { type: DOCX_MIME }), `Reporte_MedStats_${filterFileLabel(filters)}${privacyFileSuffix(options.anonymized)}_${new Date().getTime()}.docx`);
 };